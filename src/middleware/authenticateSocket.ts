@@ -0,0 +1,33 @@
+import jwt from 'jsonwebtoken';
+import logger from '../utils/logger';
+
+interface JWTPayload {
+  userId: string;
+  email: string;
+}
+
+/**
+ * Socket.IO middleware that sets `socket.userId` from a JWT passed as
+ * `auth.token` (or a Bearer Authorization header). Anonymous connections are
+ * still accepted; handlers that need an identity check `socket.userId`.
+ */
+const authenticateSocket = (socket: any, next: (err?: Error) => void): void => {
+  const header = socket.handshake?.headers?.authorization as string | undefined;
+  const token = socket.handshake?.auth?.token || (header ? header.replace('Bearer ', '') : undefined);
+
+  if (!token) {
+    next();
+    return;
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || '') as JWTPayload;
+    socket.userId = decoded.userId;
+    next();
+  } catch (error: any) {
+    logger.warn(`Socket ${socket.id} rejected: ${error.message}`);
+    next(new Error('Authentication failed'));
+  }
+};
+
+export default authenticateSocket;
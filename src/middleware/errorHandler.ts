@@ -1,10 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
 import logger from '../utils/logger';
+import { toFieldErrors } from './validate';
 import { Server as HttpServer } from 'http';
 
 interface CustomError extends Error {
   statusCode?: number;
   code?: number;
+  details?: any;
   errors?: Record<string, { message: string }>;
 }
 
@@ -38,9 +41,17 @@ export const errorHandler = (err: CustomError, req: Request, res: Response, next
     error = { message, statusCode: 400 } as CustomError;
   }
 
-  if (err.name === 'ValidationError') {
+  if (err.name === 'ValidationError' && (err as any).isJoi) {
+    const details = toFieldErrors(err as unknown as Joi.ValidationError);
+    error = { message: 'Validation failed', statusCode: 400, details } as CustomError;
+  } else if (err.name === 'ValidationError') {
     const message = Object.values(err.errors || {}).map((val: any) => val.message).join(', ');
-    error = { message, statusCode: 400 } as CustomError;
+    const details = Object.entries(err.errors || {}).map(([field, val]: [string, any]) => ({
+      field,
+      message: val.message,
+      type: val.kind
+    }));
+    error = { message, statusCode: 400, details } as CustomError;
   }
 
   if (err.name === 'JsonWebTokenError') {
@@ -68,6 +79,10 @@ export const errorHandler = (err: CustomError, req: Request, res: Response, next
     timestamp: new Date().toISOString()
   };
 
+  if (error.details !== undefined) {
+    errorResponse.details = error.details;
+  }
+
   if (process.env.NODE_ENV === 'development') {
     errorResponse.stack = err.stack;
     errorResponse.context = {
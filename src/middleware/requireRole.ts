@@ -0,0 +1,22 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../types';
+
+/**
+ * Allows the request through only if the authenticated user has one of
+ * `roles`. Must run after authenticateJWT.
+ */
+const requireRole = (...roles: string[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    const userRoles: string[] = req.user?.roles || [];
+    if (!roles.some((role: string) => userRoles.includes(role))) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied. Insufficient permissions.'
+      });
+      return;
+    }
+    next();
+  };
+};
+
+export default requireRole;
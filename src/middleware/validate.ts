@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+
+export interface FieldError {
+  field: string;
+  message: string;
+  type: string;
+}
+
+export const VALIDATION_OPTIONS: Joi.ValidationOptions = {
+  abortEarly: false,
+  allowUnknown: false,
+  convert: true
+};
+
+export const toFieldErrors = (error: Joi.ValidationError): FieldError[] =>
+  error.details.map((detail: Joi.ValidationErrorItem) => ({
+    field: detail.path.join('.'),
+    message: detail.message,
+    type: detail.type
+  }));
+
+/**
+ * Validates `req.body` against `schema` and replaces it with the converted value.
+ * Unknown fields are rejected; failures are handed to the error handler.
+ */
+export const validateBody = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { error, value } = schema.validate(req.body ?? {}, VALIDATION_OPTIONS);
+    if (error) {
+      next(error);
+      return;
+    }
+    req.body = value;
+    next();
+  };
+};
+
+export default validateBody;
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type AchievementEventType = 'task.completed' | 'challenge.completed' | 'duel.finished' | 'adventure.completed';
+
+export const ACHIEVEMENT_EVENT_TYPES: AchievementEventType[] = [
+  'task.completed', 'challenge.completed', 'duel.finished', 'adventure.completed'
+];
+
+export const ACHIEVEMENT_EVENT_RETENTION_DAYS = parseInt(process.env.ACHIEVEMENT_EVENT_RETENTION_DAYS || '90', 10);
+
+export interface IAchievementEvent extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: AchievementEventType;
+  data: Record<string, any>;
+  occurredAt: Date;
+}
+
+const achievementEventSchema = new Schema<IAchievementEvent>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ACHIEVEMENT_EVENT_TYPES,
+    required: true
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  occurredAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Rules count a user's events of one type inside a time window; anything
+// older than the longest window a rule may use is dropped.
+achievementEventSchema.index({ userId: 1, type: 1, occurredAt: -1 });
+achievementEventSchema.index({ occurredAt: 1 }, { expireAfterSeconds: ACHIEVEMENT_EVENT_RETENTION_DAYS * 24 * 60 * 60 });
+
+const AchievementEvent: Model<IAchievementEvent> = mongoose.model<IAchievementEvent>('AchievementEvent', achievementEventSchema);
+export default AchievementEvent;
@@ -12,6 +12,7 @@ export interface IAnalytics extends Document {
     pointsEarned: number;
     badgesEarned: number;
     peakProductivityHour?: number;
+    minutesByHour: number[];
     tasksByType: {
       manual: number;
       notion: number;
@@ -94,6 +95,10 @@ const analyticsSchema = new Schema<IAnalytics>({
       min: 0,
       max: 23
     },
+    minutesByHour: {
+      type: [Number],
+      default: () => new Array(24).fill(0)
+    },
     tasksByType: {
       manual: { type: Number, default: 0 },
       notion: { type: Number, default: 0 },
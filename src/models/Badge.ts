@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { AchievementRule, validateRule } from '../utils/achievementRules';
 
 export interface IBadge extends Document {
   name: string;
@@ -7,8 +8,10 @@ export interface IBadge extends Document {
   category: 'streak' | 'completion' | 'efficiency' | 'social' | 'special' | 'milestone';
   criteria: {
     type: 'streak' | 'tasks_completed' | 'challenges_completed' | 'efficiency' | 'points' | 'custom';
-    value: number;
+    value?: number;
     description?: string;
+    /** Overrides `type`/`value` when present; see utils/achievementRules. */
+    rule?: AchievementRule;
   };
   rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
   pointsReward: number;
@@ -46,9 +49,18 @@ const badgeSchema = new Schema<IBadge>({
     },
     value: {
       type: Number,
-      required: true
+      required: function(this: IBadge) {
+        return !this.criteria?.rule;
+      }
     },
-    description: String
+    description: String,
+    rule: {
+      type: Schema.Types.Mixed,
+      validate: {
+        validator: (rule: any) => rule === undefined || rule === null || validateRule(rule).length === 0,
+        message: (props: any) => validateRule(props.value).join('; ')
+      }
+    }
   },
   rarity: {
     type: String,
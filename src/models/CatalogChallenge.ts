@@ -0,0 +1,205 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type CatalogVisibility = 'private' | 'unlisted' | 'public';
+export type ModerationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ICatalogChallenge extends Document {
+  authorId: mongoose.Types.ObjectId;
+  type: 'quiz' | 'puzzle' | 'coding_challenge';
+  title: string;
+  description?: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  difficultyScore: number;
+  tags: string[];
+  configuration: {
+    timeLimit?: number;
+    attempts?: number;
+    hints?: string[];
+    hintPenalty?: number;
+    questions?: Array<{
+      question: string;
+      options: string[];
+      correctAnswer: number;
+      points: number;
+    }>;
+    codeTemplate?: string;
+    testCases?: string[];
+    puzzleData?: any;
+  };
+  pointsReward: number;
+  visibility: CatalogVisibility;
+  moderation: {
+    status: ModerationStatus;
+    note?: string;
+    reviewedBy?: mongoose.Types.ObjectId;
+    reviewedAt?: Date;
+  };
+  ratings: Array<{
+    userId: mongoose.Types.ObjectId;
+    score: number;
+    ratedAt: Date;
+  }>;
+  ratingAverage: number;
+  ratingCount: number;
+  usageCount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const catalogChallengeSchema = new Schema<ICatalogChallenge>({
+  authorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['quiz', 'puzzle', 'coding_challenge'],
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 2000
+  },
+  difficulty: {
+    type: String,
+    enum: ['easy', 'medium', 'hard'],
+    default: 'medium'
+  },
+  difficultyScore: {
+    type: Number,
+    min: 1,
+    max: 10,
+    default: 5
+  },
+  tags: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  configuration: {
+    timeLimit: Number,
+    attempts: Number,
+    hints: [String],
+    hintPenalty: {
+      type: Number,
+      min: 0,
+      max: 1
+    },
+    questions: [{
+      _id: false,
+      question: String,
+      options: [String],
+      correctAnswer: Number,
+      points: Number
+    }],
+    codeTemplate: String,
+    testCases: [String],
+    puzzleData: Schema.Types.Mixed
+  },
+  pointsReward: {
+    type: Number,
+    default: 100,
+    min: 0,
+    max: 1000
+  },
+  visibility: {
+    type: String,
+    enum: ['private', 'unlisted', 'public'],
+    default: 'private'
+  },
+  moderation: {
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected'],
+      default: 'pending'
+    },
+    note: {
+      type: String,
+      maxlength: 500
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reviewedAt: Date
+  },
+  ratings: [{
+    _id: false,
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    score: {
+      type: Number,
+      min: 1,
+      max: 5,
+      required: true
+    },
+    ratedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  ratingAverage: {
+    type: Number,
+    default: 0
+  },
+  ratingCount: {
+    type: Number,
+    default: 0
+  },
+  usageCount: {
+    type: Number,
+    default: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+catalogChallengeSchema.index({ visibility: 1, 'moderation.status': 1, createdAt: -1 });
+catalogChallengeSchema.index({ authorId: 1, createdAt: -1 });
+catalogChallengeSchema.index({ tags: 1 });
+catalogChallengeSchema.index({ title: 'text', description: 'text', tags: 'text' });
+
+catalogChallengeSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Answer keys and test cases stay on the server; ratings are summarised.
+// Authors read their own entries through challengeCatalogService.toAuthorView.
+catalogChallengeSchema.set('toJSON', {
+  transform: (_doc: any, ret: any) => {
+    (ret.configuration?.questions || []).forEach((question: any) => {
+      delete question.correctAnswer;
+    });
+    if (ret.configuration?.testCases) {
+      ret.configuration.testCaseCount = ret.configuration.testCases.length;
+      delete ret.configuration.testCases;
+    }
+    if (ret.configuration?.hints) {
+      ret.configuration.hintCount = ret.configuration.hints.length;
+      delete ret.configuration.hints;
+    }
+    delete ret.ratings;
+    return ret;
+  }
+});
+
+const CatalogChallenge: Model<ICatalogChallenge> = mongoose.model<ICatalogChallenge>('CatalogChallenge', catalogChallengeSchema);
+export default CatalogChallenge;
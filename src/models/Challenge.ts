@@ -3,6 +3,7 @@ import mongoose, { Schema, Document, Model } from 'mongoose';
 export interface IChallenge extends Document {
   userId: mongoose.Types.ObjectId;
   taskId: mongoose.Types.ObjectId;
+  catalogChallengeId?: mongoose.Types.ObjectId;
   type: 'quiz' | 'puzzle' | 'coding_challenge' | 'timed_completion' | 'streak' | 'multiplayer' | 'custom';
   title: string;
   description?: string;
@@ -13,6 +14,7 @@ export interface IChallenge extends Document {
     timeLimit?: number;
     attempts?: number;
     hints?: string[];
+    hintPenalty?: number;
     questions?: Array<{
       question: string;
       options: string[];
@@ -25,6 +27,16 @@ export interface IChallenge extends Document {
   };
   pointsReward: number;
   bonusMultiplier: number;
+  startedAt?: Date;
+  hintsRevealed: number;
+  attemptHistory: Array<{
+    kind: 'complete' | 'quiz' | 'solution';
+    startedAt?: Date;
+    submittedAt: Date;
+    score?: number;
+    accuracy?: number;
+    passed: boolean;
+  }>;
   completionData?: {
     completedAt?: Date;
     completionTime?: number;
@@ -32,13 +44,29 @@ export interface IChallenge extends Document {
     accuracy?: number;
     attemptsUsed?: number;
     hintsUsed?: number;
+    graded?: boolean;
+    answers?: Array<{
+      questionIndex: number;
+      answer?: number | null;
+      correct: boolean;
+      pointsAwarded: number;
+    }>;
+    testResults?: Array<{
+      name: string;
+      passed: boolean;
+      durationMs: number;
+      error?: string;
+    }>;
   };
   aiGenerated: boolean;
   aiMetadata?: {
+    provider?: string;
     model?: string;
     prompt?: string;
     generationTime?: number;
   };
+  archivedAt?: Date;
+  archiveReason?: 'task_deleted' | 'orphaned';
   createdAt?: Date;
   expiresAt?: Date;
   updatedAt?: Date;
@@ -55,6 +83,10 @@ const challengeSchema = new Schema<IChallenge>({
     ref: 'Task',
     required: true
   },
+  catalogChallengeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'CatalogChallenge'
+  },
   type: {
     type: String,
     enum: ['quiz', 'puzzle', 'coding_challenge', 'timed_completion', 'streak', 'multiplayer', 'custom'],
@@ -91,6 +123,11 @@ const challengeSchema = new Schema<IChallenge>({
     timeLimit: Number,
     attempts: Number,
     hints: [String],
+    hintPenalty: {
+      type: Number,
+      min: 0,
+      max: 1
+    },
     questions: [{
       question: String,
       options: [String],
@@ -112,23 +149,69 @@ const challengeSchema = new Schema<IChallenge>({
     min: 1.0,
     max: 3.0
   },
+  startedAt: Date,
+  hintsRevealed: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  attemptHistory: [{
+    _id: false,
+    kind: {
+      type: String,
+      enum: ['complete', 'quiz', 'solution'],
+      required: true
+    },
+    startedAt: Date,
+    submittedAt: {
+      type: Date,
+      required: true
+    },
+    score: Number,
+    accuracy: Number,
+    passed: {
+      type: Boolean,
+      default: false
+    }
+  }],
   completionData: {
     completedAt: Date,
     completionTime: Number,
     score: Number,
     accuracy: Number,
     attemptsUsed: Number,
-    hintsUsed: Number
+    hintsUsed: Number,
+    graded: Boolean,
+    answers: [{
+      _id: false,
+      questionIndex: Number,
+      answer: Number,
+      correct: Boolean,
+      pointsAwarded: Number
+    }],
+    testResults: [{
+      _id: false,
+      name: String,
+      passed: Boolean,
+      durationMs: Number,
+      error: String
+    }]
   },
   aiGenerated: {
     type: Boolean,
     default: true
   },
   aiMetadata: {
+    provider: String,
     model: String,
     prompt: String,
     generationTime: Number
   },
+  archivedAt: Date,
+  archiveReason: {
+    type: String,
+    enum: ['task_deleted', 'orphaned']
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -145,12 +228,33 @@ const challengeSchema = new Schema<IChallenge>({
 challengeSchema.index({ userId: 1, status: 1 });
 challengeSchema.index({ taskId: 1 });
 challengeSchema.index({ expiresAt: 1 });
+challengeSchema.index({ status: 1, expiresAt: 1 });
+challengeSchema.index({ userId: 1, archivedAt: 1 });
 
 challengeSchema.pre('save', function(next) {
   this.updatedAt = new Date();
   next();
 });
 
+// Answer keys never leave the server; quizzes are graded by POST /challenges/:id/submit.
+// Hints are only visible once unlocked through POST /challenges/:id/hints/next.
+challengeSchema.set('toJSON', {
+  transform: (_doc: any, ret: any) => {
+    (ret.configuration?.questions || []).forEach((question: any) => {
+      delete question.correctAnswer;
+    });
+    if (ret.configuration?.testCases) {
+      ret.configuration.testCaseCount = ret.configuration.testCases.length;
+      delete ret.configuration.testCases;
+    }
+    if (ret.configuration?.hints) {
+      ret.configuration.hintCount = ret.configuration.hints.length;
+      ret.configuration.hints = ret.configuration.hints.slice(0, ret.hintsRevealed || 0);
+    }
+    return ret;
+  }
+});
+
 const Challenge: Model<IChallenge> = mongoose.model<IChallenge>('Challenge', challengeSchema);
 export default Challenge;
 
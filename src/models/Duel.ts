@@ -0,0 +1,130 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type DuelStatus = 'pending' | 'active' | 'completed' | 'rejected' | 'cancelled' | 'expired';
+
+export interface IDuel extends Document {
+  challengerId: mongoose.Types.ObjectId;
+  opponentId: mongoose.Types.ObjectId;
+  challengeId?: mongoose.Types.ObjectId;
+  title: string;
+  challengeType: string;
+  status: DuelStatus;
+  duration: number;
+  participants: Array<{
+    userId: mongoose.Types.ObjectId;
+    /** The participant's own copy of the linked challenge. */
+    challengeId?: mongoose.Types.ObjectId;
+    progress: number;
+    finishedAt?: Date;
+    lastUpdateAt?: Date;
+    pointsAwarded: number;
+  }>;
+  startTime?: Date;
+  endTime?: Date;
+  inviteExpiresAt: Date;
+  winnerId?: mongoose.Types.ObjectId;
+  isDraw: boolean;
+  completedAt?: Date;
+  /** Set once every participant's reward has been posted to the ledger. */
+  awardsPostedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const duelSchema = new Schema<IDuel>({
+  challengerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  opponentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  challengeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Challenge'
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  challengeType: {
+    type: String,
+    default: 'multiplayer'
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'active', 'completed', 'rejected', 'cancelled', 'expired'],
+    default: 'pending'
+  },
+  duration: {
+    type: Number,
+    required: true,
+    min: 60 * 1000
+  },
+  participants: [{
+    _id: false,
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    challengeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Challenge'
+    },
+    progress: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 100
+    },
+    finishedAt: Date,
+    lastUpdateAt: Date,
+    pointsAwarded: {
+      type: Number,
+      default: 0
+    }
+  }],
+  startTime: Date,
+  endTime: Date,
+  inviteExpiresAt: {
+    type: Date,
+    required: true
+  },
+  winnerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  isDraw: {
+    type: Boolean,
+    default: false
+  },
+  completedAt: Date,
+  awardsPostedAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+duelSchema.index({ 'participants.userId': 1, createdAt: -1 });
+duelSchema.index({ status: 1, endTime: 1 });
+duelSchema.index({ status: 1, inviteExpiresAt: 1 });
+duelSchema.index({ status: 1, awardsPostedAt: 1 });
+
+duelSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const Duel: Model<IDuel> = mongoose.model<IDuel>('Duel', duelSchema);
+export default Duel;
@@ -6,6 +6,8 @@ export interface IGamification extends Document {
   level: number;
   xp: number;
   xpToNextLevel: number;
+  /** XP earned overall; level, xp and xpToNextLevel are derived from it. */
+  totalXp?: number;
   streaks: {
     daily: {
       current: number;
@@ -36,6 +38,8 @@ export interface IGamification extends Document {
     totalTimeSpent: number;
     averageEfficiency: number;
     perfectCompletions: number;
+    duelsPlayed: number;
+    duelsWon: number;
     currentRank: number;
   };
   preferences: {
@@ -74,6 +78,11 @@ const gamificationSchema = new Schema<IGamification>({
     type: Number,
     default: 1000
   },
+  // No default: profiles from before the field are backfilled from level and xp.
+  totalXp: {
+    type: Number,
+    min: 0
+  },
   streaks: {
     daily: {
       current: {
@@ -117,13 +126,11 @@ const gamificationSchema = new Schema<IGamification>({
   achievements: [{
     achievementId: String,
     achievementName: String,
-    unlockedAt: {
-      type: Date,
-      default: Date.now
-    },
+    // Set once progress reaches 100.
+    unlockedAt: Date,
     progress: {
       type: Number,
-      default: 100,
+      default: 0,
       min: 0,
       max: 100
     }
@@ -155,6 +162,16 @@ const gamificationSchema = new Schema<IGamification>({
       default: 0,
       min: 0
     },
+    duelsPlayed: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    duelsWon: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
     currentRank: {
       type: Number,
       default: 0
@@ -190,13 +207,9 @@ gamificationSchema.index({ points: -1 });
 gamificationSchema.index({ 'stats.tasksCompleted': -1 });
 gamificationSchema.index({ level: -1 });
 
+// Levels are derived from XP by levelService along the configured curve.
 gamificationSchema.pre('save', function(next) {
   this.updatedAt = new Date();
-  if (this.xp >= this.xpToNextLevel) {
-    this.level += 1;
-    this.xp = this.xp - this.xpToNextLevel;
-    this.xpToNextLevel = Math.floor(this.xpToNextLevel * 1.5);
-  }
   next();
 });
 
@@ -4,7 +4,8 @@ export type NotificationType =
   | 'adventure_generated' | 'step_reminder' | 'weather_alert' | 'venue_change'
   | 'friend_joined' | 'friend_invited' | 'event_reminder' | 'event_cancelled'
   | 'event_updated' | 'badge_earned' | 'points_earned' | 'streak_reminder'
-  | 'adventure_completed' | 'new_event_nearby' | 'friend_adventure_shared' | 'system_announcement';
+  | 'adventure_completed' | 'new_event_nearby' | 'friend_adventure_shared' | 'system_announcement'
+  | 'challenge_expired' | 'level_up';
 
 export interface INotification extends Document {
   userId: mongoose.Types.ObjectId;
@@ -14,6 +15,7 @@ export interface INotification extends Document {
   data?: {
     adventureId?: mongoose.Types.ObjectId;
     eventId?: mongoose.Types.ObjectId;
+    challengeId?: mongoose.Types.ObjectId;
     stepIndex?: number;
     points?: number;
     badge?: string;
@@ -50,6 +52,7 @@ interface INotificationModel extends Model<INotification> {
   createEventNotification(userId: string, type: NotificationType, eventId: string, message: string, scheduledFor?: Date): Promise<INotification>;
   createFriendNotification(userId: string, type: NotificationType, friendId: string, message: string): Promise<INotification>;
   createGamificationNotification(userId: string, type: NotificationType, message: string, data?: any): Promise<INotification>;
+  createChallengeNotification(userId: string, type: NotificationType, challengeId: string, message: string): Promise<INotification>;
   cleanup(daysOld?: number): Promise<any>;
 }
 
@@ -65,7 +68,8 @@ const notificationSchema = new Schema<INotification>({
       'adventure_generated', 'step_reminder', 'weather_alert', 'venue_change',
       'friend_joined', 'friend_invited', 'event_reminder', 'event_cancelled',
       'event_updated', 'badge_earned', 'points_earned', 'streak_reminder',
-      'adventure_completed', 'new_event_nearby', 'friend_adventure_shared', 'system_announcement'
+      'adventure_completed', 'new_event_nearby', 'friend_adventure_shared', 'system_announcement',
+      'challenge_expired', 'level_up'
     ],
     required: true
   },
@@ -88,6 +92,10 @@ const notificationSchema = new Schema<INotification>({
       type: Schema.Types.ObjectId,
       ref: 'Event'
     },
+    challengeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Challenge'
+    },
     stepIndex: Number,
     points: Number,
     badge: String,
@@ -252,6 +260,17 @@ notificationSchema.statics.createGamificationNotification = function(userId: str
   });
 };
 
+notificationSchema.statics.createChallengeNotification = function(userId: string, type: NotificationType, challengeId: string, message: string) {
+  return this.create({
+    userId,
+    type,
+    title: 'Challenge Update',
+    message,
+    data: { challengeId },
+    priority: 'medium'
+  });
+};
+
 notificationSchema.statics.cleanup = function(daysOld: number = 30) {
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - daysOld);
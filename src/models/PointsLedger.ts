@@ -0,0 +1,113 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type PointsSource = 'task' | 'challenge' | 'duel' | 'badge' | 'adventure' | 'integration' | 'adjustment';
+
+/**
+ * Which balance an entry moves: the gamification profile (points and XP),
+ * the adventure total on the user, or momentum in the engagement service.
+ */
+export type LedgerAccount = 'gamification' | 'adventure' | 'momentum';
+
+export type PointsReason =
+  | 'task_completed'
+  | 'challenge_completed'
+  | 'duel_result'
+  | 'badge_earned'
+  | 'adventure_completed'
+  | 'momentum'
+  | 'opening_balance'
+  | 'manual_adjustment'
+  | 'reversal';
+
+export type LedgerEntryStatus = 'posted' | 'reversed';
+
+export interface IPointsLedger extends Document {
+  userId: mongoose.Types.ObjectId;
+  account: LedgerAccount;
+  points: number;
+  xp: number;
+  reason: PointsReason;
+  source: PointsSource;
+  sourceId?: mongoose.Types.ObjectId;
+  description?: string;
+  idempotencyKey: string;
+  status: LedgerEntryStatus;
+  reversalOf?: mongoose.Types.ObjectId;
+  reversedBy?: mongoose.Types.ObjectId;
+  reversedAt?: Date;
+  createdAt: Date;
+}
+
+const pointsLedgerSchema = new Schema<IPointsLedger>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  account: {
+    type: String,
+    enum: ['gamification', 'adventure', 'momentum'],
+    default: 'gamification'
+  },
+  points: {
+    type: Number,
+    required: true
+  },
+  xp: {
+    type: Number,
+    default: 0
+  },
+  reason: {
+    type: String,
+    enum: [
+      'task_completed', 'challenge_completed', 'duel_result', 'badge_earned', 'adventure_completed',
+      'momentum', 'opening_balance', 'manual_adjustment', 'reversal'
+    ],
+    required: true
+  },
+  source: {
+    type: String,
+    enum: ['task', 'challenge', 'duel', 'badge', 'adventure', 'integration', 'adjustment'],
+    required: true
+  },
+  sourceId: Schema.Types.ObjectId,
+  description: {
+    type: String,
+    maxlength: 200
+  },
+  idempotencyKey: {
+    type: String,
+    required: true,
+    maxlength: 200
+  },
+  status: {
+    type: String,
+    enum: ['posted', 'reversed'],
+    default: 'posted'
+  },
+  reversalOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'PointsLedger'
+  },
+  reversedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'PointsLedger'
+  },
+  reversedAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Entries are append-only apart from the status flip on reversal. A key can
+// only be posted once; reversing the entry frees it to be awarded again.
+pointsLedgerSchema.index(
+  { idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { status: 'posted' } }
+);
+pointsLedgerSchema.index({ createdAt: -1, userId: 1 });
+pointsLedgerSchema.index({ userId: 1, account: 1, createdAt: -1 });
+
+const PointsLedger: Model<IPointsLedger> = mongoose.model<IPointsLedger>('PointsLedger', pointsLedgerSchema);
+export default PointsLedger;
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ISkillRating extends Document {
+  userId: mongoose.Types.ObjectId;
+  rating: number;
+  deviation: number;
+  challengesRated: number;
+  lastRatedAt?: Date;
+  history: Array<{
+    challengeId: mongoose.Types.ObjectId;
+    difficultyScore: number;
+    outcome: number;
+    ratingBefore: number;
+    ratingAfter: number;
+    deviation: number;
+    ratedAt: Date;
+  }>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const skillRatingSchema = new Schema<ISkillRating>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  rating: {
+    type: Number,
+    default: 1500
+  },
+  deviation: {
+    type: Number,
+    default: 350,
+    min: 0
+  },
+  challengesRated: {
+    type: Number,
+    default: 0
+  },
+  lastRatedAt: Date,
+  history: [{
+    _id: false,
+    challengeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Challenge'
+    },
+    difficultyScore: Number,
+    outcome: {
+      type: Number,
+      min: 0,
+      max: 1
+    },
+    ratingBefore: Number,
+    ratingAfter: Number,
+    deviation: Number,
+    ratedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+skillRatingSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const SkillRating: Model<ISkillRating> = mongoose.model<ISkillRating>('SkillRating', skillRatingSchema);
+export default SkillRating;
@@ -16,12 +16,45 @@ export interface ITask extends Document {
     sourceData?: any;
   };
   challengeId?: mongoose.Types.ObjectId;
+  parentTaskId?: mongoose.Types.ObjectId;
+  blockedBy: mongoose.Types.ObjectId[];
+  progress: number;
+  checklist: Array<{
+    _id?: mongoose.Types.ObjectId;
+    text: string;
+    completed: boolean;
+    completedAt?: Date;
+  }>;
+  templateId?: mongoose.Types.ObjectId;
+  timeTracking?: {
+    state: 'idle' | 'running' | 'paused' | 'stopped';
+    intervals: Array<{
+      startedAt: Date;
+      endedAt?: Date;
+    }>;
+  };
   completionData?: {
     completedAt?: Date;
     actualDuration?: number;
+    durationSource?: 'tracked' | 'reported';
     efficiency?: number;
     notes?: string;
   };
+  recurrence?: {
+    frequency: 'daily' | 'weekly' | 'monthly';
+    interval?: number;
+    byWeekday?: number[];
+    byMonthDay?: number;
+    until?: Date;
+    count?: number;
+    exceptions?: Date[];
+  };
+  seriesId?: mongoose.Types.ObjectId;
+  seriesStart?: Date;
+  occurrenceIndex?: number;
+  nextOccurrenceId?: mongoose.Types.ObjectId;
+  /** Set on the last occurrence once `until` or `count` is reached. */
+  seriesEndedAt?: Date;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -79,12 +112,102 @@ const taskSchema = new Schema<ITask>({
     type: Schema.Types.ObjectId,
     ref: 'Challenge'
   },
+  parentTaskId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task'
+  },
+  blockedBy: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Task'
+  }],
+  progress: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 100
+  },
+  checklist: [{
+    text: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 500
+    },
+    completed: {
+      type: Boolean,
+      default: false
+    },
+    completedAt: Date
+  }],
+  templateId: {
+    type: Schema.Types.ObjectId,
+    ref: 'TaskTemplate'
+  },
+  timeTracking: {
+    state: {
+      type: String,
+      enum: ['idle', 'running', 'paused', 'stopped'],
+      default: 'idle'
+    },
+    intervals: [{
+      startedAt: {
+        type: Date,
+        required: true
+      },
+      endedAt: Date
+    }]
+  },
   completionData: {
     completedAt: Date,
     actualDuration: Number,
+    durationSource: {
+      type: String,
+      enum: ['tracked', 'reported']
+    },
     efficiency: Number,
     notes: String
   },
+  recurrence: {
+    frequency: {
+      type: String,
+      enum: ['daily', 'weekly', 'monthly']
+    },
+    interval: {
+      type: Number,
+      min: 1
+    },
+    byWeekday: [{
+      type: Number,
+      min: 0,
+      max: 6
+    }],
+    byMonthDay: {
+      type: Number,
+      min: 1,
+      max: 31
+    },
+    until: Date,
+    count: {
+      type: Number,
+      min: 1
+    },
+    exceptions: [Date]
+  },
+  seriesId: {
+    type: Schema.Types.ObjectId
+  },
+  seriesStart: {
+    type: Date
+  },
+  occurrenceIndex: {
+    type: Number,
+    min: 1
+  },
+  nextOccurrenceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task'
+  },
+  seriesEndedAt: Date,
   createdAt: {
     type: Date,
     default: Date.now
@@ -99,6 +222,14 @@ taskSchema.index({ userId: 1, status: 1 });
 taskSchema.index({ userId: 1, type: 1 });
 taskSchema.index({ userId: 1, dueDate: 1 });
 taskSchema.index({ createdAt: -1 });
+taskSchema.index(
+  { title: 'text', description: 'text', tags: 'text' },
+  { weights: { title: 10, tags: 5, description: 1 }, name: 'task_text_search' }
+);
+taskSchema.index({ userId: 1, 'metadata.sourceId': 1 }, { sparse: true });
+taskSchema.index({ parentTaskId: 1 });
+taskSchema.index({ blockedBy: 1 });
+taskSchema.index({ seriesId: 1, occurrenceIndex: 1 }, { unique: true, sparse: true });
 
 taskSchema.pre('save', function(next) {
   this.updatedAt = new Date();
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type TaskChangeAction = 'create' | 'update' | 'complete' | 'checklist' | 'delete' | 'revert' | 'restore';
+
+export interface ITaskChange extends Document {
+  taskId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  actorId?: mongoose.Types.ObjectId;
+  source: 'user' | 'system';
+  action: TaskChangeAction;
+  changes: Array<{
+    field: string;
+    oldValue?: any;
+    newValue?: any;
+  }>;
+  snapshot?: any;
+  revertOf?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const TaskChangeSchema = new Schema<ITaskChange>({
+  taskId: { type: Schema.Types.ObjectId, ref: 'Task', required: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  actorId: { type: Schema.Types.ObjectId, ref: 'User' },
+  source: { type: String, enum: ['user', 'system'], default: 'user' },
+  action: {
+    type: String,
+    enum: ['create', 'update', 'complete', 'checklist', 'delete', 'revert', 'restore'],
+    required: true
+  },
+  changes: [{
+    _id: false,
+    field: { type: String, required: true },
+    oldValue: Schema.Types.Mixed,
+    newValue: Schema.Types.Mixed
+  }],
+  // Full task document, kept on deletions so the task can be restored.
+  snapshot: Schema.Types.Mixed,
+  revertOf: { type: Schema.Types.ObjectId, ref: 'TaskChange' },
+  createdAt: { type: Date, default: Date.now }
+});
+
+TaskChangeSchema.index({ taskId: 1, createdAt: -1 });
+TaskChangeSchema.index({ userId: 1, action: 1, createdAt: -1 });
+
+const TaskChange: Model<ITaskChange> = mongoose.model<ITaskChange>('TaskChange', TaskChangeSchema);
+export default TaskChange;
@@ -0,0 +1,146 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ITaskTemplate extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  title: string;
+  description?: string;
+  type: 'manual' | 'notion' | 'trello' | 'github' | 'google_docs' | 'pdf' | 'code' | 'study' | 'creative';
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  estimatedDuration?: number;
+  tags?: string[];
+  checklist: Array<{
+    text: string;
+  }>;
+  subtasks: Array<{
+    title: string;
+    description?: string;
+    priority?: 'low' | 'medium' | 'high' | 'urgent';
+    estimatedDuration?: number;
+    checklist?: Array<{
+      text: string;
+    }>;
+  }>;
+  variables: Array<{
+    key: string;
+    label?: string;
+    defaultValue?: string;
+    required: boolean;
+  }>;
+  usageCount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const checklistItemSchema = new Schema({
+  text: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500
+  }
+}, { _id: false });
+
+const taskTemplateSchema = new Schema<ITaskTemplate>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 2000
+  },
+  type: {
+    type: String,
+    enum: ['manual', 'notion', 'trello', 'github', 'google_docs', 'pdf', 'code', 'study', 'creative'],
+    default: 'manual'
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'urgent'],
+    default: 'medium'
+  },
+  estimatedDuration: {
+    type: Number,
+    min: 1
+  },
+  tags: [{
+    type: String,
+    trim: true,
+    maxlength: 50
+  }],
+  checklist: [checklistItemSchema],
+  subtasks: [{
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 2000
+    },
+    priority: {
+      type: String,
+      enum: ['low', 'medium', 'high', 'urgent']
+    },
+    estimatedDuration: {
+      type: Number,
+      min: 1
+    },
+    checklist: [checklistItemSchema]
+  }],
+  variables: [{
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+      match: /^[a-zA-Z_][a-zA-Z0-9_]*$/
+    },
+    label: String,
+    defaultValue: String,
+    required: {
+      type: Boolean,
+      default: false
+    }
+  }],
+  usageCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+taskTemplateSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+taskTemplateSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const TaskTemplate: Model<ITaskTemplate> = mongoose.model<ITaskTemplate>('TaskTemplate', taskTemplateSchema);
+export default TaskTemplate;
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ITeam extends Document {
+  name: string;
+  description?: string;
+  ownerId: mongoose.Types.ObjectId;
+  memberIds: mongoose.Types.ObjectId[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const MAX_TEAM_SIZE = 100;
+
+const teamSchema = new Schema<ITeam>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Includes the owner.
+  memberIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+teamSchema.index({ memberIds: 1 });
+teamSchema.index({ ownerId: 1 });
+
+teamSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const Team: Model<ITeam> = mongoose.model<ITeam>('Team', teamSchema);
+export default Team;
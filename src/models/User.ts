@@ -191,8 +191,8 @@ userSchema.methods.getPublicProfile = function() {
 };
 
 userSchema.methods.updateStats = function(adventure: any) {
+  // stats.totalPoints is maintained by the points ledger.
   this.stats.adventuresCompleted += 1;
-  this.stats.totalPoints += adventure.points || 10;
   this.stats.lastAdventureDate = new Date();
   
   const today = new Date();
@@ -3,6 +3,7 @@ import Joi from 'joi';
 import adventureService from '../services/adventureService';
 import logger from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
+import { parsePageRequest } from '../utils/pagination';
 
 const router = express.Router();
 
@@ -82,18 +83,18 @@ router.get('/:adventureId', asyncHandler(async (req: Request, res: Response) =>
 
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const userId = (req as any).user.userId;
-  const { status, limit = '20', offset = '0' } = req.query;
+  const { status } = req.query;
 
-  const adventures = await adventureService.getUserAdventures(
+  const page = await adventureService.getUserAdventures(
     userId, 
     status as string | null, 
-    parseInt(limit as string), 
-    parseInt(offset as string)
+    parsePageRequest(req.query, 20)
   );
 
   res.json({
     success: true,
-    data: adventures
+    data: page.items,
+    pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore }
   });
 }));
 
@@ -28,5 +28,20 @@ router.get('/stats', authenticateJWT, async (req: AuthenticatedRequest, res: Res
   }
 });
 
+router.get('/challenges', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const stats = await analyticsService.getChallengeStats(
+      req.user!.id,
+      (req.query.range as string) || 'month',
+      req.query.from as string | undefined,
+      req.query.to as string | undefined
+    );
+    res.json({ success: true, data: stats });
+  } catch (error: any) {
+    logger.error('Error fetching challenge stats:', error);
+    next(error);
+  }
+});
+
 export default router;
 
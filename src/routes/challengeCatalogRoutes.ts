@@ -0,0 +1,112 @@
+import express, { Response, NextFunction } from 'express';
+import challengeCatalogService, { CatalogViewer } from '../services/challengeCatalogService';
+import authenticateJWT from '../middleware/authenticateJWT';
+import { validateBody } from '../middleware/validate';
+import {
+  createCatalogChallengeSchema,
+  updateCatalogChallengeSchema,
+  rateCatalogChallengeSchema,
+  moderateCatalogChallengeSchema,
+  attachCatalogChallengeSchema
+} from '../validators/catalogValidators';
+import logger from '../utils/logger';
+import { parsePageRequest } from '../utils/pagination';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+const viewerOf = (req: AuthenticatedRequest): CatalogViewer => ({
+  userId: req.user!.id!,
+  roles: req.user!.roles
+});
+
+router.get('/', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const viewer = viewerOf(req);
+    const page = await challengeCatalogService.listEntries(viewer, { ...req.query, ...parsePageRequest(req.query) });
+    res.json({
+      success: true,
+      data: page.items.map((entry) => challengeCatalogService.toView(entry, viewer)),
+      pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore }
+    });
+  } catch (error: any) {
+    logger.error('Error listing catalog challenges:', error);
+    next(error);
+  }
+});
+
+router.post('/', authenticateJWT, validateBody(createCatalogChallengeSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const entry = await challengeCatalogService.createEntry(viewerOf(req), req.body);
+    res.status(201).json({ success: true, data: challengeCatalogService.toAuthorView(entry) });
+  } catch (error: any) {
+    logger.error('Error creating catalog challenge:', error);
+    next(error);
+  }
+});
+
+router.get('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const viewer = viewerOf(req);
+    const entry = await challengeCatalogService.getEntry(req.params.id, viewer);
+    res.json({ success: true, data: challengeCatalogService.toView(entry, viewer) });
+  } catch (error: any) {
+    logger.error('Error fetching catalog challenge:', error);
+    next(error);
+  }
+});
+
+router.patch('/:id', authenticateJWT, validateBody(updateCatalogChallengeSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const entry = await challengeCatalogService.updateEntry(req.params.id, viewerOf(req), req.body);
+    res.json({ success: true, data: challengeCatalogService.toAuthorView(entry) });
+  } catch (error: any) {
+    logger.error('Error updating catalog challenge:', error);
+    next(error);
+  }
+});
+
+router.delete('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await challengeCatalogService.deleteEntry(req.params.id, viewerOf(req));
+    res.json({ success: true, message: 'Catalog challenge deleted successfully' });
+  } catch (error: any) {
+    logger.error('Error deleting catalog challenge:', error);
+    next(error);
+  }
+});
+
+router.post('/:id/rate', authenticateJWT, validateBody(rateCatalogChallengeSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const entry = await challengeCatalogService.rateEntry(req.params.id, viewerOf(req), req.body.score);
+    res.json({
+      success: true,
+      data: { ratingAverage: entry.ratingAverage, ratingCount: entry.ratingCount, score: req.body.score }
+    });
+  } catch (error: any) {
+    logger.error('Error rating catalog challenge:', error);
+    next(error);
+  }
+});
+
+router.patch('/:id/moderation', authenticateJWT, validateBody(moderateCatalogChallengeSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const entry = await challengeCatalogService.moderateEntry(req.params.id, viewerOf(req), req.body.status, req.body.note);
+    res.json({ success: true, data: challengeCatalogService.toAuthorView(entry) });
+  } catch (error: any) {
+    logger.error('Error moderating catalog challenge:', error);
+    next(error);
+  }
+});
+
+router.post('/:id/attach', authenticateJWT, validateBody(attachCatalogChallengeSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const challenge = await challengeCatalogService.attachToTask(req.params.id, viewerOf(req), req.body.taskId);
+    res.status(201).json({ success: true, data: challenge });
+  } catch (error: any) {
+    logger.error('Error attaching catalog challenge:', error);
+    next(error);
+  }
+});
+
+export default router;
@@ -1,18 +1,23 @@
 import express, { Response, NextFunction } from 'express';
 import challengeService from '../services/challengeService';
+import skillRatingService from '../services/skillRatingService';
 import authenticateJWT from '../middleware/authenticateJWT';
+import { validateBody } from '../middleware/validate';
+import {
+  generateChallengeSchema,
+  completeChallengeSchema,
+  submitQuizSchema,
+  submitSolutionSchema
+} from '../validators/challengeValidators';
 import logger from '../utils/logger';
+import { parsePageRequest } from '../utils/pagination';
 import { AuthenticatedRequest } from '../types';
 
 const router = express.Router();
 
-router.post('/generate', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/generate', authenticateJWT, validateBody(generateChallengeSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { taskId } = req.body;
-    if (!taskId) {
-      res.status(400).json({ success: false, message: 'Task ID is required' });
-      return;
-    }
     const challenge = await challengeService.generateChallenge(req.user!.id, taskId);
     res.status(201).json({ success: true, data: challenge });
   } catch (error: any) {
@@ -23,14 +28,29 @@ router.post('/generate', authenticateJWT, async (req: AuthenticatedRequest, res:
 
 router.get('/', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const challenges = await challengeService.getUserChallenges(req.user!.id, req.query);
-    res.json({ success: true, data: challenges });
+    const page = await challengeService.getUserChallenges(req.user!.id, { ...req.query, ...parsePageRequest(req.query) });
+    res.json({
+      success: true,
+      data: page.items,
+      pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore }
+    });
   } catch (error: any) {
     logger.error('Error fetching challenges:', error);
     next(error);
   }
 });
 
+router.get('/rating', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 100);
+    const rating = await skillRatingService.getRatingSummary(req.user!.id, limit);
+    res.json({ success: true, data: rating });
+  } catch (error: any) {
+    logger.error('Error fetching skill rating:', error);
+    next(error);
+  }
+});
+
 router.get('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const challenge = await challengeService.getChallengeById(req.params.id, req.user!.id);
@@ -41,7 +61,27 @@ router.get('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Respo
   }
 });
 
-router.post('/:id/complete', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/:id/start', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const challenge = await challengeService.startChallenge(req.params.id, req.user!.id);
+    res.json({ success: true, data: challenge });
+  } catch (error: any) {
+    logger.error('Error starting challenge:', error);
+    next(error);
+  }
+});
+
+router.post('/:id/hints/next', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const reveal = await challengeService.revealNextHint(req.params.id, req.user!.id);
+    res.json({ success: true, data: reveal });
+  } catch (error: any) {
+    logger.error('Error revealing challenge hint:', error);
+    next(error);
+  }
+});
+
+router.post('/:id/complete', authenticateJWT, validateBody(completeChallengeSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const challenge = await challengeService.completeChallenge(
       req.params.id, 
@@ -55,5 +95,25 @@ router.post('/:id/complete', authenticateJWT, async (req: AuthenticatedRequest,
   }
 });
 
+router.post('/:id/submit', authenticateJWT, validateBody(submitQuizSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { challenge, grade } = await challengeService.submitAnswers(req.params.id, req.user!.id, req.body);
+    res.json({ success: true, data: { challenge, grade } });
+  } catch (error: any) {
+    logger.error('Error submitting challenge answers:', error);
+    next(error);
+  }
+});
+
+router.post('/:id/solution', authenticateJWT, validateBody(submitSolutionSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { challenge, run } = await challengeService.submitSolution(req.params.id, req.user!.id, req.body);
+    res.json({ success: true, data: { challenge, run } });
+  } catch (error: any) {
+    logger.error('Error submitting challenge solution:', error);
+    next(error);
+  }
+});
+
 export default router;
 
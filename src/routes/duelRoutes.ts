@@ -0,0 +1,37 @@
+import express, { Response, NextFunction } from 'express';
+import duelService from '../services/duelService';
+import authenticateJWT from '../middleware/authenticateJWT';
+import logger from '../utils/logger';
+import { parsePageRequest } from '../utils/pagination';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+router.get('/', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const page = await duelService.getDuelHistory(req.user!.id, {
+      status: req.query.status as any,
+      ...parsePageRequest(req.query)
+    });
+    res.json({
+      success: true,
+      data: page.items,
+      pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore }
+    });
+  } catch (error: any) {
+    logger.error('Error fetching duel history:', error);
+    next(error);
+  }
+});
+
+router.get('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const duel = await duelService.getDuel(req.params.id, req.user!.id);
+    res.json({ success: true, data: duel });
+  } catch (error: any) {
+    logger.error('Error fetching duel:', error);
+    next(error);
+  }
+});
+
+export default router;
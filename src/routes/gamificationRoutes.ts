@@ -1,7 +1,11 @@
 import express, { Response, NextFunction } from 'express';
 import gamificationService from '../services/gamificationService';
+import leaderboardService from '../services/leaderboardService';
+import pointsLedgerService from '../services/pointsLedgerService';
+import levelService from '../services/levelService';
 import authenticateJWT from '../middleware/authenticateJWT';
 import logger from '../utils/logger';
+import { parsePageRequest } from '../utils/pagination';
 import { AuthenticatedRequest } from '../types';
 
 const router = express.Router();
@@ -28,8 +32,16 @@ router.get('/leaderboard', authenticateJWT, async (req: AuthenticatedRequest, re
   try {
     const limit = parseInt(req.query.limit as string) || 100;
     const period = (req.query.period as string) || 'all';
-    const leaderboard = await gamificationService.getLeaderboard(limit, period);
-    res.json({ success: true, data: leaderboard });
+    const scope = (req.query.scope as string) || 'global';
+
+    if (scope !== 'global') {
+      const options = leaderboardService.parseScope(scope, req.query.teamId as string, req.query.userIds as string);
+      const board = await gamificationService.getScopedLeaderboard(req.user!.id, options, limit, period);
+      res.json({ success: true, data: board.entries, currentUser: board.currentUser, total: board.total });
+    } else {
+      const leaderboard = await gamificationService.getLeaderboard(limit, period);
+      res.json({ success: true, data: leaderboard });
+    }
   } catch (error: any) {
     logger.error('Error fetching leaderboard:', error);
     next(error);
@@ -38,14 +50,52 @@ router.get('/leaderboard', authenticateJWT, async (req: AuthenticatedRequest, re
 
 router.get('/rank', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const rank = await gamificationService.getUserRank(req.user!.id);
-    res.json({ success: true, data: { rank } });
+    const period = (req.query.period as string) || 'all';
+    const rank = await gamificationService.getUserRank(req.user!.id, period);
+    res.json({ success: true, data: { rank, period } });
   } catch (error: any) {
     logger.error('Error fetching rank:', error);
     next(error);
   }
 });
 
+router.get('/levels', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const upTo = parseInt(req.query.upTo as string) || undefined;
+    res.json({ success: true, data: levelService.getCurve(upTo) });
+  } catch (error: any) {
+    logger.error('Error fetching level curve:', error);
+    next(error);
+  }
+});
+
+router.get('/ledger', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const page = await pointsLedgerService.getUserEntries(req.user!.id!, {
+      account: req.query.account as string,
+      ...parsePageRequest(req.query)
+    });
+    res.json({
+      success: true,
+      data: page.items,
+      pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore }
+    });
+  } catch (error: any) {
+    logger.error('Error fetching points ledger:', error);
+    next(error);
+  }
+});
+
+router.get('/achievements', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const achievements = await gamificationService.getAchievements(req.user!.id!);
+    res.json({ success: true, data: achievements });
+  } catch (error: any) {
+    logger.error('Error fetching achievements:', error);
+    next(error);
+  }
+});
+
 router.post('/badges/check', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const awardedBadges = await gamificationService.checkAndAwardBadges(req.user!.id);
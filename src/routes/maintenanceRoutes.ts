@@ -0,0 +1,77 @@
+import express, { Response, NextFunction } from 'express';
+import cascadeService from '../services/cascadeService';
+import pointsLedgerService from '../services/pointsLedgerService';
+import authenticateJWT from '../middleware/authenticateJWT';
+import requireRole from '../middleware/requireRole';
+import { validateBody } from '../middleware/validate';
+import { adjustPointsSchema, reverseLedgerEntrySchema } from '../validators/pointsValidators';
+import logger from '../utils/logger';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+// Reports dangling references without changing anything.
+router.get('/orphans', authenticateJWT, requireRole('admin'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const report = await cascadeService.cleanupOrphans({ dryRun: true });
+    res.json({ success: true, data: report });
+  } catch (error: any) {
+    logger.error('Error checking orphans:', error);
+    next(error);
+  }
+});
+
+router.post('/orphans/cleanup', authenticateJWT, requireRole('admin'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+    const report = await cascadeService.cleanupOrphans({ dryRun });
+    res.json({ success: true, data: report });
+  } catch (error: any) {
+    logger.error('Error cleaning up orphans:', error);
+    next(error);
+  }
+});
+
+// Rebuilds gamification profiles and adventure totals from the points ledger.
+router.post('/points/reconcile', authenticateJWT, requireRole('admin'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+    const report = await pointsLedgerService.reconcile({ dryRun, userId: req.body?.userId });
+    res.json({ success: true, data: report });
+  } catch (error: any) {
+    logger.error('Error reconciling points:', error);
+    next(error);
+  }
+});
+
+router.post('/points/adjustments', authenticateJWT, requireRole('admin'), validateBody(adjustPointsSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { userId, points, xp, account, description, idempotencyKey } = req.body;
+    const result = await pointsLedgerService.award({
+      userId,
+      points,
+      xp,
+      account,
+      description,
+      reason: 'manual_adjustment',
+      source: 'adjustment',
+      idempotencyKey: `adjustment:${idempotencyKey || `${userId}:${Date.now()}`}`
+    });
+    res.status(result.applied ? 201 : 200).json({ success: true, data: result });
+  } catch (error: any) {
+    logger.error('Error adjusting points:', error);
+    next(error);
+  }
+});
+
+router.post('/points/entries/:id/reverse', authenticateJWT, requireRole('admin'), validateBody(reverseLedgerEntrySchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const reversal = await pointsLedgerService.reverse(req.params.id, req.body.description);
+    res.json({ success: true, data: reversal });
+  } catch (error: any) {
+    logger.error('Error reversing ledger entry:', error);
+    next(error);
+  }
+});
+
+export default router;
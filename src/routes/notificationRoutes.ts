@@ -1,26 +1,43 @@
 import express, { Response } from 'express';
 import Notification from '../models/Notification';
 import logger from '../utils/logger';
+import { paginate, parsePageRequest } from '../utils/pagination';
 import { AuthenticatedRequest } from '../types';
 
 const router = express.Router();
 
+const UNREAD_STATUSES = ['pending', 'sent', 'delivered'];
+
 router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.user!.userId;
-    const limit = parseInt(req.query.limit as string) || 50;
     const unreadOnly = req.query.unreadOnly === 'true';
 
-    const notifications = await Notification.findForUser(userId, limit);
+    const filter: any = { userId };
+    if (unreadOnly) {
+      filter.status = { $in: UNREAD_STATUSES };
+    }
+
+    const page = await paginate(
+      Notification,
+      filter,
+      { field: 'createdAt', direction: -1 },
+      parsePageRequest(req.query),
+      (notifications: any) => notifications
+        .populate('data.adventureId', 'name status')
+        .populate('data.eventId', 'name startTime')
+        .populate('data.friendId', 'name profilePicture')
+    );
 
     res.json({
       success: true,
-      data: notifications
+      data: page.items,
+      pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore }
     });
 
   } catch (error: any) {
     logger.error('Failed to get notifications:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       message: error.message
     });
@@ -173,7 +190,7 @@ router.get('/unread/count', async (req: AuthenticatedRequest, res: Response) =>
 
     const count = await Notification.countDocuments({
       userId: userId,
-      status: { $in: ['pending', 'sent', 'delivered'] }
+      status: { $in: UNREAD_STATUSES }
     });
 
     res.json({
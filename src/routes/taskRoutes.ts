@@ -1,21 +1,134 @@
 import express, { Response, NextFunction } from 'express';
 import taskService from '../services/taskService';
+import taskDependencyService from '../services/taskDependencyService';
+import taskBulkService from '../services/taskBulkService';
+import taskTimerService, { TimerAction } from '../services/taskTimerService';
+import taskTemplateService from '../services/taskTemplateService';
+import taskTransferService, { TransferFormat } from '../services/taskTransferService';
+import taskHistoryService from '../services/taskHistoryService';
 import authenticateJWT from '../middleware/authenticateJWT';
+import { validateBody } from '../middleware/validate';
+import {
+  createTaskSchema,
+  updateTaskSchema,
+  completeTaskSchema,
+  instantiateTemplateSchema,
+  checklistItemSchema,
+  updateChecklistItemSchema
+} from '../validators/taskValidators';
 import logger from '../utils/logger';
+import { parsePageRequest } from '../utils/pagination';
 import { AuthenticatedRequest } from '../types';
 
 const router = express.Router();
 
 router.get('/', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const tasks = await taskService.getUserTasks(req.user!.id, req.query);
-    res.json({ success: true, data: tasks });
+    const filters = { ...req.query, ...parsePageRequest(req.query) };
+    const [page, facets] = await Promise.all([
+      taskService.getUserTasks(req.user!.id, filters),
+      taskService.getTaskFacets(req.user!.id, req.query)
+    ]);
+    res.json({
+      success: true,
+      data: page.items,
+      pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore },
+      facets
+    });
   } catch (error: any) {
     logger.error('Error fetching tasks:', error);
     next(error);
   }
 });
 
+router.post('/bulk', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { operations, atomic } = req.body;
+    const result = await taskBulkService.execute(req.user!.id, operations, atomic === true);
+
+    if (!result.committed) {
+      res.status(409).json({ success: false, message: 'Bulk operation rolled back', data: result });
+      return;
+    }
+    res.status(result.failed > 0 ? 207 : 200).json({ success: result.failed === 0, data: result });
+  } catch (error: any) {
+    logger.error('Error running bulk task operations:', error);
+    next(error);
+  }
+});
+
+router.post('/from-template/:templateId', authenticateJWT, validateBody(instantiateTemplateSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { variables, includeSubtasks, overrides } = req.body;
+    const result = await taskTemplateService.instantiate(req.params.templateId, req.user!.id, {
+      variables,
+      includeSubtasks,
+      overrides
+    });
+    res.status(201).json({ success: true, data: result });
+  } catch (error: any) {
+    logger.error('Error creating task from template:', error);
+    next(error);
+  }
+});
+
+const CONTENT_TYPES: Record<TransferFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  ics: 'text/calendar'
+};
+
+router.get('/export', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const format = ((req.query.format as string) || 'json') as TransferFormat;
+    const exported = await taskTransferService.exportTasks(req.user!.id, format);
+
+    if (format === 'json') {
+      res.json({ success: true, data: exported });
+      return;
+    }
+    res.setHeader('Content-Type', `${CONTENT_TYPES[format]}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename=tasks.${format}`);
+    res.send(exported);
+  } catch (error: any) {
+    logger.error('Error exporting tasks:', error);
+    next(error);
+  }
+});
+
+// CSV and iCalendar imports are accepted as raw text bodies.
+const textBody = express.text({ type: ['text/csv', 'text/calendar', 'text/plain'], limit: '10mb' });
+
+router.post('/import', authenticateJWT, textBody, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const raw = typeof req.body === 'string';
+    const contentType = req.headers['content-type'] || '';
+    const inferred: TransferFormat | undefined = contentType.includes('text/csv')
+      ? 'csv'
+      : contentType.includes('text/calendar') ? 'ics' : undefined;
+    const format = ((req.query.format as string) || (!raw && req.body?.format) || inferred || 'json') as TransferFormat;
+    const content = raw ? req.body : (req.body?.data ?? req.body?.tasks ?? req.body);
+    const dryRun = req.query.dryRun === 'true' || (!raw && req.body?.dryRun === true);
+
+    const report = await taskTransferService.importTasks(req.user!.id, format, content, { dryRun });
+    const status = dryRun || report.created === 0 ? 200 : 201;
+    res.status(status).json({ success: report.failed === 0, data: report });
+  } catch (error: any) {
+    logger.error('Error importing tasks:', error);
+    next(error);
+  }
+});
+
+router.get('/series/:seriesId', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const occurrences = await taskService.getSeriesOccurrences(req.params.seriesId, req.user!.id);
+    res.json({ success: true, data: occurrences });
+  } catch (error: any) {
+    logger.error('Error fetching task series:', error);
+    next(error);
+  }
+});
+
 router.get('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const task = await taskService.getTaskById(req.params.id, req.user!.id);
@@ -26,7 +139,76 @@ router.get('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Respo
   }
 });
 
-router.post('/', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.get('/:id/graph', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const graph = await taskDependencyService.getTaskGraph(req.params.id, req.user!.id);
+    res.json({ success: true, data: graph });
+  } catch (error: any) {
+    logger.error('Error fetching task graph:', error);
+    next(error);
+  }
+});
+
+router.get('/:id/history', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const page = await taskHistoryService.getHistory(req.params.id, req.user!.id, parsePageRequest(req.query));
+    res.json({
+      success: true,
+      data: page.items,
+      pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore }
+    });
+  } catch (error: any) {
+    logger.error('Error fetching task history:', error);
+    next(error);
+  }
+});
+
+router.post('/:id/revert/:changeId', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const task = await taskHistoryService.revert(req.params.id, req.user!.id, req.params.changeId);
+    res.json({ success: true, data: task });
+  } catch (error: any) {
+    logger.error('Error reverting task change:', error);
+    next(error);
+  }
+});
+
+router.get('/:id/subtasks', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const subtasks = await taskService.getSubtasks(req.params.id, req.user!.id);
+    res.json({ success: true, data: subtasks });
+  } catch (error: any) {
+    logger.error('Error fetching subtasks:', error);
+    next(error);
+  }
+});
+
+router.post('/:id/dependencies', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { blockerId } = req.body;
+    if (!blockerId) {
+      res.status(400).json({ success: false, message: 'Blocker task ID is required' });
+      return;
+    }
+    const task = await taskDependencyService.addDependency(req.params.id, blockerId, req.user!.id);
+    res.status(201).json({ success: true, data: task });
+  } catch (error: any) {
+    logger.error('Error adding task dependency:', error);
+    next(error);
+  }
+});
+
+router.delete('/:id/dependencies/:blockerId', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const task = await taskDependencyService.removeDependency(req.params.id, req.params.blockerId, req.user!.id);
+    res.json({ success: true, data: task });
+  } catch (error: any) {
+    logger.error('Error removing task dependency:', error);
+    next(error);
+  }
+});
+
+router.post('/', authenticateJWT, validateBody(createTaskSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const task = await taskService.createTask(req.user!.id, req.body);
     res.status(201).json({ success: true, data: task });
@@ -36,9 +218,10 @@ router.post('/', authenticateJWT, async (req: AuthenticatedRequest, res: Respons
   }
 });
 
-router.patch('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.patch('/:id', authenticateJWT, validateBody(updateTaskSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const task = await taskService.updateTask(req.params.id, req.user!.id, req.body);
+    const scope = req.query.scope === 'future' ? 'future' : 'this';
+    const task = await taskService.updateTask(req.params.id, req.user!.id, req.body, scope);
     res.json({ success: true, data: task });
   } catch (error: any) {
     logger.error('Error updating task:', error);
@@ -48,7 +231,8 @@ router.patch('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Res
 
 router.delete('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    await taskService.deleteTask(req.params.id, req.user!.id);
+    const scope = req.query.scope === 'future' ? 'future' : 'this';
+    await taskService.deleteTask(req.params.id, req.user!.id, scope);
     res.json({ success: true, message: 'Task deleted successfully' });
   } catch (error: any) {
     logger.error('Error deleting task:', error);
@@ -56,7 +240,7 @@ router.delete('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Re
   }
 });
 
-router.post('/:id/complete', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/:id/complete', authenticateJWT, validateBody(completeTaskSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const task = await taskService.completeTask(req.params.id, req.user!.id, req.body);
     res.json({ success: true, data: task });
@@ -66,5 +250,57 @@ router.post('/:id/complete', authenticateJWT, async (req: AuthenticatedRequest,
   }
 });
 
+router.post('/:id/checklist', authenticateJWT, validateBody(checklistItemSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const task = await taskService.addChecklistItem(req.params.id, req.user!.id, req.body.text);
+    res.status(201).json({ success: true, data: task });
+  } catch (error: any) {
+    logger.error('Error adding checklist item:', error);
+    next(error);
+  }
+});
+
+router.patch('/:id/checklist/:itemId', authenticateJWT, validateBody(updateChecklistItemSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { text, completed } = req.body;
+    const task = await taskService.updateChecklistItem(req.params.id, req.user!.id, req.params.itemId, { text, completed });
+    res.json({ success: true, data: task });
+  } catch (error: any) {
+    logger.error('Error updating checklist item:', error);
+    next(error);
+  }
+});
+
+router.delete('/:id/checklist/:itemId', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const task = await taskService.removeChecklistItem(req.params.id, req.user!.id, req.params.itemId);
+    res.json({ success: true, data: task });
+  } catch (error: any) {
+    logger.error('Error removing checklist item:', error);
+    next(error);
+  }
+});
+
+router.post('/:id/timer/:action', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const action = req.params.action as TimerAction;
+    if (!['start', 'pause', 'resume', 'stop'].includes(action)) {
+      res.status(400).json({ success: false, message: 'Timer action must be one of start, pause, resume, stop' });
+      return;
+    }
+    const task = await taskTimerService.applyAction(req.params.id, req.user!.id, action);
+    res.json({
+      success: true,
+      data: {
+        task,
+        trackedMinutes: taskTimerService.getTrackedMinutes(task)
+      }
+    });
+  } catch (error: any) {
+    logger.error('Error updating task timer:', error);
+    next(error);
+  }
+});
+
 export default router;
 
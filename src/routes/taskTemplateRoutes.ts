@@ -0,0 +1,61 @@
+import express, { Response, NextFunction } from 'express';
+import taskTemplateService from '../services/taskTemplateService';
+import authenticateJWT from '../middleware/authenticateJWT';
+import { validateBody } from '../middleware/validate';
+import { createTaskTemplateSchema, updateTaskTemplateSchema } from '../validators/taskValidators';
+import logger from '../utils/logger';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+router.get('/', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const templates = await taskTemplateService.getUserTemplates(req.user!.id);
+    res.json({ success: true, data: templates });
+  } catch (error: any) {
+    logger.error('Error fetching task templates:', error);
+    next(error);
+  }
+});
+
+router.get('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const template = await taskTemplateService.getTemplateById(req.params.id, req.user!.id);
+    res.json({ success: true, data: template });
+  } catch (error: any) {
+    logger.error('Error fetching task template:', error);
+    next(error);
+  }
+});
+
+router.post('/', authenticateJWT, validateBody(createTaskTemplateSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const template = await taskTemplateService.createTemplate(req.user!.id, req.body);
+    res.status(201).json({ success: true, data: template });
+  } catch (error: any) {
+    logger.error('Error creating task template:', error);
+    next(error);
+  }
+});
+
+router.patch('/:id', authenticateJWT, validateBody(updateTaskTemplateSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const template = await taskTemplateService.updateTemplate(req.params.id, req.user!.id, req.body);
+    res.json({ success: true, data: template });
+  } catch (error: any) {
+    logger.error('Error updating task template:', error);
+    next(error);
+  }
+});
+
+router.delete('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await taskTemplateService.deleteTemplate(req.params.id, req.user!.id);
+    res.json({ success: true, message: 'Task template deleted successfully' });
+  } catch (error: any) {
+    logger.error('Error deleting task template:', error);
+    next(error);
+  }
+});
+
+export default router;
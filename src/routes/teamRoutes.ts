@@ -0,0 +1,86 @@
+import express, { Response, NextFunction } from 'express';
+import teamService from '../services/teamService';
+import gamificationService from '../services/gamificationService';
+import leaderboardService from '../services/leaderboardService';
+import authenticateJWT from '../middleware/authenticateJWT';
+import { validateBody } from '../middleware/validate';
+import { createTeamSchema, addTeamMemberSchema } from '../validators/teamValidators';
+import logger from '../utils/logger';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+router.get('/', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const teams = await teamService.getUserTeams(req.user!.id!);
+    res.json({ success: true, data: teams });
+  } catch (error: any) {
+    logger.error('Error fetching teams:', error);
+    next(error);
+  }
+});
+
+router.post('/', authenticateJWT, validateBody(createTeamSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const team = await teamService.createTeam(req.user!.id!, req.body);
+    res.status(201).json({ success: true, data: team });
+  } catch (error: any) {
+    logger.error('Error creating team:', error);
+    next(error);
+  }
+});
+
+router.get('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const team = await teamService.getTeam(req.params.id, req.user!.id!);
+    res.json({ success: true, data: team });
+  } catch (error: any) {
+    logger.error('Error fetching team:', error);
+    next(error);
+  }
+});
+
+router.delete('/:id', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await teamService.deleteTeam(req.params.id, req.user!.id!);
+    res.json({ success: true, message: 'Team deleted successfully' });
+  } catch (error: any) {
+    logger.error('Error deleting team:', error);
+    next(error);
+  }
+});
+
+router.post('/:id/members', authenticateJWT, validateBody(addTeamMemberSchema), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const team = await teamService.addMember(req.params.id, req.user!.id!, req.body.userId);
+    res.json({ success: true, data: team });
+  } catch (error: any) {
+    logger.error('Error adding team member:', error);
+    next(error);
+  }
+});
+
+router.delete('/:id/members/:userId', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const team = await teamService.removeMember(req.params.id, req.user!.id!, req.params.userId);
+    res.json({ success: true, data: team });
+  } catch (error: any) {
+    logger.error('Error removing team member:', error);
+    next(error);
+  }
+});
+
+router.get('/:id/leaderboard', authenticateJWT, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 100;
+    const period = (req.query.period as string) || 'all';
+    const options = leaderboardService.parseScope('team', req.params.id);
+    const board = await gamificationService.getScopedLeaderboard(req.user!.id!, options, limit, period);
+    res.json({ success: true, data: board.entries, currentUser: board.currentUser, total: board.total });
+  } catch (error: any) {
+    logger.error('Error fetching team leaderboard:', error);
+    next(error);
+  }
+});
+
+export default router;
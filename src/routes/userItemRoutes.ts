@@ -86,12 +86,14 @@ router.get('/', auditItemOperation('list'), async (req: AuthenticatedRequest, re
       sort = 'createdAt',
       order = 'desc',
       limit = '50',
-      page = '1'
+      page = '1',
+      cursor
     } = req.query;
 
     const options: any = {
       category,
       status,
+      cursor,
       limit: parseInt(limit as string),
       skip: (parseInt(page as string) - 1) * parseInt(limit as string),
       sort: { [sort as string]: order === 'desc' ? -1 : 1 }
@@ -113,11 +115,13 @@ router.get('/', auditItemOperation('list'), async (req: AuthenticatedRequest, re
 
     res.json({
       success: true,
-      data: items,
+      data: items.items,
       pagination: {
         page: parseInt(page as string),
         limit: parseInt(limit as string),
-        total: items.length
+        total: items.items.length,
+        nextCursor: items.nextCursor,
+        hasMore: items.hasMore
       }
     });
 
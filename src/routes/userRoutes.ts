@@ -1,6 +1,7 @@
 import express, { Response } from 'express';
 import Joi from 'joi';
 import userService from '../services/userService';
+import leaderboardService from '../services/leaderboardService';
 import logger from '../utils/logger';
 import { AuthenticatedRequest } from '../types';
 
@@ -365,16 +366,28 @@ router.get('/leaderboard', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const timeRange = (req.query.timeRange as string) || '30d';
     const limit = parseInt(req.query.limit as string) || 50;
-    const leaderboard = await userService.getUserLeaderboard(timeRange, limit);
-
-    res.json({
-      success: true,
-      data: leaderboard
-    });
+    const scope = (req.query.scope as string) || 'global';
+
+    if (scope !== 'global') {
+      const options = leaderboardService.parseScope(scope, req.query.teamId as string, req.query.userIds as string);
+      const board = await userService.getScopedUserLeaderboard(req.user!.userId!, options, timeRange, limit);
+      res.json({
+        success: true,
+        data: board.entries,
+        currentUser: board.currentUser,
+        total: board.total
+      });
+    } else {
+      const leaderboard = await userService.getUserLeaderboard(timeRange, limit);
+      res.json({
+        success: true,
+        data: leaderboard
+      });
+    }
 
   } catch (error: any) {
     logger.error('Failed to get leaderboard:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       message: error.message
     });
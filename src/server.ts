@@ -25,6 +25,9 @@ import eventService from './services/eventService';
 import notificationService from './services/notificationService';
 import aiOrchestrator from './services/aiOrchestrator';
 import cacheService from './services/cacheService';
+import schedulerService from './services/schedulerService';
+import duelService from './services/duelService';
+import { registerChallengeProviders } from './services/challengeProviders';
 
 // Import routes
 import authRoutes from './routes/authRoutes';
@@ -37,13 +40,19 @@ import notificationRoutes from './routes/notificationRoutes';
 import externalRoutes from './routes/externalRoutes';
 import logsRoutes from './routes/logsRoutes';
 import taskRoutes from './routes/taskRoutes';
+import taskTemplateRoutes from './routes/taskTemplateRoutes';
 import challengeRoutes from './routes/challengeRoutes';
+import challengeCatalogRoutes from './routes/challengeCatalogRoutes';
+import teamRoutes from './routes/teamRoutes';
+import duelRoutes from './routes/duelRoutes';
 import gamificationRoutes from './routes/gamificationRoutes';
 import analyticsRoutes from './routes/analyticsRoutes';
 import integrationRoutes from './routes/integrationRoutes';
+import maintenanceRoutes from './routes/maintenanceRoutes';
 
 // Import middleware
 import authenticateJWT from './middleware/authenticateJWT';
+import authenticateSocket from './middleware/authenticateSocket';
 import { errorHandler, notFoundHandler, gracefulShutdown } from './middleware/errorHandler';
 import logger from './utils/logger';
 import ipFilter from './middleware/ipFilter';
@@ -217,6 +226,12 @@ mongoose.connect(mongoUri)
 // Initialize services
 cacheService.initialize();
 aiOrchestrator.initialize();
+registerChallengeProviders();
+schedulerService.initialize();
+
+// Services emit to user and duel rooms through the global instance
+(global as any).io = io;
+io.use(authenticateSocket);
 
 // Socket.IO connection handling
 io.on('connection', (socket: CustomSocket) => {
@@ -229,10 +244,16 @@ io.on('connection', (socket: CustomSocket) => {
     serverStatus: 'connected'
   });
   
-  socket.on('join_user_room', (userId: string) => {
-    socket.join(`user_${userId}`);
-    logger.info(`User ${userId} joined their room`);
-    socket.emit('room_joined', { room: `user_${userId}`, type: 'user' });
+  // User rooms carry private events (duel invites and results), so a socket
+  // may only join the room of the user it authenticated as.
+  socket.on('join_user_room', (userId?: string) => {
+    if (!socket.userId || (userId && String(userId) !== String(socket.userId))) {
+      socket.emit('room_error', { type: 'user', message: socket.userId ? 'You can only join your own room' : 'Authentication required' });
+      return;
+    }
+    socket.join(`user_${socket.userId}`);
+    logger.info(`User ${socket.userId} joined their room`);
+    socket.emit('room_joined', { room: `user_${socket.userId}`, type: 'user' });
   });
   
   socket.on('join_adventure_room', (adventureId: string) => {
@@ -268,50 +289,43 @@ io.on('connection', (socket: CustomSocket) => {
     socket.to(`collaboration_${roomId}`).emit('collaboration:state', update);
   });
 
-  // Duel Handlers
-  socket.on('duel:challenge', (data: { targetUserId: string; challengeConfig?: any; fromUserName?: string }) => {
-    const { targetUserId, challengeConfig } = data;
-    socket.to(`user_${targetUserId}`).emit('duel:invite', {
-      id: `duel_${Date.now()}_${socket.id}`,
-      fromUserId: socket.userId || socket.id,
-      fromUserName: data.fromUserName || 'Unknown',
-      challengeConfig,
-      timestamp: Date.now()
+  // Duel Handlers: state is persisted and timed by duelService; these only
+  // relay client actions for the authenticated user.
+  const onDuel = (event: string, handler: (data: any) => Promise<any>) => {
+    socket.on(event, async (data: any = {}) => {
+      if (!socket.userId) {
+        socket.emit('duel:error', { event, duelId: data.duelId, message: 'Authentication required' });
+        return;
+      }
+      try {
+        await handler(data);
+      } catch (error: any) {
+        socket.emit('duel:error', { event, duelId: data.duelId, message: error.message });
+      }
     });
-    logger.info(`Duel challenge sent from ${socket.id} to ${targetUserId}`);
+  };
+
+  onDuel('duel:challenge', async (data: { targetUserId: string; challengeConfig?: { challengeType?: string; duration?: number; title?: string; challengeId?: string } }) => {
+    const duel = await duelService.createDuel(socket.userId!, data.targetUserId, data.challengeConfig || {});
+    socket.emit('duel:created', duelService.toState(duel));
   });
 
-  socket.on('duel:accept', (data: { duelId: string; opponentUserId: string; challengeConfig?: { challengeType?: string; duration?: number } }) => {
-    const { duelId } = data;
-    // Create duel session
-    const duelState = {
-      id: duelId,
-      participants: [
-        { userId: socket.userId || socket.id, progress: 0 },
-        { userId: data.opponentUserId, progress: 0 }
-      ],
-      challengeName: data.challengeConfig?.challengeType || 'Duel',
-      startTime: Date.now(),
-      endTime: Date.now() + (data.challengeConfig?.duration || 15 * 60 * 1000)
-    };
-    
-    socket.emit('duel:start', duelState);
-    socket.to(`user_${data.opponentUserId}`).emit('duel:start', duelState);
-    logger.info(`Duel ${duelId} started`);
+  onDuel('duel:accept', async (data: { duelId: string }) => {
+    await duelService.acceptDuel(data.duelId, socket.userId!);
   });
 
-  socket.on('duel:reject', (data: { duelId: string; fromUserId: string }) => {
-    const { duelId } = data;
-    socket.to(`user_${data.fromUserId}`).emit('duel:rejected', { duelId });
+  onDuel('duel:reject', async (data: { duelId: string }) => {
+    await duelService.rejectDuel(data.duelId, socket.userId!);
   });
 
-  socket.on('duel:progress', (data: { duelId: string; progress: number }) => {
-    const { duelId, progress } = data;
-    socket.to(`duel_${duelId}`).emit('duel:update', {
-      duelId,
-      userId: socket.userId || socket.id,
-      progress
-    });
+  onDuel('duel:join', async (data: { duelId: string }) => {
+    const duel = await duelService.getDuel(data.duelId, socket.userId!);
+    socket.join(`duel_${duel._id}`);
+    socket.emit('duel:state', duelService.toState(duel));
+  });
+
+  onDuel('duel:progress', async (data: { duelId: string; progress: number }) => {
+    await duelService.updateProgress(data.duelId, socket.userId!, data.progress);
   });
 
   // Team/Guild Handlers
@@ -396,10 +410,15 @@ app.use('/api/external', externalRoutes);
 app.use('/api/agent', authenticateJWT, agentRoutes);
 app.use('/api/logs', logsRoutes);
 app.use('/api/tasks', authenticateJWT, taskRoutes);
+app.use('/api/task-templates', authenticateJWT, taskTemplateRoutes);
 app.use('/api/challenges', authenticateJWT, challengeRoutes);
+app.use('/api/challenge-catalog', authenticateJWT, challengeCatalogRoutes);
+app.use('/api/duels', authenticateJWT, duelRoutes);
 app.use('/api/gamification', authenticateJWT, gamificationRoutes);
+app.use('/api/teams', authenticateJWT, teamRoutes);
 app.use('/api/analytics', authenticateJWT, analyticsRoutes);
 app.use('/api/integrations', authenticateJWT, integrationRoutes);
+app.use('/api/maintenance', authenticateJWT, maintenanceRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req: Request, res: Response) => {
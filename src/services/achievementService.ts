@@ -0,0 +1,280 @@
+import Badge, { IBadge } from '../models/Badge';
+import Gamification, { IGamification } from '../models/Gamification';
+import AchievementEvent, { AchievementEventType } from '../models/AchievementEvent';
+import notificationService from './notificationService';
+import pointsLedgerService from './pointsLedgerService';
+import logger from '../utils/logger';
+import { AchievementRule, compare, eventTypesOf, ruleForCriteria, usesStats, whereFilter } from '../utils/achievementRules';
+
+interface Evaluation {
+  met: boolean;
+  /** 0-100. */
+  progress: number;
+}
+
+export interface AchievementStatus {
+  badgeId: string;
+  name: string;
+  icon: string;
+  description: string;
+  category: string;
+  rarity: string;
+  pointsReward: number;
+  progress: number;
+  earned: boolean;
+  unlockedAt?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Badges change rarely; edits are picked up within a minute.
+const BADGE_CACHE_MS = 60 * 1000;
+// How many rounds of "this badge's reward unlocks that badge" are followed.
+const MAX_UNLOCK_CHAIN = 3;
+
+let badgeCache: { badges: IBadge[]; loadedAt: number } | null = null;
+
+const emit = (userId: string, event: string, payload: any): void => {
+  if ((global as any).io) {
+    (global as any).io.to(`user_${userId}`).emit(event, payload);
+  }
+};
+
+const statValue = (profile: IGamification, path: string): number => {
+  if (path === 'badgeCount') {
+    return profile.badges.length;
+  }
+  const value = path.split('.').reduce((node: any, key: string) => node?.[key], profile);
+  return typeof value === 'number' ? value : 0;
+};
+
+const achievementService = {
+  async getActiveBadges(): Promise<IBadge[]> {
+    if (!badgeCache || Date.now() - badgeCache.loadedAt > BADGE_CACHE_MS) {
+      badgeCache = { badges: await Badge.find({ isActive: true }), loadedAt: Date.now() };
+    }
+    return badgeCache.badges;
+  },
+
+  clearCache(): void {
+    badgeCache = null;
+  },
+
+  /**
+   * Records a domain event and evaluates the badges it could affect. Called
+   * after the event's points and stats have been applied, so stat rules see
+   * the new values. Never throws: achievements must not break the action
+   * that triggered them.
+   */
+  async handleEvent(userId: string, type: AchievementEventType, data: Record<string, any> = {}, occurredAt: Date = new Date()): Promise<IBadge[]> {
+    try {
+      await AchievementEvent.create({
+        userId,
+        type,
+        data: { ...data, hourUtc: occurredAt.getUTCHours(), weekdayUtc: occurredAt.getUTCDay() },
+        occurredAt
+      });
+      return await this.evaluateUser(userId, type);
+    } catch (error: any) {
+      logger.error('Error handling achievement event:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Evaluates the user's unearned badges, stores their progress and unlocks
+   * those whose rule is met. With `eventType`, only badges whose rule counts
+   * that event or looks at stats are evaluated. Unlocks pay out points, so
+   * stat rules are evaluated again afterwards; `depth` bounds that chain.
+   */
+  async evaluateUser(userId: string, eventType?: AchievementEventType, depth: number = 0): Promise<IBadge[]> {
+    try {
+      const profile = await Gamification.findOne({ userId });
+      if (!profile) {
+        return [];
+      }
+
+      const earned = new Set(profile.badges.map((badge: any) => String(badge.badgeId)));
+      const unlocked: IBadge[] = [];
+      const now = new Date();
+
+      for (const badge of await this.getActiveBadges()) {
+        if (earned.has(String(badge._id))) continue;
+
+        const rule = ruleForCriteria(badge.criteria);
+        if (!rule) continue;
+        if (depth > 0 && !usesStats(rule)) continue;
+        if (eventType && !eventTypesOf(rule).has(eventType) && !usesStats(rule)) continue;
+
+        const evaluation = await this.evaluateRule(rule, profile, now);
+        if (evaluation.met) {
+          if (await this.unlock(userId, badge)) {
+            unlocked.push(badge);
+          }
+        } else {
+          await this.saveProgress(profile, badge, evaluation.progress);
+        }
+      }
+
+      if (unlocked.length > 0 && depth < MAX_UNLOCK_CHAIN) {
+        unlocked.push(...await this.evaluateUser(userId, undefined, depth + 1));
+      }
+
+      return unlocked;
+    } catch (error: any) {
+      logger.error('Error evaluating achievements:', error);
+      throw error;
+    }
+  },
+
+  async evaluateRule(rule: AchievementRule, profile: IGamification, now: Date): Promise<Evaluation> {
+    if ('all' in rule || 'any' in rule) {
+      const children = 'all' in rule ? rule.all : rule.any;
+      const results: Evaluation[] = [];
+      for (const child of children) {
+        results.push(await this.evaluateRule(child, profile, now));
+      }
+      const progress = 'all' in rule
+        ? results.reduce((sum: number, result: Evaluation) => sum + result.progress, 0) / results.length
+        : Math.max(...results.map((result: Evaluation) => result.progress));
+      const met = 'all' in rule ? results.every((result: Evaluation) => result.met) : results.some((result: Evaluation) => result.met);
+      return { met, progress: met ? 100 : Math.min(99, progress) };
+    }
+
+    if ('stat' in rule) {
+      const actual = statValue(profile, rule.stat);
+      const op = rule.op || 'gte';
+      const met = compare(actual, op, rule.value);
+      // Only "at least" rules have a meaningful distance to go.
+      const progress = (op === 'gte' || op === 'gt') && rule.value > 0 ? (actual / rule.value) * 100 : 0;
+      return { met, progress: met ? 100 : Math.min(99, Math.max(0, progress)) };
+    }
+
+    const target = rule.count || 1;
+    const count = await AchievementEvent.countDocuments({
+      userId: profile.userId,
+      type: rule.event,
+      occurredAt: { $gte: new Date(now.getTime() - (rule.withinDays || 0) * DAY_MS) },
+      ...whereFilter(rule.where)
+    });
+    const met = count >= target;
+    return { met, progress: met ? 100 : Math.min(99, (count / target) * 100) };
+  },
+
+  /**
+   * Writes progress into `achievements`, one entry per badge. Skipped when
+   * the stored value is unchanged.
+   */
+  async saveProgress(profile: IGamification, badge: IBadge, progress: number, unlockedAt?: Date): Promise<void> {
+    const achievementId = String(badge._id);
+    const rounded = Math.floor(progress);
+    const current = profile.achievements.find((achievement: any) => achievement.achievementId === achievementId);
+    if (current && current.progress === rounded && !unlockedAt) {
+      return;
+    }
+
+    const set: any = {
+      'achievements.$.progress': rounded,
+      'achievements.$.achievementName': badge.name,
+      updatedAt: new Date()
+    };
+    if (unlockedAt) {
+      set['achievements.$.unlockedAt'] = unlockedAt;
+    }
+
+    const result = await Gamification.updateOne(
+      { _id: profile._id, 'achievements.achievementId': achievementId },
+      { $set: set }
+    );
+    if (result.matchedCount === 0) {
+      await Gamification.updateOne(
+        { _id: profile._id, 'achievements.achievementId': { $ne: achievementId } },
+        {
+          $push: { achievements: { achievementId, achievementName: badge.name, progress: rounded, unlockedAt } },
+          $set: { updatedAt: new Date() }
+        }
+      );
+    }
+  },
+
+  /**
+   * Gives the user a badge and its points reward. Returns false if they
+   * already had it; concurrent unlocks of the same badge award it once.
+   * The reward is posted first under an idempotent key, so an unlock that
+   * fails part-way is completed by the next evaluation rather than leaving
+   * a badge without its points.
+   */
+  async unlock(userId: string, badge: IBadge): Promise<boolean> {
+    try {
+      await pointsLedgerService.award({
+        userId,
+        points: badge.pointsReward,
+        reason: 'badge_earned',
+        source: 'badge',
+        sourceId: String(badge._id),
+        description: badge.name,
+        idempotencyKey: `badge:${badge._id}:${userId}`
+      });
+
+      const earnedAt = new Date();
+      const result = await Gamification.updateOne(
+        { userId, 'badges.badgeId': { $ne: badge._id } },
+        {
+          $push: { badges: { badgeId: badge._id, badgeName: badge.name, badgeIcon: badge.icon, earnedAt } },
+          $set: { updatedAt: earnedAt }
+        }
+      );
+      if (result.modifiedCount === 0) {
+        return false;
+      }
+
+      const profile = await Gamification.findOne({ userId });
+      if (profile) {
+        await this.saveProgress(profile, badge, 100, earnedAt);
+      }
+
+      emit(String(userId), 'achievement:unlocked', {
+        badgeId: badge._id,
+        name: badge.name,
+        icon: badge.icon,
+        rarity: badge.rarity,
+        points: badge.pointsReward
+      });
+      await notificationService.sendBadgeEarnedNotification(String(userId), badge.name);
+
+      logger.info(`Badge awarded: ${badge.name} to user: ${userId}`);
+      return true;
+    } catch (error: any) {
+      logger.error('Error unlocking badge:', error);
+      throw error;
+    }
+  },
+
+  async getAchievements(userId: string): Promise<AchievementStatus[]> {
+    try {
+      const profile = await Gamification.findOne({ userId });
+      const earned = new Map((profile?.badges || []).map((badge: any) => [String(badge.badgeId), badge.earnedAt]));
+      const progress = new Map((profile?.achievements || []).map((achievement: any) => [achievement.achievementId, achievement.progress]));
+
+      return (await this.getActiveBadges()).map((badge: IBadge) => {
+        const badgeId = String(badge._id);
+        return {
+          badgeId,
+          name: badge.name,
+          icon: badge.icon,
+          description: badge.description,
+          category: badge.category,
+          rarity: badge.rarity,
+          pointsReward: badge.pointsReward,
+          progress: earned.has(badgeId) ? 100 : progress.get(badgeId) || 0,
+          earned: earned.has(badgeId),
+          unlockedAt: earned.get(badgeId)
+        };
+      });
+    } catch (error: any) {
+      logger.error('Error fetching achievements:', error);
+      throw error;
+    }
+  }
+};
+
+export default achievementService;
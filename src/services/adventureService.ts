@@ -5,7 +5,10 @@ import Notification from '../models/Notification';
 import aiOrchestrator from './aiOrchestrator';
 import externalApiService from './externalApiService';
 import cacheService from './cacheService';
+import pointsLedgerService from './pointsLedgerService';
+import achievementService from './achievementService';
 import logger from '../utils/logger';
+import { paginate, Page, PageRequest } from '../utils/pagination';
 import mongoose from 'mongoose';
 
 interface AdventureRequestData {
@@ -183,20 +186,20 @@ class AdventureService {
     }
   }
 
-  async getUserAdventures(userId: string, status: string | null = null, limit: number = 20, offset: number = 0): Promise<IAdventure[]> {
+  async getUserAdventures(userId: string, status: string | null = null, page: PageRequest = {}): Promise<Page<IAdventure>> {
     try {
       const query: any = { userId: userId };
       if (status) {
         query.status = status;
       }
 
-      const adventures = await Adventure.find(query)
-        .sort({ 'metadata.generatedAt': -1 })
-        .limit(limit)
-        .skip(offset)
-        .populate('userId', 'name profilePicture');
-
-      return adventures;
+      return await paginate<IAdventure>(
+        Adventure,
+        query,
+        { field: 'metadata.generatedAt', direction: -1 },
+        { limit: 20, ...page },
+        (adventures: any) => adventures.populate('userId', 'name profilePicture')
+      );
     } catch (error: any) {
       logger.error('Failed to get user adventures:', error);
       throw new Error(`Failed to get user adventures: ${error.message}`);
@@ -276,6 +279,23 @@ class AdventureService {
       const user = await User.findById(userId);
       if (user) {
         await user.updateStats(adventure);
+        const { applied } = await pointsLedgerService.award({
+          userId,
+          account: 'adventure',
+          points: adventure.gamification.points || 10,
+          reason: 'adventure_completed',
+          source: 'adventure',
+          sourceId: String(adventure._id),
+          description: adventure.name,
+          idempotencyKey: `adventure:${adventure._id}:completed`
+        });
+        if (applied) {
+          await achievementService.handleEvent(userId, 'adventure.completed', {
+            adventureId: String(adventure._id),
+            rating: adventure.feedback?.rating || 0,
+            steps: adventure.steps.length
+          }, adventure.metadata.completedAt);
+        }
       }
 
       if ((global as any).io) {
@@ -29,6 +29,18 @@ interface Constraints {
   endTime: Date;
 }
 
+interface ChallengeTask {
+  title: string;
+  description?: string;
+  type?: string;
+  estimatedDuration?: number;
+}
+
+interface ChallengeTarget {
+  difficulty: string;
+  difficultyScore: number;
+}
+
 class AIOrchestrator {
   private openai: OpenAI | null = null;
   private isInitialized: boolean = false;
@@ -448,6 +460,76 @@ Generate variations with different themes (e.g., "Food Focus", "Social Focus", "
       throw new Error(`AI adventure variations failed: ${error.message}`);
     }
   }
+
+  async generateChallenge(task: ChallengeTask, target?: ChallengeTarget): Promise<any> {
+    if (!this.isInitialized) {
+      throw new Error('AI Orchestrator not initialized');
+    }
+
+    try {
+      const startTime = Date.now();
+      const prompt = `
+Create one gamified productivity challenge for the following task:
+
+TASK:
+- Title: ${task.title}
+- Description: ${task.description || 'N/A'}
+- Type: ${task.type || 'manual'}
+- Estimated duration: ${task.estimatedDuration || 30} minutes
+
+DIFFICULTY:
+- Level: ${target?.difficulty || 'medium'}
+- Score (1-10): ${target?.difficultyScore || 5}
+
+Respond in JSON format. "type" must be one of quiz, puzzle, coding_challenge, timed_completion, streak, custom.
+Quiz questions need "question", "options" and "correctAnswer"; coding test cases are JSON strings like
+"{\\"input\\": [1, 2], \\"expected\\": 3}" calling a function named solution.
+{
+  "type": "timed_completion",
+  "title": "Beat the clock",
+  "description": "Finish the task in 25 minutes",
+  "configuration": {
+    "timeLimit": 25,
+    "attempts": 1,
+    "hints": ["Break the task into three steps first"],
+    "questions": [],
+    "testCases": []
+  },
+  "pointsReward": 100
+}
+`;
+
+      const response = await this.openai!.chat.completions.create({
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a productivity coach. Design short, motivating challenges that match the requested difficulty.'
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        max_tokens: 1000,
+        temperature: this.temperature,
+        response_format: { type: "json_object" }
+      });
+
+      const challenge = JSON.parse(response.choices[0].message.content || '{}');
+      return {
+        ...challenge,
+        difficulty: target?.difficulty,
+        difficultyScore: target?.difficultyScore,
+        model: this.model,
+        prompt,
+        generationTime: Date.now() - startTime
+      };
+    } catch (error: any) {
+      logger.error('Challenge generation failed:', error);
+      throw new Error(`AI challenge generation failed: ${error.message}`);
+    }
+  }
 }
 
 export default new AIOrchestrator();
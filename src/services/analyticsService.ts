@@ -1,8 +1,78 @@
+import mongoose from 'mongoose';
 import Analytics, { IAnalytics } from '../models/Analytics';
 import Task from '../models/Task';
 import Challenge from '../models/Challenge';
 import Gamification from '../models/Gamification';
+import taskTimerService from './taskTimerService';
 import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+
+export type StatsRange = 'day' | 'week' | 'month' | 'quarter' | 'year' | 'all';
+
+const RANGE_DAYS: Record<Exclude<StatsRange, 'all'>, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const round = (value: number | null | undefined, digits: number = 2): number | null =>
+  value === null || value === undefined ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Per-group accumulators for challenge performance. Averages only consider
+// challenges that have the value, so open challenges do not drag them down.
+const CHALLENGE_STATS_GROUP = {
+  total: { $sum: 1 },
+  completed: { $sum: { $cond: ['$isCompleted', 1, 0] } },
+  failed: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
+  expired: { $sum: { $cond: [{ $eq: ['$status', 'expired'] }, 1, 0] } },
+  open: { $sum: { $cond: [{ $in: ['$status', ['pending', 'active']] }, 1, 0] } },
+  averageScore: { $avg: { $cond: ['$isCompleted', '$score', null] } },
+  averageAccuracy: { $avg: { $cond: ['$isCompleted', '$accuracy', null] } },
+  averageMinutes: { $avg: '$minutesTaken' },
+  averageTimeLimit: { $avg: '$timeLimit' },
+  averageTimeUsed: { $avg: '$timeUsed' },
+  withinTimeLimit: { $sum: { $cond: [{ $and: [{ $ne: ['$timeUsed', null] }, { $lte: ['$timeUsed', 1] }] }, 1, 0] } },
+  timed: { $sum: { $cond: [{ $ne: ['$timeUsed', null] }, 1, 0] } },
+  hintsRevealed: { $sum: '$hintsRevealed' },
+  hintsAvailable: { $sum: '$hintCount' },
+  usedHints: { $sum: { $cond: [{ $gt: ['$hintsRevealed', 0] }, 1, 0] } }
+};
+
+// Adaptive challenges are stored as 'adaptive'; they are grouped under the
+// level their score resolved to, using the same bands as skillRatingService.
+const RESOLVED_DIFFICULTY = {
+  $cond: [
+    { $eq: ['$difficulty', 'adaptive'] },
+    {
+      $switch: {
+        branches: [
+          { case: { $lte: [{ $ifNull: ['$difficultyScore', 5] }, 3] }, then: 'easy' },
+          { case: { $lte: [{ $ifNull: ['$difficultyScore', 5] }, 7] }, then: 'medium' }
+        ],
+        default: 'hard'
+      }
+    },
+    '$difficulty'
+  ]
+};
+
+const addHourBuckets = (current: number[] | undefined, minutes: number[]): number[] => {
+  const buckets = current && current.length === 24 ? [...current] : new Array(24).fill(0);
+  minutes.forEach((value: number, hour: number) => {
+    buckets[hour] += value;
+  });
+  return buckets;
+};
+
+const peakHour = (buckets: number[]): number | undefined => {
+  const max = Math.max(...buckets);
+  return max > 0 ? buckets.indexOf(max) : undefined;
+};
 
 const analyticsService = {
   async recordTaskCompletion(userId: string, task: any): Promise<IAnalytics> {
@@ -38,9 +108,18 @@ const analyticsService = {
         (analytics.metrics.tasksByType as any)[taskType] += 1;
       }
 
-      const hour = new Date().getHours();
-      if (!analytics.metrics.peakProductivityHour) {
-        analytics.metrics.peakProductivityHour = hour;
+      if (task.completionData?.durationSource === 'tracked') {
+        // Server-tracked intervals tell us when the work actually happened.
+        analytics.metrics.minutesByHour = addHourBuckets(
+          analytics.metrics.minutesByHour,
+          taskTimerService.getMinutesByHour(task)
+        );
+        const trackedPeak = peakHour(analytics.metrics.minutesByHour);
+        if (trackedPeak !== undefined) {
+          analytics.metrics.peakProductivityHour = trackedPeak;
+        }
+      } else if (analytics.metrics.peakProductivityHour === undefined) {
+        analytics.metrics.peakProductivityHour = new Date().getHours();
       }
 
       await analytics.save();
@@ -176,6 +255,136 @@ const analyticsService = {
     }
   },
 
+  resolveRange(range: string = 'month', from?: string, to?: string): { start: Date | null; end: Date } {
+    const end = to ? new Date(to) : new Date();
+    if (Number.isNaN(end.getTime())) {
+      throw createHttpError(400, 'Invalid "to" date');
+    }
+
+    if (from) {
+      const start = new Date(from);
+      if (Number.isNaN(start.getTime()) || start > end) {
+        throw createHttpError(400, 'Invalid "from" date');
+      }
+      return { start, end };
+    }
+
+    if (range === 'all') {
+      return { start: null, end };
+    }
+    const days = RANGE_DAYS[range as keyof typeof RANGE_DAYS];
+    if (!days) {
+      throw createHttpError(400, `Unknown range "${range}"`, [
+        { field: 'range', message: `range must be one of ${Object.keys(RANGE_DAYS).join(', ')}, all`, type: 'any.only' }
+      ]);
+    }
+    return { start: new Date(end.getTime() - days * DAY_MS), end };
+  },
+
+  formatChallengeStats(group: any): any {
+    const finished = group.completed + group.failed + group.expired;
+    return {
+      total: group.total,
+      completed: group.completed,
+      failed: group.failed,
+      expired: group.expired,
+      open: group.open,
+      completionRate: round(group.total > 0 ? group.completed / group.total : 0, 4),
+      successRate: round(finished > 0 ? group.completed / finished : null, 4),
+      averageScore: round(group.averageScore),
+      averageAccuracy: round(group.averageAccuracy),
+      time: {
+        averageMinutes: round(group.averageMinutes),
+        averageTimeLimit: round(group.averageTimeLimit),
+        averageShareOfLimit: round(group.averageTimeUsed, 4),
+        withinTimeLimitRate: round(group.timed > 0 ? group.withinTimeLimit / group.timed : null, 4)
+      },
+      hints: {
+        revealed: group.hintsRevealed,
+        available: group.hintsAvailable,
+        averagePerChallenge: round(group.total > 0 ? group.hintsRevealed / group.total : 0),
+        challengesWithHintsRate: round(group.total > 0 ? group.usedHints / group.total : 0, 4)
+      }
+    };
+  },
+
+  /**
+   * Challenge performance for challenges created in the range, overall and
+   * broken down by type, difficulty and both. Time is measured from start to
+   * completion and compared with the challenge's time limit (minutes).
+   */
+  async getChallengeStats(userId: string, range: string = 'month', from?: string, to?: string): Promise<any> {
+    try {
+      const { start, end } = this.resolveRange(range, from, to);
+      const match: any = {
+        userId: new mongoose.Types.ObjectId(userId),
+        createdAt: start ? { $gte: start, $lte: end } : { $lte: end }
+      };
+
+      const [result] = await Challenge.aggregate([
+        { $match: match },
+        {
+          $project: {
+            type: 1,
+            difficulty: RESOLVED_DIFFICULTY,
+            status: 1,
+            isCompleted: { $eq: ['$status', 'completed'] },
+            score: '$completionData.score',
+            accuracy: '$completionData.accuracy',
+            timeLimit: { $ifNull: ['$configuration.timeLimit', null] },
+            hintsRevealed: { $ifNull: ['$hintsRevealed', 0] },
+            hintCount: { $size: { $ifNull: ['$configuration.hints', []] } },
+            minutesTaken: {
+              $cond: [
+                { $and: [{ $eq: ['$status', 'completed'] }, { $gt: ['$startedAt', null] }, { $gt: ['$completionData.completedAt', null] }] },
+                { $divide: [{ $subtract: ['$completionData.completedAt', '$startedAt'] }, MINUTE_MS] },
+                null
+              ]
+            }
+          }
+        },
+        {
+          $addFields: {
+            timeUsed: {
+              $cond: [
+                { $and: [{ $ne: ['$minutesTaken', null] }, { $gt: ['$timeLimit', 0] }] },
+                { $divide: ['$minutesTaken', '$timeLimit'] },
+                null
+              ]
+            }
+          }
+        },
+        {
+          $facet: {
+            overall: [{ $group: { _id: null, ...CHALLENGE_STATS_GROUP } }],
+            byType: [{ $group: { _id: '$type', ...CHALLENGE_STATS_GROUP } }, { $sort: { _id: 1 } }],
+            byDifficulty: [{ $group: { _id: '$difficulty', ...CHALLENGE_STATS_GROUP } }, { $sort: { _id: 1 } }],
+            byTypeAndDifficulty: [
+              { $group: { _id: { type: '$type', difficulty: '$difficulty' }, ...CHALLENGE_STATS_GROUP } },
+              { $sort: { '_id.type': 1, '_id.difficulty': 1 } }
+            ]
+          }
+        }
+      ]);
+
+      const empty = { _id: null, total: 0, completed: 0, failed: 0, expired: 0, open: 0, timed: 0, withinTimeLimit: 0, hintsRevealed: 0, hintsAvailable: 0, usedHints: 0 };
+      return {
+        range: { name: from ? 'custom' : range, start, end },
+        overall: this.formatChallengeStats(result?.overall?.[0] || empty),
+        byType: (result?.byType || []).map((group: any) => ({ type: group._id, ...this.formatChallengeStats(group) })),
+        byDifficulty: (result?.byDifficulty || []).map((group: any) => ({ difficulty: group._id, ...this.formatChallengeStats(group) })),
+        byTypeAndDifficulty: (result?.byTypeAndDifficulty || []).map((group: any) => ({
+          type: group._id.type,
+          difficulty: group._id.difficulty,
+          ...this.formatChallengeStats(group)
+        }))
+      };
+    } catch (error: any) {
+      logger.error('Error fetching challenge stats:', error);
+      throw error;
+    }
+  },
+
   async getProductivityStats(userId: string, period: string = 'week'): Promise<any> {
     try {
       const now = new Date();
@@ -211,9 +420,15 @@ const analyticsService = {
         averageEfficiency: analytics.length > 0
           ? analytics.reduce((sum, a) => sum + a.metrics.averageEfficiency, 0) / analytics.length
           : 0,
+        minutesByHour: analytics.reduce(
+          (buckets: number[], a) => addHourBuckets(buckets, a.metrics.minutesByHour || []),
+          new Array(24).fill(0)
+        ),
+        peakProductivityHour: undefined as number | undefined,
         tasksByType: {} as Record<string, number>,
         challengesByType: {} as Record<string, number>
       };
+      stats.peakProductivityHour = peakHour(stats.minutesByHour);
 
       analytics.forEach(a => {
         Object.keys(a.metrics.tasksByType || {}).forEach(type => {
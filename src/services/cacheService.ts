@@ -1,6 +1,54 @@
 import { createClient, RedisClientType } from 'redis';
 import logger from '../utils/logger';
 
+// Sorted sets rebuilt from a source of record use three companion keys:
+// `:rebuilding` (lock holding the snapshot time), `:pending` (increments
+// queued during the rebuild) and `:asof` (snapshot the live set was built at).
+const rebuildKeys = (key: string): string[] => [key, `${key}:asof`, `${key}:rebuilding`, `${key}:pending`];
+
+// ZINCRBY for an event at ARGV[3] (ms). A loaded set only takes events newer
+// than its snapshot; while it is being rebuilt they are queued; a missing set
+// stays missing instead of starting a partial one.
+const Z_INCR_LIVE = `if redis.call('EXISTS', KEYS[1]) == 1 then
+  if tonumber(ARGV[3]) < tonumber(redis.call('GET', KEYS[2]) or '0') then
+    return false
+  end
+  return redis.call('ZINCRBY', KEYS[1], ARGV[1], ARGV[2])
+end
+local snapshot = redis.call('GET', KEYS[3])
+if snapshot and tonumber(ARGV[3]) >= tonumber(snapshot) then
+  redis.call('RPUSH', KEYS[4], ARGV[2], ARGV[1])
+  redis.call('PEXPIRE', KEYS[4], math.max(redis.call('PTTL', KEYS[3]), 1))
+  return 'queued'
+end
+return false`;
+
+// Moves the rebuilt set (KEYS[5]) into place, applies the queued increments
+// and releases the lock, provided it is still held at snapshot ARGV[1].
+const Z_SWAP_REBUILT = `if redis.call('GET', KEYS[3]) ~= ARGV[1] then
+  return false
+end
+if redis.call('EXISTS', KEYS[5]) == 1 then
+  redis.call('RENAME', KEYS[5], KEYS[1])
+else
+  redis.call('DEL', KEYS[1])
+end
+local pending = redis.call('LRANGE', KEYS[4], 0, -1)
+for i = 1, #pending, 2 do
+  redis.call('ZINCRBY', KEYS[1], pending[i + 1], pending[i])
+end
+redis.call('EXPIRE', KEYS[1], ARGV[2])
+redis.call('SET', KEYS[2], ARGV[1], 'EX', ARGV[2])
+redis.call('DEL', KEYS[3], KEYS[4])
+return true`;
+
+const Z_ABORT_REBUILD = `if redis.call('GET', KEYS[3]) == ARGV[1] then
+  redis.call('DEL', KEYS[3], KEYS[4])
+end
+return true`;
+
+const REBUILD_LOCK_MS = 60 * 1000;
+
 class CacheService {
   private client: RedisClientType | null = null;
   private isConnected: boolean = false;
@@ -115,6 +163,139 @@ class CacheService {
     return await this.get(key);
   }
 
+  async exists(key: string): Promise<boolean> {
+    if (!this.isConnected || !this.client) {
+      return false;
+    }
+
+    try {
+      return (await this.client.exists(key)) === 1;
+    } catch (error: any) {
+      logger.error(`Error checking key ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Sorted-set helpers for leaderboards. They return null (or false) when
+   * Redis is unavailable so callers can fall back to MongoDB.
+   */
+  async zIncrByLive(key: string, increment: number, member: string, at: Date): Promise<boolean> {
+    if (!this.isConnected || !this.client) {
+      return false;
+    }
+
+    try {
+      const result = await this.client.eval(Z_INCR_LIVE, {
+        keys: rebuildKeys(key),
+        arguments: [String(increment), member, String(at.getTime())]
+      });
+      return result !== null;
+    } catch (error: any) {
+      logger.error(`Error incrementing ${member} in ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Rebuilds a sorted set from `load(asOf)`, which must count events before
+   * `asOf` only. Events after it that `zIncrByLive` sees during the rebuild
+   * are queued and applied when the new set is renamed into place, so none
+   * are lost and readers never see the set half-built. Returns false when
+   * another rebuild holds the lock or Redis is unavailable.
+   */
+  async zRebuild(
+    key: string,
+    load: (asOf: Date) => Promise<Array<{ member: string; score: number }>>,
+    ttl: number
+  ): Promise<boolean> {
+    if (!this.isConnected || !this.client) {
+      return false;
+    }
+
+    const keys = rebuildKeys(key);
+    const snapshot = String(Date.now());
+    try {
+      const locked = await this.client.set(keys[2], snapshot, { NX: true, PX: REBUILD_LOCK_MS });
+      if (locked !== 'OK') {
+        return false;
+      }
+    } catch (error: any) {
+      logger.error(`Error locking sorted set ${key} for rebuild:`, error);
+      return false;
+    }
+
+    try {
+      const entries = await load(new Date(Number(snapshot)));
+      const temporary = `${key}:rebuild:${process.pid}:${snapshot}:${Math.random().toString(36).slice(2)}`;
+      if (entries.length > 0) {
+        await this.client.multi()
+          .zAdd(temporary, entries.map((entry) => ({ value: entry.member, score: entry.score })))
+          .expire(temporary, ttl)
+          .exec();
+      }
+      const swapped = await this.client.eval(Z_SWAP_REBUILT, { keys: [...keys, temporary], arguments: [snapshot, String(ttl)] });
+      if (!swapped) {
+        await this.client.del(temporary);
+        return false;
+      }
+      return true;
+    } catch (error: any) {
+      logger.error(`Error rebuilding sorted set ${key}:`, error);
+      await this.client.eval(Z_ABORT_REBUILD, { keys, arguments: [snapshot] }).catch(() => undefined);
+      return false;
+    }
+  }
+
+  /** Removes `member` from every sorted set whose key matches `pattern`. */
+  async zRemFromAll(pattern: string, member: string): Promise<number> {
+    if (!this.isConnected || !this.client) {
+      return 0;
+    }
+
+    try {
+      let removed = 0;
+      for await (const key of this.client.scanIterator({ MATCH: pattern, TYPE: 'zset', COUNT: 100 })) {
+        removed += await this.client.zRem(key, member);
+      }
+      return removed;
+    } catch (error: any) {
+      logger.error(`Error removing ${member} from ${pattern}:`, error);
+      return 0;
+    }
+  }
+
+  async zTop(key: string, count: number): Promise<Array<{ member: string; score: number }> | null> {
+    if (!this.isConnected || !this.client) {
+      return null;
+    }
+
+    try {
+      const entries = await this.client.zRangeWithScores(key, 0, count - 1, { REV: true });
+      return entries.map((entry) => ({ member: entry.value, score: entry.score }));
+    } catch (error: any) {
+      logger.error(`Error reading sorted set ${key}:`, error);
+      return null;
+    }
+  }
+
+  async zRankOf(key: string, member: string): Promise<{ rank: number | null; score: number | null } | null> {
+    if (!this.isConnected || !this.client) {
+      return null;
+    }
+
+    try {
+      const [rank, score] = await Promise.all([
+        this.client.zRevRank(key, member),
+        this.client.zScore(key, member)
+      ]);
+      return { rank: rank === null ? null : rank + 1, score };
+    } catch (error: any) {
+      logger.error(`Error reading rank of ${member} in ${key}:`, error);
+      return null;
+    }
+  }
+
   async clearUserCache(userId: string): Promise<void> {
     if (!this.isConnected || !this.client) {
       return;
@@ -0,0 +1,251 @@
+import mongoose, { ClientSession, Model } from 'mongoose';
+import User from '../models/User';
+import Task from '../models/Task';
+import TaskChange from '../models/TaskChange';
+import TaskTemplate from '../models/TaskTemplate';
+import Challenge from '../models/Challenge';
+import CatalogChallenge from '../models/CatalogChallenge';
+import Duel from '../models/Duel';
+import Gamification from '../models/Gamification';
+import PointsLedger from '../models/PointsLedger';
+import AchievementEvent from '../models/AchievementEvent';
+import SkillRating from '../models/SkillRating';
+import Analytics from '../models/Analytics';
+import Integration from '../models/Integration';
+import AgentSession from '../models/AgentSession';
+import UserItem from '../models/UserItem';
+import Adventure from '../models/Adventure';
+import Event from '../models/Event';
+import Notification from '../models/Notification';
+import Team from '../models/Team';
+import leaderboardService from './leaderboardService';
+import logger from '../utils/logger';
+
+type ParentModel = 'User' | 'Task';
+
+/**
+ * What happens to a document when the document it references goes away:
+ * `delete` removes it, `archive` soft-deletes it (kept for stats), `unset`
+ * clears the reference and `pull` removes the id from an array field.
+ */
+type CascadeAction = 'delete' | 'archive' | 'unset' | 'pull';
+
+interface Relation {
+  name: string;
+  model: Model<any>;
+  field: string;
+  parent: ParentModel;
+  action: CascadeAction;
+  filter?: any;
+}
+
+export interface RelationReport {
+  name: string;
+  action: CascadeAction;
+  missingParents: number;
+  affected: number;
+  applied: number;
+  remaining: number;
+}
+
+export interface OrphanReport {
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  clean: boolean;
+  relations: RelationReport[];
+}
+
+const FINAL_CHALLENGE_STATUSES = ['completed', 'failed', 'expired'];
+const OPEN_DUEL_STATUSES = ['pending', 'active'];
+
+const BATCH_SIZE = parseInt(process.env.ORPHAN_CLEANUP_BATCH_SIZE || '500', 10);
+const MAX_PASSES = 20;
+
+// Ordered so that a user's documents are removed before task-level rules run;
+// challenges of a deleted user are deleted rather than archived.
+const RELATIONS: Relation[] = [
+  { name: 'challenges.user', model: Challenge, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'tasks.user', model: Task, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'taskChanges.user', model: TaskChange, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'taskTemplates.user', model: TaskTemplate, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'catalogChallenges.author', model: CatalogChallenge, field: 'authorId', parent: 'User', action: 'delete' },
+  { name: 'duels.challenger', model: Duel, field: 'challengerId', parent: 'User', action: 'delete', filter: { status: { $in: OPEN_DUEL_STATUSES } } },
+  { name: 'duels.opponent', model: Duel, field: 'opponentId', parent: 'User', action: 'delete', filter: { status: { $in: OPEN_DUEL_STATUSES } } },
+  { name: 'gamification.user', model: Gamification, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'pointsLedger.user', model: PointsLedger, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'achievementEvents.user', model: AchievementEvent, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'skillRatings.user', model: SkillRating, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'analytics.user', model: Analytics, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'integrations.user', model: Integration, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'agentSessions.user', model: AgentSession, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'userItems.user', model: UserItem, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'adventures.user', model: Adventure, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'events.host', model: Event, field: 'host.userId', parent: 'User', action: 'delete' },
+  { name: 'notifications.user', model: Notification, field: 'userId', parent: 'User', action: 'delete' },
+  { name: 'users.friends', model: User, field: 'friends', parent: 'User', action: 'pull' },
+  { name: 'teams.owner', model: Team, field: 'ownerId', parent: 'User', action: 'delete' },
+  { name: 'teams.members', model: Team, field: 'memberIds', parent: 'User', action: 'pull' },
+  {
+    name: 'challenges.task.finished',
+    model: Challenge,
+    field: 'taskId',
+    parent: 'Task',
+    action: 'archive',
+    filter: { status: { $in: FINAL_CHALLENGE_STATUSES }, archivedAt: { $exists: false } }
+  },
+  {
+    name: 'challenges.task.open',
+    model: Challenge,
+    field: 'taskId',
+    parent: 'Task',
+    action: 'delete',
+    filter: { status: { $nin: FINAL_CHALLENGE_STATUSES } }
+  },
+  { name: 'tasks.parent', model: Task, field: 'parentTaskId', parent: 'Task', action: 'unset' },
+  // Series links (nextOccurrenceId) are left alone: clearing one would make
+  // the recurring-task job regenerate a deliberately deleted occurrence.
+  { name: 'tasks.blockedBy', model: Task, field: 'blockedBy', parent: 'Task', action: 'pull' }
+];
+
+const cascadeService = {
+  getRelations(parent?: ParentModel): Relation[] {
+    return parent ? RELATIONS.filter((relation: Relation) => relation.parent === parent) : RELATIONS;
+  },
+
+  /**
+   * Applies one relation's rule to every document referencing `parentIds`.
+   * Returns the number of documents changed or removed.
+   */
+  async applyRelation(relation: Relation, parentIds: mongoose.Types.ObjectId[], reason: string, session?: ClientSession): Promise<number> {
+    if (parentIds.length === 0) return 0;
+
+    const filter = { ...relation.filter, [relation.field]: { $in: parentIds } };
+    const options = session ? { session } : {};
+
+    switch (relation.action) {
+      case 'delete':
+        return (await relation.model.deleteMany(filter, options)).deletedCount;
+      case 'archive':
+        return (await relation.model.updateMany(
+          filter,
+          { $set: { archivedAt: new Date(), archiveReason: reason, updatedAt: new Date() } },
+          options
+        )).modifiedCount;
+      case 'unset':
+        return (await relation.model.updateMany(filter, { $unset: { [relation.field]: 1 } }, options)).modifiedCount;
+      case 'pull':
+        return (await relation.model.updateMany(filter, { $pull: { [relation.field]: { $in: parentIds } } }, options)).modifiedCount;
+    }
+  },
+
+  async cascade(parent: ParentModel, parentIds: any[], reason: string, session?: ClientSession): Promise<Record<string, number>> {
+    const ids = parentIds.map((id: any) => new mongoose.Types.ObjectId(String(id)));
+    const applied: Record<string, number> = {};
+    for (const relation of this.getRelations(parent)) {
+      applied[relation.name] = await this.applyRelation(relation, ids, reason, session);
+    }
+    return applied;
+  },
+
+  /**
+   * Runs after tasks are deleted: finished challenges are archived so stats
+   * stay consistent, open ones are removed, and task references are cleared.
+   */
+  async onTasksDeleted(taskIds: any[], session?: ClientSession): Promise<Record<string, number>> {
+    return this.cascade('Task', taskIds, 'task_deleted', session);
+  },
+
+  /**
+   * Brings back challenges archived with a task when that task is restored.
+   */
+  async onTaskRestored(taskId: any): Promise<number> {
+    const result = await Challenge.updateMany(
+      { taskId, archiveReason: 'task_deleted' },
+      { $unset: { archivedAt: 1, archiveReason: 1 }, $set: { updatedAt: new Date() } }
+    );
+    return result.modifiedCount;
+  },
+
+  /**
+   * Removes everything a user owns. Finished duels are kept for the other
+   * participant's history; audit logs are never touched.
+   */
+  async onUserDeleted(userId: string): Promise<Record<string, number>> {
+    const applied = await this.cascade('User', [userId], 'user_deleted');
+    // Cached windows are rebuilt from the ledger only when they expire.
+    await leaderboardService.removeUser(userId);
+    logger.info(`Cascade for deleted user ${userId}: ${JSON.stringify(applied)}`);
+    return applied;
+  },
+
+  /**
+   * Ids referenced through `relation` whose parent document no longer exists.
+   */
+  async findMissingParents(relation: Relation, limit: number = BATCH_SIZE): Promise<mongoose.Types.ObjectId[]> {
+    const parentCollection = mongoose.model(relation.parent).collection.name;
+    const rows = await relation.model.aggregate([
+      { $match: { ...relation.filter, [relation.field]: { $exists: true, $ne: null } } },
+      { $project: { ref: `$${relation.field}` } },
+      { $unwind: '$ref' },
+      { $group: { _id: '$ref' } },
+      { $lookup: { from: parentCollection, localField: '_id', foreignField: '_id', as: 'parent' } },
+      { $match: { parent: { $size: 0 } } },
+      { $limit: limit },
+      { $project: { _id: 1 } }
+    ]);
+    return rows.map((row: any) => row._id);
+  },
+
+  /**
+   * Finds documents pointing at deleted users or tasks and applies each
+   * relation's rule in batches. A dry run only counts. Every relation is
+   * re-checked afterwards, so `clean` confirms nothing is left dangling.
+   */
+  async cleanupOrphans(options: { dryRun?: boolean } = {}): Promise<OrphanReport> {
+    const dryRun = !!options.dryRun;
+    const startedAt = new Date();
+    const relations: RelationReport[] = [];
+
+    try {
+      for (const relation of RELATIONS) {
+        const report: RelationReport = { name: relation.name, action: relation.action, missingParents: 0, affected: 0, applied: 0, remaining: 0 };
+
+        for (let pass = 0; pass < MAX_PASSES; pass++) {
+          const missing = await this.findMissingParents(relation);
+          if (missing.length === 0) break;
+
+          report.missingParents += missing.length;
+          report.affected += await relation.model.countDocuments({ ...relation.filter, [relation.field]: { $in: missing } });
+          if (dryRun) break;
+
+          report.applied += await this.applyRelation(relation, missing, 'orphaned');
+          if (missing.length < BATCH_SIZE) break;
+        }
+
+        report.remaining = dryRun ? report.missingParents : (await this.findMissingParents(relation)).length;
+        relations.push(report);
+      }
+
+      const result: OrphanReport = {
+        dryRun,
+        startedAt,
+        finishedAt: new Date(),
+        clean: relations.every((report: RelationReport) => report.remaining === 0),
+        relations
+      };
+
+      const touched = relations.filter((report: RelationReport) => report.affected > 0);
+      logger.info(`Orphan cleanup${dryRun ? ' (dry run)' : ''}: ${touched.length} relations with orphans, clean=${result.clean}`);
+      touched.forEach((report: RelationReport) => {
+        logger.info(`  ${report.name}: ${report.affected} documents (${report.action}), ${report.applied} applied, ${report.remaining} remaining`);
+      });
+      return result;
+    } catch (error: any) {
+      logger.error('Error cleaning up orphans:', error);
+      throw error;
+    }
+  }
+};
+
+export default cascadeService;
@@ -0,0 +1,268 @@
+import CatalogChallenge, { ICatalogChallenge, ModerationStatus } from '../models/CatalogChallenge';
+import { IChallenge } from '../models/Challenge';
+import challengeService from './challengeService';
+import { rewardForDifficulty } from './localChallengeLibrary';
+import logger from '../utils/logger';
+import { paginate, Page, PageRequest, SortSpec } from '../utils/pagination';
+import { createHttpError } from '../utils/httpError';
+
+export interface CatalogViewer {
+  userId: string;
+  roles?: string[];
+}
+
+interface CatalogFilters extends PageRequest {
+  scope?: 'public' | 'mine' | 'moderation';
+  type?: string;
+  difficulty?: string;
+  tag?: string;
+  search?: string;
+  sort?: 'newest' | 'rating' | 'popular';
+}
+
+const SORTS: Record<string, SortSpec> = {
+  newest: { field: 'createdAt', direction: -1 },
+  rating: { field: 'ratingAverage', direction: -1 },
+  popular: { field: 'usageCount', direction: -1 }
+};
+
+// Edits to these fields on a shared entry send it back to moderation.
+const CONTENT_FIELDS = ['title', 'description', 'configuration', 'tags', 'difficultyScore'];
+
+const isModerator = (viewer: CatalogViewer): boolean => (viewer.roles || []).includes('admin');
+
+const isAuthor = (entry: ICatalogChallenge, viewer: CatalogViewer): boolean =>
+  String(entry.authorId) === String(viewer.userId);
+
+const challengeCatalogService = {
+  /**
+   * Authors and moderators see everything; others only see approved
+   * public or unlisted entries.
+   */
+  canView(entry: ICatalogChallenge, viewer: CatalogViewer): boolean {
+    if (isAuthor(entry, viewer) || isModerator(viewer)) return true;
+    return entry.visibility !== 'private' && entry.moderation?.status === 'approved';
+  },
+
+  /** Full entry, answer keys included, for its author or a moderator. */
+  toAuthorView(entry: ICatalogChallenge): any {
+    const view: any = entry.toObject();
+    delete view.ratings;
+    return view;
+  },
+
+  toView(entry: ICatalogChallenge, viewer: CatalogViewer): any {
+    return isAuthor(entry, viewer) || isModerator(viewer) ? this.toAuthorView(entry) : entry.toJSON();
+  },
+
+  assertGradable(type: string, configuration: any = {}): void {
+    if (type === 'quiz' && (configuration.questions || []).length === 0) {
+      throw createHttpError(400, 'Quiz challenges need at least one question', [
+        { field: 'configuration.questions', message: 'At least one question is required', type: 'array.min' }
+      ]);
+    }
+    if (type === 'coding_challenge' && (configuration.testCases || []).length === 0) {
+      throw createHttpError(400, 'Coding challenges need at least one test case', [
+        { field: 'configuration.testCases', message: 'At least one test case is required', type: 'array.min' }
+      ]);
+    }
+  },
+
+  async createEntry(viewer: CatalogViewer, data: any): Promise<ICatalogChallenge> {
+    try {
+      this.assertGradable(data.type, data.configuration);
+
+      const visibility = data.visibility || 'private';
+      const status: ModerationStatus = visibility === 'private' || isModerator(viewer) ? 'approved' : 'pending';
+      const entry = new CatalogChallenge({
+        ...data,
+        authorId: viewer.userId,
+        visibility,
+        moderation: { status }
+      });
+      entry.pointsReward = rewardForDifficulty(entry.difficultyScore);
+
+      await entry.save();
+      logger.info(`Catalog challenge created: ${entry._id} by user: ${viewer.userId}`);
+      return entry;
+    } catch (error: any) {
+      logger.error('Error creating catalog challenge:', error);
+      throw error;
+    }
+  },
+
+  async getEntry(entryId: string, viewer: CatalogViewer): Promise<ICatalogChallenge> {
+    try {
+      const entry = await CatalogChallenge.findById(entryId);
+      if (!entry || !this.canView(entry, viewer)) {
+        throw createHttpError(404, 'Catalog challenge not found');
+      }
+      return entry;
+    } catch (error: any) {
+      logger.error('Error fetching catalog challenge:', error);
+      throw error;
+    }
+  },
+
+  async listEntries(viewer: CatalogViewer, filters: CatalogFilters = {}): Promise<Page<ICatalogChallenge>> {
+    try {
+      const scope = filters.scope || 'public';
+      let query: any;
+      if (scope === 'mine') {
+        query = { authorId: viewer.userId };
+      } else if (scope === 'moderation') {
+        if (!isModerator(viewer)) {
+          throw createHttpError(403, 'Only moderators can review pending challenges');
+        }
+        query = { visibility: { $ne: 'private' }, 'moderation.status': 'pending' };
+      } else {
+        query = { visibility: 'public', 'moderation.status': 'approved' };
+      }
+
+      if (filters.type) {
+        query.type = filters.type;
+      }
+      if (filters.difficulty) {
+        query.difficulty = filters.difficulty;
+      }
+      if (filters.tag) {
+        query.tags = String(filters.tag).toLowerCase();
+      }
+      if (filters.search) {
+        query.$text = { $search: String(filters.search) };
+      }
+
+      return await paginate<ICatalogChallenge>(
+        CatalogChallenge,
+        query,
+        SORTS[filters.sort || 'newest'] || SORTS.newest,
+        filters,
+        (entries: any) => entries.populate('authorId', 'name')
+      );
+    } catch (error: any) {
+      logger.error('Error listing catalog challenges:', error);
+      throw error;
+    }
+  },
+
+  async updateEntry(entryId: string, viewer: CatalogViewer, updates: any): Promise<ICatalogChallenge> {
+    try {
+      const entry = await CatalogChallenge.findOne({ _id: entryId, authorId: viewer.userId });
+      if (!entry) {
+        throw createHttpError(404, 'Catalog challenge not found');
+      }
+
+      const wasShared = entry.visibility !== 'private';
+      Object.keys(updates).forEach((key: string) => {
+        entry.set(key, updates[key]);
+      });
+      this.assertGradable(entry.type, entry.toObject().configuration);
+      entry.pointsReward = rewardForDifficulty(entry.difficultyScore);
+
+      const contentChanged = CONTENT_FIELDS.some((field: string) => field in updates);
+      const isShared = entry.visibility !== 'private';
+      if (isShared && !isModerator(viewer) && (!wasShared || contentChanged)) {
+        entry.moderation = { status: 'pending' };
+      }
+
+      await entry.save();
+      logger.info(`Catalog challenge updated: ${entryId}`);
+      return entry;
+    } catch (error: any) {
+      logger.error('Error updating catalog challenge:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Removes the entry. Challenges already attached to tasks keep their copy.
+   */
+  async deleteEntry(entryId: string, viewer: CatalogViewer): Promise<void> {
+    try {
+      const filter: any = isModerator(viewer) ? { _id: entryId } : { _id: entryId, authorId: viewer.userId };
+      const result = await CatalogChallenge.deleteOne(filter);
+      if (result.deletedCount === 0) {
+        throw createHttpError(404, 'Catalog challenge not found');
+      }
+      logger.info(`Catalog challenge deleted: ${entryId}`);
+    } catch (error: any) {
+      logger.error('Error deleting catalog challenge:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Records or replaces the viewer's 1-5 rating and refreshes the average.
+   */
+  async rateEntry(entryId: string, viewer: CatalogViewer, score: number): Promise<ICatalogChallenge> {
+    try {
+      const entry = await this.getEntry(entryId, viewer);
+      if (isAuthor(entry, viewer)) {
+        throw createHttpError(400, 'You cannot rate your own challenge');
+      }
+
+      const existing = entry.ratings.find((rating) => String(rating.userId) === String(viewer.userId));
+      if (existing) {
+        existing.score = score;
+        existing.ratedAt = new Date();
+      } else {
+        entry.ratings.push({ userId: viewer.userId as any, score, ratedAt: new Date() });
+      }
+
+      const total = entry.ratings.reduce((sum: number, rating) => sum + rating.score, 0);
+      entry.ratingCount = entry.ratings.length;
+      entry.ratingAverage = Math.round((total / entry.ratingCount) * 100) / 100;
+
+      await entry.save();
+      return entry;
+    } catch (error: any) {
+      logger.error('Error rating catalog challenge:', error);
+      throw error;
+    }
+  },
+
+  async moderateEntry(entryId: string, viewer: CatalogViewer, status: ModerationStatus, note?: string): Promise<ICatalogChallenge> {
+    try {
+      if (!isModerator(viewer)) {
+        throw createHttpError(403, 'Only moderators can review challenges');
+      }
+
+      const entry = await CatalogChallenge.findById(entryId);
+      if (!entry) {
+        throw createHttpError(404, 'Catalog challenge not found');
+      }
+
+      entry.moderation = {
+        status,
+        note: note || undefined,
+        reviewedBy: viewer.userId as any,
+        reviewedAt: new Date()
+      };
+      await entry.save();
+
+      logger.info(`Catalog challenge ${entryId} ${status} by ${viewer.userId}`);
+      return entry;
+    } catch (error: any) {
+      logger.error('Error moderating catalog challenge:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Turns a visible catalog entry into a challenge on one of the viewer's
+   * tasks. Entries the viewer wrote that no moderator reviewed award no points.
+   */
+  async attachToTask(entryId: string, viewer: CatalogViewer, taskId: string): Promise<IChallenge> {
+    try {
+      const entry = await this.getEntry(entryId, viewer);
+      const challenge = await challengeService.createFromCatalog(viewer.userId, taskId, entry);
+      await CatalogChallenge.updateOne({ _id: entry._id }, { $inc: { usageCount: 1 } });
+      return challenge;
+    } catch (error: any) {
+      logger.error('Error attaching catalog challenge:', error);
+      throw error;
+    }
+  }
+};
+
+export default challengeCatalogService;
@@ -0,0 +1,177 @@
+import promClient from 'prom-client';
+import logger from '../utils/logger';
+import { DifficultyTarget } from './skillRatingService';
+
+export interface ChallengeRequest {
+  task: {
+    _id?: any;
+    title: string;
+    description?: string;
+    type?: string;
+    estimatedDuration?: number;
+    tags?: string[];
+  };
+  target?: DifficultyTarget;
+}
+
+export interface GeneratedChallenge {
+  type: string;
+  title: string;
+  description?: string;
+  difficulty?: string;
+  difficultyScore?: number;
+  configuration?: any;
+  /** Advisory only; stored rewards are derived from `difficultyScore`. */
+  pointsReward?: number;
+  model?: string;
+  prompt?: string;
+  generationTime?: number;
+  provider?: string;
+}
+
+export interface ChallengeProvider {
+  name: string;
+  timeoutMs: number;
+  isAvailable(): boolean;
+  generate(request: ChallengeRequest): Promise<GeneratedChallenge>;
+}
+
+const CHALLENGE_TYPES = ['quiz', 'puzzle', 'coding_challenge', 'timed_completion', 'streak', 'multiplayer', 'custom'];
+
+const generationAttempts = new promClient.Counter({
+  name: 'challenge_generation_attempts_total',
+  help: 'Challenge generation attempts by provider and outcome',
+  labelNames: ['provider', 'outcome']
+});
+
+const generationDuration = new promClient.Histogram({
+  name: 'challenge_generation_duration_seconds',
+  help: 'Duration of challenge generation calls by provider',
+  labelNames: ['provider'],
+  buckets: [0.01, 0.1, 0.5, 1, 2, 5, 10, 30]
+});
+
+const isStringArray = (value: any): boolean =>
+  Array.isArray(value) && value.every((item: any) => typeof item === 'string');
+
+const isFiniteNumber = (value: any): boolean => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks the parts of a provider payload that are stored and graded. Anything
+ * that would fail the Challenge schema on save (e.g. a non-numeric
+ * correctAnswer) rejects the payload so the next provider is tried.
+ */
+const invalidConfiguration = (configuration: any): boolean => {
+  if (configuration === undefined || configuration === null) {
+    return false;
+  }
+  if (typeof configuration !== 'object' || Array.isArray(configuration)) {
+    return true;
+  }
+  const { timeLimit, attempts, hints, questions, testCases, codeTemplate } = configuration;
+  if ((timeLimit !== undefined && !(isFiniteNumber(timeLimit) && timeLimit > 0))
+    || (attempts !== undefined && !(Number.isInteger(attempts) && attempts > 0))
+    || (hints !== undefined && !isStringArray(hints))
+    || (testCases !== undefined && !isStringArray(testCases))
+    || (codeTemplate !== undefined && typeof codeTemplate !== 'string')) {
+    return true;
+  }
+  if (questions === undefined) {
+    return false;
+  }
+  return !Array.isArray(questions) || !questions.every((question: any) =>
+    question
+    && typeof question.question === 'string'
+    && isStringArray(question.options)
+    && question.options.length > 0
+    && Number.isInteger(question.correctAnswer)
+    && question.correctAnswer >= 0
+    && question.correctAnswer < question.options.length
+    && (question.points === undefined || (isFiniteNumber(question.points) && question.points >= 0)));
+};
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, name: string): Promise<T> => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Provider ${name} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Tries challenge providers in order until one returns a usable challenge.
+ * The order comes from CHALLENGE_PROVIDERS (e.g. "cyrex,openai,local"); the
+ * deterministic `local` provider is always kept as the last resort.
+ */
+class ChallengeGeneratorService {
+  private providers: Map<string, ChallengeProvider> = new Map();
+
+  register(provider: ChallengeProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getOrder(): string[] {
+    const configured = (process.env.CHALLENGE_PROVIDERS || 'cyrex,openai,local')
+      .split(',')
+      .map((name: string) => name.trim())
+      .filter((name: string) => name && this.providers.has(name));
+    if (this.providers.has('local') && !configured.includes('local')) {
+      configured.push('local');
+    }
+    return configured;
+  }
+
+  validate(challenge: any): challenge is GeneratedChallenge {
+    return !!challenge
+      && typeof challenge.title === 'string'
+      && challenge.title.trim().length > 0
+      && challenge.title.trim().length <= 200
+      && CHALLENGE_TYPES.includes(challenge.type)
+      && (challenge.description === undefined || (typeof challenge.description === 'string' && challenge.description.trim().length <= 2000))
+      && (challenge.difficultyScore === undefined
+        || (isFiniteNumber(challenge.difficultyScore) && challenge.difficultyScore >= 1 && challenge.difficultyScore <= 10))
+      && (challenge.pointsReward === undefined || (isFiniteNumber(challenge.pointsReward) && challenge.pointsReward >= 0))
+      && !invalidConfiguration(challenge.configuration);
+  }
+
+  async generate(request: ChallengeRequest): Promise<GeneratedChallenge> {
+    const failures: string[] = [];
+
+    for (const name of this.getOrder()) {
+      const provider = this.providers.get(name)!;
+      if (!provider.isAvailable()) {
+        generationAttempts.inc({ provider: name, outcome: 'unavailable' });
+        continue;
+      }
+
+      const endTimer = generationDuration.startTimer({ provider: name });
+      const started = Date.now();
+      try {
+        const challenge = await withTimeout(provider.generate(request), provider.timeoutMs, name);
+        endTimer();
+        if (!this.validate(challenge)) {
+          generationAttempts.inc({ provider: name, outcome: 'invalid' });
+          failures.push(`${name}: invalid challenge`);
+          continue;
+        }
+
+        generationAttempts.inc({ provider: name, outcome: 'success' });
+        return {
+          ...challenge,
+          provider: name,
+          generationTime: challenge.generationTime ?? Date.now() - started
+        };
+      } catch (error: any) {
+        endTimer();
+        const outcome = /timed out/.test(error.message) ? 'timeout' : 'error';
+        generationAttempts.inc({ provider: name, outcome });
+        failures.push(`${name}: ${error.message}`);
+        logger.warn(`Challenge provider ${name} failed: ${error.message}`);
+      }
+    }
+
+    throw new Error(`All challenge providers failed (${failures.join('; ') || 'none configured'})`);
+  }
+}
+
+export default new ChallengeGeneratorService();
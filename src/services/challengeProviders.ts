@@ -0,0 +1,70 @@
+import axios from 'axios';
+import aiOrchestrator from './aiOrchestrator';
+import challengeGeneratorService, { ChallengeProvider, ChallengeRequest, GeneratedChallenge } from './challengeGeneratorService';
+import { buildLocalChallenge } from './localChallengeLibrary';
+
+export const cyrexProvider: ChallengeProvider = {
+  name: 'cyrex',
+  timeoutMs: parseInt(process.env.CYREX_CHALLENGE_TIMEOUT_MS || '15000', 10),
+
+  isAvailable(): boolean {
+    return true;
+  },
+
+  async generate({ task, target }: ChallengeRequest): Promise<GeneratedChallenge> {
+    const cyrexUrl = process.env.CYREX_URL || 'http://localhost:8000';
+    const response = await axios.post(`${cyrexUrl}/agent/challenge/generate`, {
+      task: {
+        title: task.title,
+        description: task.description,
+        type: task.type,
+        estimatedDuration: task.estimatedDuration
+      },
+      difficulty: target ? {
+        level: target.difficulty,
+        score: target.difficultyScore,
+        skillRating: Math.round(target.rating)
+      } : undefined
+    }, {
+      headers: {
+        'x-api-key': process.env.CYREX_API_KEY || ''
+      },
+      timeout: this.timeoutMs
+    });
+
+    return response.data.data;
+  }
+};
+
+export const openAIProvider: ChallengeProvider = {
+  name: 'openai',
+  timeoutMs: parseInt(process.env.OPENAI_CHALLENGE_TIMEOUT_MS || '20000', 10),
+
+  isAvailable(): boolean {
+    return aiOrchestrator.isReady();
+  },
+
+  async generate({ task, target }: ChallengeRequest): Promise<GeneratedChallenge> {
+    return aiOrchestrator.generateChallenge(task, target);
+  }
+};
+
+export const localProvider: ChallengeProvider = {
+  name: 'local',
+  timeoutMs: 1000,
+
+  isAvailable(): boolean {
+    return true;
+  },
+
+  async generate(request: ChallengeRequest): Promise<GeneratedChallenge> {
+    return buildLocalChallenge(request);
+  }
+};
+
+/** Registers the built-in providers; called once at startup. */
+export const registerChallengeProviders = (): void => {
+  challengeGeneratorService.register(cyrexProvider);
+  challengeGeneratorService.register(openAIProvider);
+  challengeGeneratorService.register(localProvider);
+};
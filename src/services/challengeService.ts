@@ -1,36 +1,104 @@
 import mongoose from 'mongoose';
 import Challenge, { IChallenge } from '../models/Challenge';
-import Task from '../models/Task';
+import Task, { ITask } from '../models/Task';
+import { ICatalogChallenge } from '../models/CatalogChallenge';
 import Gamification from '../models/Gamification';
 import analyticsService from './analyticsService';
+import notificationService from './notificationService';
+import skillRatingService from './skillRatingService';
+import challengeGeneratorService from './challengeGeneratorService';
+import { rewardForDifficulty } from './localChallengeLibrary';
+import pointsLedgerService from './pointsLedgerService';
+import achievementService from './achievementService';
+import codeSandboxService, { SandboxRun, SolutionLanguage } from './codeSandboxService';
 import logger from '../utils/logger';
-import axios from 'axios';
+import { paginate, Page } from '../utils/pagination';
+import { createHttpError } from '../utils/httpError';
 
 interface ChallengeFilters {
   status?: string;
   type?: string;
   taskId?: string;
+  archived?: string | boolean;
+  cursor?: string;
   limit?: number;
   skip?: number;
 }
 
 interface CompletionData {
   completionTime?: number;
-  score?: number;
-  accuracy?: number;
   attemptsUsed?: number;
-  hintsUsed?: number;
 }
 
+export interface QuizSubmission {
+  answers: Array<number | null>;
+  completionTime?: number;
+}
+
+export interface QuizGrade {
+  score: number;
+  maxScore: number;
+  accuracy: number;
+  answers: Array<{
+    questionIndex: number;
+    answer: number | null;
+    correct: boolean;
+    pointsAwarded: number;
+  }>;
+}
+
+export interface HintReveal {
+  hint: string;
+  index: number;
+  hintsUsed: number;
+  hintsRemaining: number;
+  rewardPoints: number;
+}
+
+export interface SolutionSubmission {
+  code: string;
+  language: SolutionLanguage;
+  completionTime?: number;
+}
+
+const DEFAULT_QUESTION_POINTS = 10;
+
+const hasQuestions = (challenge: IChallenge): boolean =>
+  (challenge.configuration?.questions || []).length > 0;
+
+const hasTestCases = (challenge: IChallenge): boolean =>
+  challenge.type === 'coding_challenge' && (challenge.configuration?.testCases || []).length > 0;
+
+const FINAL_STATUSES = ['completed', 'failed', 'expired'];
+
+// How long an unstarted challenge stays open, and the slack allowed on time limits.
+const EXPIRY_HOURS = parseInt(process.env.CHALLENGE_EXPIRY_HOURS || '72', 10);
+const TIME_LIMIT_GRACE_MS = 30 * 1000;
+const EXPIRY_BATCH_SIZE = 500;
+const MINUTE_MS = 60 * 1000;
+
+// Share of the base reward lost per unlocked hint, unless the challenge sets its own.
+const DEFAULT_HINT_PENALTY = parseFloat(process.env.CHALLENGE_HINT_PENALTY || '0.1');
+
+type AttemptKind = IChallenge['attemptHistory'][number]['kind'];
+
 const challengeService = {
+  /** Whether the server grades submissions (quiz answers or test cases). */
+  isGradable(challenge: IChallenge): boolean {
+    return hasQuestions(challenge) || hasTestCases(challenge);
+  },
+
   async generateChallenge(userId: string, taskId: string): Promise<IChallenge> {
     try {
       const task = await Task.findOne({ _id: taskId, userId });
       if (!task) {
         throw new Error('Task not found');
       }
+      await this.assertTaskOpen(task);
 
-      const challengeData = await this.callAIChallengeService(task);
+      const target = await skillRatingService.recommendDifficulty(userId);
+      const challengeData = await challengeGeneratorService.generate({ task, target });
+      const difficultyScore = challengeData.difficultyScore || target.difficultyScore;
 
       const challenge = new Challenge({
         userId,
@@ -38,28 +106,23 @@ const challengeService = {
         type: challengeData.type || 'timed_completion',
         title: challengeData.title || `Challenge: ${task.title}`,
         description: challengeData.description || '',
-        difficulty: challengeData.difficulty || 'medium',
-        difficultyScore: challengeData.difficultyScore || 5,
+        difficulty: target.adaptive ? 'adaptive' : target.difficulty,
+        difficultyScore,
         configuration: challengeData.configuration || {},
-        pointsReward: challengeData.pointsReward || 100,
-        aiGenerated: true,
+        // Providers see user text, so their payload never sets the reward.
+        pointsReward: rewardForDifficulty(difficultyScore),
+        expiresAt: new Date(Date.now() + EXPIRY_HOURS * 60 * MINUTE_MS),
+        aiGenerated: challengeData.provider !== 'local',
         aiMetadata: {
-          model: challengeData.model || 'gpt-4',
+          provider: challengeData.provider,
+          model: challengeData.model || challengeData.provider,
           prompt: challengeData.prompt || '',
           generationTime: challengeData.generationTime || 0
         }
       });
 
       await challenge.save();
-
-      if (!challenge._id) {
-        throw new Error('Failed to create challenge');
-      }
-      const challengeId = challenge._id instanceof mongoose.Types.ObjectId 
-        ? challenge._id 
-        : new mongoose.Types.ObjectId(String(challenge._id));
-      task.challengeId = challengeId;
-      await task.save();
+      await this.linkToTask(task, challenge);
 
       logger.info(`Challenge generated: ${challenge._id} for task: ${taskId}`);
       return challenge;
@@ -69,42 +132,82 @@ const challengeService = {
     }
   },
 
-  async callAIChallengeService(task: any): Promise<any> {
+  /**
+   * Creates a challenge for one of the user's tasks from a catalog entry,
+   * copying its content (answer keys included) instead of generating one.
+   */
+  async createFromCatalog(userId: string, taskId: string, entry: ICatalogChallenge): Promise<IChallenge> {
     try {
-      const pythonAgentUrl = process.env.CYREX_URL || 'http://localhost:8000';
-      const response = await axios.post(`${pythonAgentUrl}/agent/challenge/generate`, {
-        task: {
-          title: task.title,
-          description: task.description,
-          type: task.type,
-          estimatedDuration: task.estimatedDuration
-        }
-      }, {
-        headers: {
-          'x-api-key': process.env.CYREX_API_KEY || ''
-        },
-        timeout: 30000
+      const task = await Task.findOne({ _id: taskId, userId });
+      if (!task) {
+        throw createHttpError(404, 'Task not found');
+      }
+      await this.assertTaskOpen(task);
+
+      const source = entry.toObject();
+      const selfAuthored = String(source.authorId) === String(userId);
+      const reviewed = source.visibility !== 'private' && source.moderation?.status === 'approved';
+      const challenge = new Challenge({
+        userId,
+        taskId,
+        catalogChallengeId: entry._id,
+        type: source.type,
+        title: source.title,
+        description: source.description || '',
+        difficulty: source.difficulty,
+        difficultyScore: source.difficultyScore,
+        configuration: source.configuration || {},
+        pointsReward: selfAuthored && !reviewed ? 0 : rewardForDifficulty(source.difficultyScore),
+        expiresAt: new Date(Date.now() + EXPIRY_HOURS * 60 * MINUTE_MS),
+        aiGenerated: false
       });
 
-      return response.data.data || {};
+      await challenge.save();
+      await this.linkToTask(task, challenge);
+
+      logger.info(`Challenge ${challenge._id} created from catalog entry ${entry._id} for task: ${taskId}`);
+      return challenge;
     } catch (error: any) {
-      logger.error('Error calling AI challenge service:', error);
-      return {
-        type: 'timed_completion',
-        title: `Complete: ${task.title}`,
-        description: `Complete this task within the estimated time!`,
-        difficulty: 'medium',
-        configuration: {
-          timeLimit: task.estimatedDuration || 30
-        }
-      };
+      logger.error('Error creating challenge from catalog:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * A task takes a new challenge only once its current one failed or
+   * expired.
+   */
+  async assertTaskOpen(task: ITask): Promise<void> {
+    if (!task.challengeId) {
+      return;
+    }
+    const existing = await Challenge.findOne({ _id: task.challengeId, status: { $in: ['pending', 'active', 'completed'] } });
+    if (existing) {
+      throw createHttpError(409, `Task already has a ${existing.status} challenge`);
     }
   },
 
-  async getUserChallenges(userId: string, filters: ChallengeFilters = {}): Promise<IChallenge[]> {
+  /**
+   * Points the task at a freshly saved challenge, unless another challenge
+   * was attached since the task was read; the new one is then deleted.
+   */
+  async linkToTask(task: ITask, challenge: IChallenge): Promise<void> {
+    const linked = await Task.updateOne(
+      { _id: task._id, challengeId: task.challengeId || null },
+      { $set: { challengeId: challenge._id } }
+    );
+    if (linked.modifiedCount === 0) {
+      await Challenge.deleteOne({ _id: challenge._id });
+      throw createHttpError(409, 'Task already has a challenge');
+    }
+  },
+
+  async getUserChallenges(userId: string, filters: ChallengeFilters = {}): Promise<Page<IChallenge>> {
     try {
       const query: any = { userId };
-      
+      // Challenges of deleted tasks are archived for stats and hidden unless asked for.
+      query.archivedAt = String(filters.archived) === 'true' ? { $exists: true } : { $exists: false };
+
       if (filters.status) {
         query.status = filters.status;
       }
@@ -115,13 +218,13 @@ const challengeService = {
         query.taskId = filters.taskId;
       }
 
-      const challenges = await Challenge.find(query)
-        .populate('taskId', 'title description')
-        .sort({ createdAt: -1 })
-        .limit(filters.limit || 50)
-        .skip(filters.skip || 0);
-      
-      return challenges;
+      return await paginate<IChallenge>(
+        Challenge,
+        query,
+        { field: 'createdAt', direction: -1 },
+        filters,
+        (challenges: any) => challenges.populate('taskId', 'title description')
+      );
     } catch (error: any) {
       logger.error('Error fetching challenges:', error);
       throw error;
@@ -144,52 +247,456 @@ const challengeService = {
 
   async completeChallenge(challengeId: string, userId: string, completionData: CompletionData): Promise<IChallenge> {
     try {
-      const challenge = await Challenge.findOne({ _id: challengeId, userId });
+      let challenge = await Challenge.findOne({ _id: challengeId, userId });
       if (!challenge) {
         throw new Error('Challenge not found');
       }
 
-      challenge.status = 'completed';
-      challenge.completionData = {
-        completedAt: new Date(),
+      if (hasQuestions(challenge)) {
+        throw createHttpError(400, 'Quiz challenges are graded by the server; submit answers instead');
+      }
+      if (hasTestCases(challenge)) {
+        throw createHttpError(400, 'Coding challenges are graded by the server; submit a solution instead');
+      }
+      await this.assertCanAttempt(challenge);
+      challenge = await this.reserveAttempt(challenge, 'complete');
+
+      // Nothing was graded, so a self-reported completion carries no score.
+      const score = 0;
+      const accuracy = 100;
+      this.recordAttempt(challenge, { score, accuracy, passed: true });
+
+      await this.recordCompletion(challenge, userId, {
         completionTime: completionData.completionTime || 0,
-        score: completionData.score || 0,
-        accuracy: completionData.accuracy || 100,
-        attemptsUsed: completionData.attemptsUsed || 1,
-        hintsUsed: completionData.hintsUsed || 0
+        score,
+        accuracy,
+        attemptsUsed: challenge.attemptHistory.length,
+        hintsUsed: challenge.hintsRevealed || 0
+      });
+
+      logger.info(`Challenge completed: ${challengeId} for user: ${userId}`);
+      return challenge;
+    } catch (error: any) {
+      logger.error('Error completing challenge:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Grades answers (option indexes, in question order) against the stored
+   * questions. Unanswered questions count as wrong.
+   */
+  gradeQuiz(challenge: IChallenge, answers: Array<number | null>): QuizGrade {
+    const questions = challenge.configuration?.questions || [];
+    let score = 0;
+    let maxScore = 0;
+    let correctCount = 0;
+
+    const graded = questions.map((question: any, questionIndex: number) => {
+      const points = question.points ?? DEFAULT_QUESTION_POINTS;
+      const answer = answers[questionIndex] ?? null;
+      const correct = answer !== null && answer === question.correctAnswer;
+
+      maxScore += points;
+      if (correct) {
+        score += points;
+        correctCount += 1;
+      }
+      return { questionIndex, answer, correct, pointsAwarded: correct ? points : 0 };
+    });
+
+    return {
+      score,
+      maxScore,
+      accuracy: questions.length > 0 ? Math.round((correctCount / questions.length) * 10000) / 100 : 0,
+      answers: graded
+    };
+  },
+
+  async submitAnswers(challengeId: string, userId: string, submission: QuizSubmission): Promise<{ challenge: IChallenge; grade: QuizGrade }> {
+    try {
+      let challenge = await Challenge.findOne({ _id: challengeId, userId });
+      if (!challenge) {
+        throw new Error('Challenge not found');
+      }
+      if (!hasQuestions(challenge)) {
+        throw createHttpError(400, 'Challenge has no questions to grade');
+      }
+      await this.assertCanAttempt(challenge);
+
+      const questionCount = challenge.configuration!.questions!.length;
+      if (submission.answers.length > questionCount) {
+        throw createHttpError(400, `Challenge has only ${questionCount} questions`, [
+          { field: 'answers', message: `"answers" must contain at most ${questionCount} items`, type: 'array.max' }
+        ]);
+      }
+
+      challenge = await this.reserveAttempt(challenge, 'quiz');
+      const grade = this.gradeQuiz(challenge, submission.answers);
+      this.recordAttempt(challenge, { score: grade.score, accuracy: grade.accuracy, passed: true });
+
+      await this.recordCompletion(challenge, userId, {
+        completionTime: submission.completionTime || 0,
+        score: grade.score,
+        accuracy: grade.accuracy,
+        attemptsUsed: challenge.attemptHistory.length,
+        hintsUsed: challenge.hintsRevealed || 0,
+        graded: true,
+        answers: grade.answers
+      });
+
+      logger.info(`Challenge submitted: ${challengeId} for user: ${userId} (score ${grade.score}/${grade.maxScore})`);
+      return { challenge, grade };
+    } catch (error: any) {
+      logger.error('Error submitting challenge answers:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Runs a coding solution against the stored test cases. Passing every test
+   * completes the challenge; otherwise the attempt is counted and the challenge
+   * fails once `configuration.attempts` is used up.
+   */
+  async submitSolution(challengeId: string, userId: string, submission: SolutionSubmission): Promise<{ challenge: IChallenge; run: SandboxRun }> {
+    try {
+      let challenge = await Challenge.findOne({ _id: challengeId, userId });
+      if (!challenge) {
+        throw new Error('Challenge not found');
+      }
+      if (!hasTestCases(challenge)) {
+        throw createHttpError(400, 'Challenge has no test cases to run');
+      }
+      await this.assertCanAttempt(challenge);
+      challenge = await this.reserveAttempt(challenge, 'solution');
+
+      let run: SandboxRun;
+      try {
+        run = await codeSandboxService.run(submission.code, submission.language, challenge.configuration!.testCases!);
+      } catch (error: any) {
+        // The solution was never graded (compile error, sandbox busy).
+        await this.releaseAttempt(challenge);
+        throw error;
+      }
+
+      const accuracy = Math.round((run.passed / run.total) * 10000) / 100;
+      this.recordAttempt(challenge, { score: run.passed, accuracy, passed: run.passed === run.total });
+      const attemptsUsed = challenge.attemptHistory.length;
+      const completionData = {
+        completionTime: submission.completionTime || 0,
+        score: run.passed,
+        accuracy,
+        attemptsUsed,
+        hintsUsed: challenge.hintsRevealed || 0,
+        graded: true,
+        testResults: run.results.map((result) => ({
+          name: result.name,
+          passed: result.passed,
+          durationMs: result.durationMs,
+          error: result.error
+        }))
       };
 
+      if (run.passed === run.total) {
+        await this.recordCompletion(challenge, userId, completionData);
+        logger.info(`Coding challenge solved: ${challengeId} for user: ${userId}`);
+        return { challenge, run };
+      }
+
+      const maxAttempts = challenge.configuration?.attempts;
+      challenge.status = maxAttempts && attemptsUsed >= maxAttempts ? 'failed' : 'active';
+      challenge.completionData = {
+        ...completionData,
+        ...(challenge.status === 'failed' ? { completedAt: new Date() } : {})
+      };
       await challenge.save();
+      await skillRatingService.recordOutcome(userId, challenge);
 
-      await this.awardChallengeCompletion(userId, challenge);
-      await analyticsService.recordChallengeCompletion(userId, challenge);
+      logger.info(`Coding challenge attempt ${attemptsUsed} for ${challengeId}: ${run.passed}/${run.total} tests passed`);
+      return { challenge, run };
+    } catch (error: any) {
+      logger.error('Error submitting challenge solution:', error);
+      throw error;
+    }
+  },
 
-      logger.info(`Challenge completed: ${challengeId} for user: ${userId}`);
+  /**
+   * Moves a pending challenge to `active` and starts its clock. When the
+   * challenge has a time limit its expiry is pulled in to the deadline.
+   */
+  async startChallenge(challengeId: string, userId: string): Promise<IChallenge> {
+    try {
+      const challenge = await Challenge.findOne({ _id: challengeId, userId });
+      if (!challenge) {
+        throw new Error('Challenge not found');
+      }
+      if (challenge.status === 'active') {
+        return challenge;
+      }
+      if (challenge.status !== 'pending') {
+        throw createHttpError(409, `Challenge is already ${challenge.status}`);
+      }
+
+      const now = new Date();
+      if (challenge.expiresAt && challenge.expiresAt <= now) {
+        await this.expireChallenge(challenge);
+        throw createHttpError(409, 'Challenge has expired');
+      }
+
+      challenge.status = 'active';
+      challenge.startedAt = now;
+      const deadline = this.getDeadline(challenge);
+      if (deadline) {
+        const closesAt = new Date(deadline.getTime() + TIME_LIMIT_GRACE_MS);
+        if (!challenge.expiresAt || closesAt < challenge.expiresAt) {
+          challenge.expiresAt = closesAt;
+        }
+      }
+      await challenge.save();
+
+      logger.info(`Challenge started: ${challengeId} for user: ${userId}`);
       return challenge;
     } catch (error: any) {
-      logger.error('Error completing challenge:', error);
+      logger.error('Error starting challenge:', error);
       throw error;
     }
   },
 
+  getDeadline(challenge: IChallenge): Date | null {
+    const timeLimit = challenge.configuration?.timeLimit;
+    if (!timeLimit || !challenge.startedAt) {
+      return null;
+    }
+    return new Date(challenge.startedAt.getTime() + timeLimit * MINUTE_MS);
+  },
+
+  /**
+   * Rejects a submission that is out of time or attempts. A challenge found to
+   * be past its limits is closed before the 409 is raised.
+   */
+  async assertCanAttempt(challenge: IChallenge, now: Date = new Date()): Promise<void> {
+    if (FINAL_STATUSES.includes(challenge.status)) {
+      throw createHttpError(409, `Challenge is already ${challenge.status}`);
+    }
+    if (challenge.expiresAt && challenge.expiresAt <= now) {
+      await this.expireChallenge(challenge);
+      throw createHttpError(409, 'Challenge has expired');
+    }
+
+    if (challenge.configuration?.timeLimit) {
+      if (!challenge.startedAt) {
+        throw createHttpError(409, 'Challenge has a time limit; start it before submitting');
+      }
+      const deadline = this.getDeadline(challenge)!;
+      if (now.getTime() > deadline.getTime() + TIME_LIMIT_GRACE_MS) {
+        await this.failChallenge(challenge, now);
+        throw createHttpError(409, 'Time limit exceeded', { deadline });
+      }
+    }
+
+    const maxAttempts = challenge.configuration?.attempts;
+    if (maxAttempts && (challenge.attemptHistory || []).length >= maxAttempts) {
+      await this.failChallenge(challenge, now);
+      throw createHttpError(409, 'No attempts left', { attempts: maxAttempts });
+    }
+  },
+
+  /**
+   * Claims an attempt before grading. The push only applies while the
+   * challenge is open and under its attempt limit, so concurrent submissions
+   * cannot grade more attempts than configured. Returns the updated challenge,
+   * whose last attempt is the one reserved.
+   */
+  async reserveAttempt(challenge: IChallenge, kind: AttemptKind): Promise<IChallenge> {
+    const maxAttempts = challenge.configuration?.attempts;
+    const reserved = await Challenge.findOneAndUpdate(
+      {
+        _id: challenge._id,
+        status: { $nin: FINAL_STATUSES },
+        ...(maxAttempts ? { $expr: { $lt: [{ $size: { $ifNull: ['$attemptHistory', []] } }, maxAttempts] } } : {})
+      },
+      { $push: { attemptHistory: { kind, startedAt: challenge.startedAt, submittedAt: new Date(), passed: false } } },
+      { new: true }
+    );
+    if (!reserved) {
+      throw createHttpError(409, 'No attempts left', { attempts: maxAttempts });
+    }
+    return reserved;
+  },
+
+  /** Fills in the result of the attempt claimed by `reserveAttempt`. */
+  recordAttempt(challenge: IChallenge, result: { score?: number; accuracy?: number; passed: boolean }): void {
+    Object.assign(challenge.attemptHistory[challenge.attemptHistory.length - 1], result);
+  },
+
+  /** Gives back a reserved attempt that could not be graded. */
+  async releaseAttempt(challenge: IChallenge): Promise<void> {
+    const attempt = challenge.attemptHistory[challenge.attemptHistory.length - 1];
+    await Challenge.updateOne(
+      { _id: challenge._id },
+      { $pull: { attemptHistory: { kind: attempt.kind, submittedAt: attempt.submittedAt } } }
+    );
+  },
+
+  async failChallenge(challenge: IChallenge, now: Date = new Date()): Promise<void> {
+    challenge.status = 'failed';
+    challenge.completionData = {
+      ...(challenge.completionData || {}),
+      completedAt: now,
+      attemptsUsed: (challenge.attemptHistory || []).length
+    };
+    await challenge.save();
+    await skillRatingService.recordOutcome(String(challenge.userId), challenge);
+  },
+
+  async expireChallenge(challenge: IChallenge): Promise<void> {
+    challenge.status = 'expired';
+    await challenge.save();
+    await skillRatingService.recordOutcome(String(challenge.userId), challenge);
+    await notificationService.sendChallengeExpiredNotification(
+      String(challenge.userId),
+      String(challenge._id),
+      challenge.title
+    );
+  },
+
+  /**
+   * Scheduled job entry point: expires open challenges whose `expiresAt`
+   * (creation window or start + time limit) has passed.
+   */
+  async expireStaleChallenges(now: Date = new Date()): Promise<number> {
+    try {
+      let expired = 0;
+      let after: mongoose.Types.ObjectId | undefined;
+      // Paged by _id so challenges that fail to expire are not fetched again.
+      for (;;) {
+        const stale = await Challenge.find({
+          status: { $in: ['pending', 'active'] },
+          expiresAt: { $lte: now },
+          ...(after ? { _id: { $gt: after } } : {})
+        }).sort({ _id: 1 }).limit(EXPIRY_BATCH_SIZE);
+
+        for (const challenge of stale) {
+          try {
+            await this.expireChallenge(challenge);
+            expired += 1;
+          } catch (error: any) {
+            logger.error(`Error expiring challenge ${challenge._id}:`, error);
+          }
+        }
+
+        if (stale.length < EXPIRY_BATCH_SIZE) break;
+        after = stale[stale.length - 1]._id as mongoose.Types.ObjectId;
+      }
+
+      if (expired > 0) {
+        logger.info(`Expired ${expired} stale challenges`);
+      }
+      return expired;
+    } catch (error: any) {
+      logger.error('Error expiring stale challenges:', error);
+      throw error;
+    }
+  },
+
+  async revealNextHint(challengeId: string, userId: string): Promise<HintReveal> {
+    try {
+      const challenge = await Challenge.findOne({ _id: challengeId, userId });
+      if (!challenge) {
+        throw new Error('Challenge not found');
+      }
+      if (FINAL_STATUSES.includes(challenge.status)) {
+        throw createHttpError(409, `Challenge is already ${challenge.status}`);
+      }
+
+      const hints = challenge.configuration?.hints || [];
+      const index = challenge.hintsRevealed || 0;
+      if (index >= hints.length) {
+        throw createHttpError(409, 'No hints left');
+      }
+
+      // Conditional increment so concurrent requests cannot unlock the same hint twice.
+      const updated = await Challenge.findOneAndUpdate(
+        { _id: challenge._id, hintsRevealed: challenge.hintsRevealed },
+        { $inc: { hintsRevealed: 1 }, $set: { updatedAt: new Date() } },
+        { new: true }
+      );
+      if (!updated) {
+        throw createHttpError(409, 'Hint was already revealed; try again');
+      }
+
+      logger.info(`Hint ${index + 1}/${hints.length} revealed for challenge: ${challengeId}`);
+      return {
+        hint: hints[index],
+        index,
+        hintsUsed: updated.hintsRevealed,
+        hintsRemaining: hints.length - updated.hintsRevealed,
+        rewardPoints: this.getRewardPoints(updated)
+      };
+    } catch (error: any) {
+      logger.error('Error revealing challenge hint:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Points granted on completion. Each unlocked hint removes `hintPenalty` of
+   * the base reward, and using any hint forfeits the bonus multiplier.
+   */
+  getRewardPoints(challenge: IChallenge): number {
+    const basePoints = challenge.pointsReward || 100;
+    const hintsUsed = challenge.hintsRevealed || 0;
+    const penalty = challenge.configuration?.hintPenalty ?? DEFAULT_HINT_PENALTY;
+    const bonusMultiplier = hintsUsed > 0 ? 1.0 : challenge.bonusMultiplier || 1.0;
+    const hintFactor = Math.max(0, 1 - hintsUsed * penalty);
+    return Math.floor(basePoints * bonusMultiplier * hintFactor);
+  },
+
+  async recordCompletion(challenge: IChallenge, userId: string, completionData: IChallenge['completionData']): Promise<void> {
+    challenge.status = 'completed';
+    challenge.completionData = {
+      ...completionData,
+      completedAt: new Date()
+    };
+
+    await challenge.save();
+
+    await this.awardChallengeCompletion(userId, challenge);
+    await analyticsService.recordChallengeCompletion(userId, challenge);
+    await skillRatingService.recordOutcome(userId, challenge);
+  },
+
   async awardChallengeCompletion(userId: string, challenge: IChallenge): Promise<void> {
     try {
+      const finalPoints = this.getRewardPoints(challenge);
+      const { applied } = await pointsLedgerService.award({
+        userId,
+        points: finalPoints,
+        reason: 'challenge_completed',
+        source: 'challenge',
+        sourceId: String(challenge._id),
+        description: challenge.title,
+        idempotencyKey: `challenge:${challenge._id}:completed`
+      });
+      if (!applied) return;
+
       let gamification = await Gamification.findOne({ userId });
       
       if (!gamification) {
         gamification = new Gamification({ userId });
       }
 
-      const basePoints = challenge.pointsReward || 100;
-      const bonusMultiplier = challenge.bonusMultiplier || 1.0;
-      const finalPoints = Math.floor(basePoints * bonusMultiplier);
-
-      gamification.points += finalPoints;
-      gamification.xp += finalPoints;
-      
       gamification.stats.challengesCompleted += 1;
 
       await gamification.save();
+
+      await achievementService.handleEvent(userId, 'challenge.completed', {
+        challengeId: String(challenge._id),
+        type: challenge.type,
+        difficulty: challenge.difficulty,
+        score: challenge.completionData?.score || 0,
+        hintsUsed: challenge.hintsRevealed || 0
+      }, challenge.completionData?.completedAt || new Date());
     } catch (error: any) {
       logger.error('Error awarding challenge completion:', error);
     }
@@ -0,0 +1,275 @@
+import { Worker } from 'worker_threads';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+
+export type SolutionLanguage = 'javascript' | 'typescript';
+
+/**
+ * A stored test case is either JSON `{ "name"?, "input": [...args], "expected": value }`,
+ * which calls the exported `solution` function, or a plain JavaScript expression
+ * that must evaluate to `true` (e.g. `solution(2, 3) === 5`).
+ */
+export type TestCase =
+  | { kind: 'io'; name: string; input: any[]; expected: any }
+  | { kind: 'expression'; name: string; expression: string };
+
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  durationMs: number;
+  stdout: string;
+  actual?: string;
+  expected?: string;
+  error?: string;
+}
+
+export interface SandboxRun {
+  passed: number;
+  total: number;
+  durationMs: number;
+  results: TestResult[];
+}
+
+const TIMEOUT_MS = parseInt(process.env.SANDBOX_TIMEOUT_MS || '2000', 10);
+const MEMORY_MB = parseInt(process.env.SANDBOX_MEMORY_MB || '64', 10);
+const MAX_CONCURRENT = parseInt(process.env.SANDBOX_MAX_CONCURRENT || '2', 10);
+const MAX_OUTPUT = 4096;
+
+// Runs inside the worker thread. Each test gets a fresh vm context with no
+// require, process, timers or host objects, and string code generation
+// (eval/Function) disabled, so only the submitted source and harness run.
+// Microtasks drain inside runInContext so the per-test timeout covers them.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const { performance } = require('perf_hooks');
+const { types } = require('util');
+
+const { code, tests, timeoutMs, maxOutput } = workerData;
+
+const HARNESS = [
+  'const __stringify = JSON.stringify;',
+  'const __String = String;',
+  'const __output = [];',
+  'let __outputSize = 0;',
+  'const __format = (value) => { if (typeof value === "string") return value; try { return __stringify(value); } catch (e) { return String(value); } };',
+  'const __write = (...args) => { const line = args.map(__format).join(" "); if (__outputSize < ' + maxOutput + ') __output.push(line); __outputSize += line.length + 1; };',
+  'const console = { log: __write, info: __write, warn: __write, error: __write, debug: __write };',
+  'const module = { exports: {} };',
+  'var exports = module.exports;'
+].join('\\n');
+
+const ENTRY = '(typeof module.exports === "function" ? module.exports : (module.exports.solution || module.exports.default || (typeof solution === "function" ? solution : undefined)))';
+
+const UNREADABLE_ERROR = 'Solution threw a value that could not be read';
+
+// Node reads the stack of any exception leaving runInContext, outside the
+// timeout, so nothing the solution throws may escape: it is caught and
+// described inside the context. The script evaluates to "R" + the JSON
+// result, "U" when there is none, or "E" + the error message.
+const buildScript = (test) => {
+  const body = test.kind === 'io'
+    ? 'const __fn = ' + ENTRY + ';\\n'
+      + 'if (typeof __fn !== "function") throw new Error("Solution must export a function named solution");\\n'
+      + '__result = __stringify(__fn(...' + JSON.stringify(test.input) + '));'
+    : '__result = __stringify((' + test.expression + ') === true);';
+  return HARNESS + '\\nlet __result;\\nlet __outcome;\\ntry {\\ntry {\\n' + code + '\\n;{\\n' + body + '\\n}\\n'
+    + '__outcome = typeof __result === "string" ? "R" + __result : "U";\\n'
+    + '} catch (__error) {\\n__outcome = "E" + __String(__error && __error.message ? __error.message : __error);\\n}\\n'
+    + '} catch (__unreadable) {\\n__outcome = "E" + ' + JSON.stringify(UNREADABLE_ERROR) + ';\\n}\\n__outcome;';
+};
+
+// Only errors raised by the host (timeouts, syntax errors) get this far. A
+// timeout hit while draining microtasks is built in the context's realm, so
+// its message is read from the own data property, which runs no sandbox code.
+const hostErrorMessage = (error) => {
+  const message = !types.isProxy(error) && types.isNativeError(error)
+    ? Object.getOwnPropertyDescriptor(error, 'message')
+    : undefined;
+  return message && typeof message.value === 'string' ? message.value.slice(0, 500) : UNREADABLE_ERROR;
+};
+
+const results = tests.map((test) => {
+  // A prototype-less global keeps the worker's Object/Function out of reach.
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate'
+  });
+  const started = performance.now();
+  const result = { name: test.name, passed: false, durationMs: 0, stdout: '' };
+
+  try {
+    const raw = new vm.Script(buildScript(test), { filename: 'solution.js' })
+      .runInContext(context, { timeout: timeoutMs, breakOnSigint: false });
+    const outcome = typeof raw === 'string' ? raw : 'E' + UNREADABLE_ERROR;
+    if (outcome[0] === 'E') {
+      throw new Error(outcome.slice(1));
+    }
+    const actual = outcome[0] === 'R' ? outcome.slice(1) : undefined;
+    if (test.kind === 'io') {
+      result.actual = actual;
+      result.expected = JSON.stringify(test.expected);
+      result.passed = actual === result.expected;
+    } else {
+      result.passed = actual === 'true';
+    }
+  } catch (error) {
+    result.error = hostErrorMessage(error);
+  }
+  result.durationMs = Math.round((performance.now() - started) * 100) / 100;
+
+  try {
+    const stdout = new vm.Script('(() => { try { return __output.join("\\\\n"); } catch (e) { return ""; } })()')
+      .runInContext(context, { timeout: 50 });
+    result.stdout = typeof stdout === 'string' ? stdout.slice(0, maxOutput) : '';
+  } catch (error) {
+    result.stdout = '';
+  }
+  return result;
+});
+
+parentPort.postMessage(results);
+`;
+
+let running = 0;
+
+const loadTypeScript = (): any => {
+  try {
+    return require('typescript');
+  } catch (error: any) {
+    throw createHttpError(503, 'Solution compiler is not available');
+  }
+};
+
+const codeSandboxService = {
+  parseTestCases(testCases: string[] = []): TestCase[] {
+    return testCases.map((raw: string, index: number): TestCase => {
+      const name = `Test ${index + 1}`;
+      try {
+        const parsed = JSON.parse(raw);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && 'expected' in parsed) {
+          return {
+            kind: 'io',
+            name: parsed.name || name,
+            input: Array.isArray(parsed.input) ? parsed.input : parsed.input === undefined ? [] : [parsed.input],
+            expected: parsed.expected
+          };
+        }
+      } catch (error: any) {
+        // Not JSON: treat it as an assertion expression.
+      }
+      return { kind: 'expression', name, expression: raw };
+    });
+  },
+
+  /**
+   * Transpiles JavaScript or TypeScript (including ES module syntax) to
+   * CommonJS; syntax errors are reported as a 400 with per-line details.
+   */
+  compile(code: string, language: SolutionLanguage): string {
+    const ts = loadTypeScript();
+    const output = ts.transpileModule(code, {
+      fileName: language === 'typescript' ? 'solution.ts' : 'solution.js',
+      reportDiagnostics: true,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        allowJs: true
+      }
+    });
+
+    const diagnostics = output.diagnostics || [];
+    if (diagnostics.length > 0) {
+      throw createHttpError(400, 'Solution failed to compile', diagnostics.map((diagnostic: any) => {
+        const position = diagnostic.file && diagnostic.start !== undefined
+          ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+          : undefined;
+        return {
+          field: 'code',
+          message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+          line: position ? position.line + 1 : undefined
+        };
+      }));
+    }
+    return output.outputText;
+  },
+
+  /**
+   * Runs the solution against every test case in a worker thread with a
+   * per-test CPU timeout, a heap cap and an overall wall-clock limit.
+   */
+  async run(code: string, language: SolutionLanguage, testCases: string[]): Promise<SandboxRun> {
+    const tests = this.parseTestCases(testCases);
+    const compiled = this.compile(code, language);
+
+    if (running >= MAX_CONCURRENT) {
+      throw createHttpError(503, 'Too many solutions are being graded; try again shortly');
+    }
+    running += 1;
+
+    const started = Date.now();
+    let stopped: Promise<unknown> = Promise.resolve();
+    try {
+      const results = await new Promise<TestResult[]>((resolve, reject) => {
+        const worker = new Worker(WORKER_SOURCE, {
+          eval: true,
+          workerData: { code: compiled, tests, timeoutMs: TIMEOUT_MS, maxOutput: MAX_OUTPUT },
+          env: {},
+          execArgv: [],
+          stdout: true,
+          stderr: true,
+          resourceLimits: {
+            maxOldGenerationSizeMb: MEMORY_MB,
+            maxYoungGenerationSizeMb: Math.max(4, Math.floor(MEMORY_MB / 4)),
+            stackSizeMb: 4
+          }
+        });
+
+        let settled = false;
+        const finish = (callback: () => void) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          // Whatever the outcome, the worker may still be running code; the
+          // concurrency slot is only released once it has stopped.
+          stopped = worker.terminate();
+          callback();
+        };
+        const failAll = (message: string) => tests.map((test: TestCase) => ({
+          name: test.name,
+          passed: false,
+          durationMs: 0,
+          stdout: '',
+          error: message
+        }));
+
+        const timer = setTimeout(() => {
+          finish(() => resolve(failAll('Time limit exceeded')));
+        }, TIMEOUT_MS * tests.length + 1000);
+
+        worker.once('message', (message: TestResult[]) => finish(() => resolve(message)));
+        worker.once('error', (error: any) => {
+          if (error?.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+            finish(() => resolve(failAll('Memory limit exceeded')));
+            return;
+          }
+          finish(() => reject(error));
+        });
+        worker.once('exit', (exitCode: number) => {
+          finish(() => resolve(failAll(`Sandbox exited unexpectedly (code ${exitCode})`)));
+        });
+      });
+
+      const passed = results.filter((result: TestResult) => result.passed).length;
+      return { passed, total: results.length, durationMs: Date.now() - started, results };
+    } catch (error: any) {
+      logger.error('Error running solution sandbox:', error);
+      throw error;
+    } finally {
+      await stopped.catch(() => undefined);
+      running -= 1;
+    }
+  }
+};
+
+export default codeSandboxService;
@@ -0,0 +1,586 @@
+import mongoose from 'mongoose';
+import Duel, { IDuel, DuelStatus } from '../models/Duel';
+import User from '../models/User';
+import Gamification from '../models/Gamification';
+import Challenge, { IChallenge } from '../models/Challenge';
+import challengeService from './challengeService';
+import pointsLedgerService from './pointsLedgerService';
+import achievementService from './achievementService';
+import logger from '../utils/logger';
+import { paginate, Page, PageRequest } from '../utils/pagination';
+import { createHttpError } from '../utils/httpError';
+
+export interface DuelOptions {
+  title?: string;
+  challengeType?: string;
+  challengeId?: string;
+  duration?: number;
+}
+
+interface DuelFilters extends PageRequest {
+  status?: DuelStatus;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_DURATION_MS = 15 * MINUTE_MS;
+const MIN_DURATION_MS = MINUTE_MS;
+const MAX_DURATION_MS = 2 * 60 * MINUTE_MS;
+const INVITE_TTL_MS = parseInt(process.env.DUEL_INVITE_TTL_MINUTES || '10', 10) * MINUTE_MS;
+
+const WIN_POINTS = parseInt(process.env.DUEL_WIN_POINTS || '50', 10);
+const DRAW_POINTS = parseInt(process.env.DUEL_DRAW_POINTS || '25', 10);
+const PARTICIPATION_POINTS = parseInt(process.env.DUEL_PARTICIPATION_POINTS || '10', 10);
+
+// Share of the duel's duration that reaching 100% takes at the very least;
+// reported progress above that pace is refused.
+const MIN_FINISH_SHARE = parseFloat(process.env.DUEL_MIN_FINISH_SHARE || '0.1');
+const FINISH_RETRIES = 5;
+// Attempts the server scored; self-reported completions do not count.
+const GRADED_KINDS = ['quiz', 'solution'];
+const AWARD_SWEEP_BATCH = 100;
+
+// Finish timers for active duels on this instance; the scheduler sweep covers
+// duels whose timer was lost to a restart or that started on another instance.
+const timers: Map<string, NodeJS.Timeout> = new Map();
+
+const roomOf = (duelId: string): string => `duel_${duelId}`;
+
+const emit = (room: string, event: string, payload: any): void => {
+  if ((global as any).io) {
+    (global as any).io.to(room).emit(event, payload);
+  }
+};
+
+const isParticipant = (duel: IDuel, userId: string): boolean =>
+  duel.participants.some((participant) => String(participant.userId) === String(userId));
+
+const duelService = {
+  toState(duel: IDuel): any {
+    return {
+      id: String(duel._id),
+      title: duel.title,
+      challengeName: duel.title,
+      challengeType: duel.challengeType,
+      status: duel.status,
+      participants: duel.participants.map((participant) => ({
+        userId: String(participant.userId),
+        progress: participant.progress,
+        finishedAt: participant.finishedAt ? participant.finishedAt.getTime() : null,
+        pointsAwarded: participant.pointsAwarded
+      })),
+      startTime: duel.startTime ? duel.startTime.getTime() : null,
+      endTime: duel.endTime ? duel.endTime.getTime() : null,
+      winnerId: duel.winnerId ? String(duel.winnerId) : null,
+      isDraw: duel.isDraw
+    };
+  },
+
+  async createDuel(challengerId: string, opponentId: string, options: DuelOptions = {}): Promise<IDuel> {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(opponentId)) {
+        throw createHttpError(400, 'Invalid opponent id');
+      }
+      if (String(challengerId) === String(opponentId)) {
+        throw createHttpError(400, 'You cannot duel yourself');
+      }
+      const opponent = await User.findById(opponentId).select('_id isActive');
+      if (!opponent || !opponent.isActive) {
+        throw createHttpError(404, 'Opponent not found');
+      }
+
+      if (options.challengeId !== undefined && options.challengeId !== '') {
+        await this.findDuelChallenge(String(options.challengeId), challengerId);
+      }
+
+      const duration = Math.min(MAX_DURATION_MS, Math.max(MIN_DURATION_MS, Number(options.duration) || DEFAULT_DURATION_MS));
+      const duel = await Duel.create({
+        challengerId,
+        opponentId,
+        challengeId: options.challengeId || undefined,
+        title: options.title || 'Duel',
+        challengeType: options.challengeType || 'multiplayer',
+        duration,
+        participants: [{ userId: challengerId }, { userId: opponentId }],
+        inviteExpiresAt: new Date(Date.now() + INVITE_TTL_MS)
+      });
+
+      emit(`user_${opponentId}`, 'duel:invite', {
+        id: String(duel._id),
+        fromUserId: String(challengerId),
+        title: duel.title,
+        challengeConfig: { challengeType: duel.challengeType, duration },
+        expiresAt: duel.inviteExpiresAt.getTime(),
+        timestamp: Date.now()
+      });
+
+      logger.info(`Duel ${duel._id} created by ${challengerId} against ${opponentId}`);
+      return duel;
+    } catch (error: any) {
+      logger.error('Error creating duel:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * The challenge a duel is fought over: one of the challenger's own, graded
+   * by the server so neither side can report its result.
+   */
+  async findDuelChallenge(challengeId: string, challengerId: string): Promise<IChallenge> {
+    if (!mongoose.Types.ObjectId.isValid(challengeId)) {
+      throw createHttpError(400, 'Invalid challenge id');
+    }
+    const challenge = await Challenge.findOne({ _id: challengeId, userId: challengerId });
+    if (!challenge) {
+      throw createHttpError(404, 'Challenge not found');
+    }
+    if (!challengeService.isGradable(challenge)) {
+      throw createHttpError(400, 'Duels need a challenge graded by the server (a quiz or coding challenge with test cases)');
+    }
+    return challenge;
+  },
+
+  /**
+   * Gives every participant a fresh copy of the linked challenge, started
+   * with the duel and closing when it ends. Copies carry no reward of their
+   * own; the duel result is what pays out.
+   */
+  async assignChallenge(duel: IDuel, source: IChallenge): Promise<IDuel> {
+    const content = source.toObject();
+    const copies = await Challenge.insertMany(duel.participants.map((participant) => ({
+      userId: participant.userId,
+      taskId: content.taskId,
+      type: content.type,
+      title: content.title,
+      description: content.description,
+      difficulty: content.difficulty,
+      difficultyScore: content.difficultyScore,
+      configuration: content.configuration,
+      pointsReward: 0,
+      status: 'active',
+      startedAt: duel.startTime,
+      expiresAt: duel.endTime,
+      aiGenerated: false
+    })));
+
+    const assigned: any = {};
+    duel.participants.forEach((_participant, index: number) => {
+      assigned[`participants.${index}.challengeId`] = copies[index]._id;
+    });
+    return await Duel.findOneAndUpdate({ _id: duel._id }, { $set: assigned }, { new: true }) || duel;
+  },
+
+  async acceptDuel(duelId: string, userId: string): Promise<IDuel> {
+    try {
+      const duel = await Duel.findOne({ _id: duelId, opponentId: userId });
+      if (!duel) {
+        throw createHttpError(404, 'Duel not found');
+      }
+      if (duel.status !== 'pending') {
+        throw createHttpError(409, `Duel is already ${duel.status}`);
+      }
+      if (duel.inviteExpiresAt.getTime() <= Date.now()) {
+        await Duel.updateOne({ _id: duel._id, status: 'pending' }, { $set: { status: 'expired', updatedAt: new Date() } });
+        throw createHttpError(409, 'Duel invite has expired');
+      }
+
+      let source: IChallenge | null = null;
+      if (duel.challengeId) {
+        source = await Challenge.findOne({ _id: duel.challengeId, userId: duel.challengerId });
+        if (!source) {
+          throw createHttpError(409, 'The duel challenge no longer exists');
+        }
+      }
+
+      const startTime = new Date();
+      let started = await Duel.findOneAndUpdate(
+        { _id: duel._id, status: 'pending' },
+        { $set: { status: 'active', startTime, endTime: new Date(startTime.getTime() + duel.duration), updatedAt: startTime } },
+        { new: true }
+      );
+      if (!started) {
+        throw createHttpError(409, 'Duel is no longer pending');
+      }
+      if (source) {
+        started = await this.assignChallenge(started, source);
+      }
+
+      this.joinRoom(started);
+      this.scheduleFinish(started);
+      emit(roomOf(String(started._id)), 'duel:start', this.toState(started));
+
+      logger.info(`Duel ${started._id} started`);
+      return started;
+    } catch (error: any) {
+      logger.error('Error accepting duel:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * The opponent rejects a pending invite; the challenger withdrawing it
+   * cancels the duel instead.
+   */
+  async rejectDuel(duelId: string, userId: string): Promise<IDuel> {
+    try {
+      const duel = await Duel.findOne({ _id: duelId, $or: [{ opponentId: userId }, { challengerId: userId }] });
+      if (!duel) {
+        throw createHttpError(404, 'Duel not found');
+      }
+
+      const status: DuelStatus = String(duel.opponentId) === String(userId) ? 'rejected' : 'cancelled';
+      const updated = await Duel.findOneAndUpdate(
+        { _id: duel._id, status: 'pending' },
+        { $set: { status, updatedAt: new Date() } },
+        { new: true }
+      );
+      if (!updated) {
+        throw createHttpError(409, `Duel is already ${duel.status}`);
+      }
+
+      const notify = status === 'rejected' ? duel.challengerId : duel.opponentId;
+      emit(`user_${notify}`, status === 'rejected' ? 'duel:rejected' : 'duel:cancelled', { duelId: String(duel._id) });
+      return updated;
+    } catch (error: any) {
+      logger.error('Error rejecting duel:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * The progress the server accepts for a participant. With a linked
+   * challenge it is the best graded accuracy on the participant's copy since
+   * the duel started and the reported value is ignored; otherwise the report
+   * is refused when it is ahead of the fastest plausible pace.
+   */
+  async resolveProgress(duel: IDuel, userId: string, reported: number, now: Date = new Date()): Promise<number> {
+    const since = duel.startTime ? duel.startTime.getTime() : 0;
+
+    if (duel.challengeId) {
+      const participant = duel.participants.find((entry) => String(entry.userId) === String(userId));
+      if (!participant?.challengeId) {
+        return 0;
+      }
+      const challenge = await Challenge.findOne({ _id: participant.challengeId, userId }).select('attemptHistory');
+      return (challenge?.attemptHistory || [])
+        .filter((attempt) => GRADED_KINDS.includes(attempt.kind) && attempt.submittedAt && attempt.submittedAt.getTime() >= since)
+        .reduce((best: number, attempt) => Math.max(best, attempt.accuracy || 0), 0);
+    }
+
+    const ceiling = Math.min(100, ((now.getTime() - since) / (duel.duration * MIN_FINISH_SHARE)) * 100);
+    if (reported > ceiling) {
+      throw createHttpError(400, 'Progress is ahead of what the elapsed time allows', { maxProgress: Math.floor(ceiling) });
+    }
+    return reported;
+  },
+
+  /**
+   * Records a participant's progress (0-100). Progress never goes backwards
+   * and is refused once the server-side end time has passed.
+   */
+  async updateProgress(duelId: string, userId: string, progress: number): Promise<IDuel> {
+    try {
+      let value = Number(progress);
+      if (!Number.isFinite(value) || value < 0 || value > 100) {
+        throw createHttpError(400, 'Progress must be a number between 0 and 100');
+      }
+
+      const now = new Date();
+      const active = await Duel.findOne({ _id: duelId, status: 'active', endTime: { $gt: now }, 'participants.userId': userId });
+      if (active) {
+        value = await this.resolveProgress(active, userId, value, now);
+      }
+
+      const duel = await Duel.findOneAndUpdate(
+        { _id: duelId, status: 'active', endTime: { $gt: now }, 'participants.userId': userId },
+        { $max: { 'participants.$.progress': value }, $set: { 'participants.$.lastUpdateAt': now, updatedAt: now } },
+        { new: true }
+      );
+
+      if (!duel) {
+        const existing = await Duel.findOne({ _id: duelId, 'participants.userId': userId });
+        if (!existing) {
+          throw createHttpError(404, 'Duel not found');
+        }
+        if (existing.status === 'active') {
+          await this.finishDuel(duelId);
+          throw createHttpError(409, 'Duel has ended');
+        }
+        throw createHttpError(409, `Duel is ${existing.status}`);
+      }
+
+      let current = duel;
+      if (value >= 100) {
+        current = await Duel.findOneAndUpdate(
+          { _id: duel._id, participants: { $elemMatch: { userId, finishedAt: { $exists: false } } } },
+          { $set: { 'participants.$.finishedAt': now, updatedAt: now } },
+          { new: true }
+        ) || duel;
+      }
+
+      const participant = current.participants.find((entry) => String(entry.userId) === String(userId))!;
+      emit(roomOf(String(current._id)), 'duel:update', {
+        duelId: String(current._id),
+        userId: String(userId),
+        progress: participant.progress,
+        timestamp: now.getTime()
+      });
+
+      if (current.participants.every((entry) => entry.finishedAt)) {
+        return (await this.finishDuel(duelId)) || current;
+      }
+      return current;
+    } catch (error: any) {
+      logger.error('Error updating duel progress:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Highest progress wins; equal progress goes to whoever reached 100 first.
+   * Anything still level is a draw.
+   */
+  determineWinner(duel: IDuel): { winnerId: mongoose.Types.ObjectId | null; isDraw: boolean } {
+    const finishedAt = (entry: IDuel['participants'][number]): number =>
+      entry.finishedAt ? entry.finishedAt.getTime() : Infinity;
+    const ranked = [...duel.participants].sort((a, b) =>
+      b.progress - a.progress || finishedAt(a) - finishedAt(b));
+
+    const [first, second] = ranked;
+    if (!first || (second && first.progress === second.progress && finishedAt(first) === finishedAt(second))) {
+      return { winnerId: null, isDraw: true };
+    }
+    return { winnerId: first.userId, isDraw: false };
+  },
+
+  /**
+   * Completes an active duel exactly once. The result is written by the same
+   * conditional update that closes the duel, guarded on `updatedAt` so a late
+   * progress update forces a re-read. Returns null if another caller already
+   * finished it.
+   */
+  async finishDuel(duelId: string): Promise<IDuel | null> {
+    try {
+      this.clearTimer(duelId);
+
+      for (let attempt = 0; attempt < FINISH_RETRIES; attempt++) {
+        const current = await Duel.findOne({ _id: duelId, status: 'active' });
+        if (!current) {
+          return null;
+        }
+
+        const { winnerId, isDraw } = this.determineWinner(current);
+        const participants = current.participants.map((participant) => {
+          const won = !!winnerId && String(participant.userId) === String(winnerId);
+          return {
+            userId: participant.userId,
+            challengeId: participant.challengeId,
+            progress: participant.progress,
+            finishedAt: participant.finishedAt,
+            lastUpdateAt: participant.lastUpdateAt,
+            pointsAwarded: won ? WIN_POINTS : isDraw ? DRAW_POINTS : participant.progress > 0 ? PARTICIPATION_POINTS : 0
+          };
+        });
+
+        const now = new Date();
+        const duel = await Duel.findOneAndUpdate(
+          { _id: duelId, status: 'active', updatedAt: current.updatedAt },
+          {
+            $set: {
+              status: 'completed',
+              completedAt: now,
+              updatedAt: now,
+              isDraw,
+              participants,
+              ...(winnerId ? { winnerId } : {})
+            }
+          },
+          { new: true }
+        );
+        if (!duel) {
+          continue;
+        }
+
+        const state = this.toState(duel);
+        emit(roomOf(String(duel._id)), 'duel:end', state);
+        duel.participants.forEach((participant) => emit(`user_${participant.userId}`, 'duel:end', state));
+        logger.info(`Duel ${duel._id} finished: ${isDraw ? 'draw' : `winner ${winnerId}`}`);
+
+        try {
+          await this.postAwards(duel);
+        } catch (error: any) {
+          // The sweep re-posts awards for completed duels.
+          logger.error(`Error posting awards for duel ${duel._id}:`, error);
+        }
+        return duel;
+      }
+
+      throw new Error(`Duel ${duelId} kept changing while it was being finished`);
+    } catch (error: any) {
+      logger.error('Error finishing duel:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Posts every participant's reward and marks the duel once all of them
+   * landed. Safe to repeat: the ledger key skips rewards already applied.
+   */
+  async postAwards(duel: IDuel): Promise<void> {
+    for (const participant of duel.participants) {
+      const won = !!duel.winnerId && String(participant.userId) === String(duel.winnerId);
+      await this.awardDuelPoints(String(participant.userId), participant.pointsAwarded, won, duel);
+    }
+    await Duel.updateOne({ _id: duel._id }, { $set: { awardsPostedAt: new Date() } });
+  },
+
+  async awardDuelPoints(userId: string, points: number, won: boolean, duel: IDuel): Promise<void> {
+    try {
+      const { applied } = await pointsLedgerService.award({
+        userId,
+        points,
+        reason: 'duel_result',
+        source: 'duel',
+        sourceId: String(duel._id),
+        description: duel.title,
+        idempotencyKey: `duel:${duel._id}:${userId}`
+      });
+      if (!applied) return;
+
+      let gamification = await Gamification.findOne({ userId });
+
+      if (!gamification) {
+        gamification = new Gamification({ userId });
+      }
+
+      gamification.stats.duelsPlayed = (gamification.stats.duelsPlayed || 0) + 1;
+      if (won) {
+        gamification.stats.duelsWon = (gamification.stats.duelsWon || 0) + 1;
+      }
+
+      await gamification.save();
+
+      await achievementService.handleEvent(userId, 'duel.finished', {
+        duelId: String(duel._id),
+        won,
+        draw: duel.isDraw === true,
+        points
+      }, duel.completedAt || new Date());
+    } catch (error: any) {
+      logger.error('Error awarding duel points:', error);
+      throw error;
+    }
+  },
+
+  joinRoom(duel: IDuel): void {
+    const io = (global as any).io;
+    if (!io) return;
+    duel.participants.forEach((participant) => {
+      io.in(`user_${participant.userId}`).socketsJoin(roomOf(String(duel._id)));
+    });
+  },
+
+  scheduleFinish(duel: IDuel): void {
+    const duelId = String(duel._id);
+    this.clearTimer(duelId);
+    const delay = Math.max(0, (duel.endTime?.getTime() || Date.now()) - Date.now());
+    const timer = setTimeout(() => {
+      timers.delete(duelId);
+      this.finishDuel(duelId).catch(() => undefined);
+    }, delay);
+    timer.unref();
+    timers.set(duelId, timer);
+  },
+
+  clearTimer(duelId: string): void {
+    const timer = timers.get(String(duelId));
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(String(duelId));
+    }
+  },
+
+  /**
+   * Scheduler sweep: finishes overdue duels, re-arms timers for active duels
+   * this instance does not track yet, re-posts rewards that did not land and
+   * expires unanswered invites.
+   */
+  async finalizeOverdueDuels(): Promise<{ finished: number; expired: number }> {
+    try {
+      const now = new Date();
+      let finished = 0;
+
+      const active = await Duel.find({ status: 'active' }).select('_id endTime');
+      for (const duel of active) {
+        if (duel.endTime && duel.endTime <= now) {
+          if (await this.finishDuel(String(duel._id))) {
+            finished += 1;
+          }
+        } else if (!timers.has(String(duel._id))) {
+          this.scheduleFinish(duel);
+        }
+      }
+
+      const unposted = await Duel.find({ status: 'completed', awardsPostedAt: { $exists: false } })
+        .sort({ completedAt: 1 })
+        .limit(AWARD_SWEEP_BATCH);
+      for (const duel of unposted) {
+        try {
+          await this.postAwards(duel);
+        } catch (error: any) {
+          logger.error(`Error re-posting awards for duel ${duel._id}:`, error);
+        }
+      }
+
+      const expired = await Duel.updateMany(
+        { status: 'pending', inviteExpiresAt: { $lte: now } },
+        { $set: { status: 'expired', updatedAt: now } }
+      );
+
+      if (finished > 0 || expired.modifiedCount > 0) {
+        logger.info(`Duel sweep: ${finished} finished, ${expired.modifiedCount} invites expired`);
+      }
+      return { finished, expired: expired.modifiedCount };
+    } catch (error: any) {
+      logger.error('Error finalizing duels:', error);
+      throw error;
+    }
+  },
+
+  async getDuel(duelId: string, userId: string): Promise<IDuel> {
+    try {
+      const duel = await Duel.findById(duelId);
+      if (!duel || !isParticipant(duel, userId)) {
+        throw createHttpError(404, 'Duel not found');
+      }
+      return duel;
+    } catch (error: any) {
+      logger.error('Error fetching duel:', error);
+      throw error;
+    }
+  },
+
+  async getDuelHistory(userId: string, filters: DuelFilters = {}): Promise<Page<IDuel>> {
+    try {
+      const query: any = { 'participants.userId': userId };
+      if (filters.status) {
+        query.status = filters.status;
+      }
+
+      return await paginate<IDuel>(
+        Duel,
+        query,
+        { field: 'createdAt', direction: -1 },
+        filters,
+        (q: any) => q
+          .populate('challengerId', 'name')
+          .populate('opponentId', 'name')
+          .populate('winnerId', 'name')
+      );
+    } catch (error: any) {
+      logger.error('Error fetching duel history:', error);
+      throw error;
+    }
+  }
+};
+
+export default duelService;
@@ -1,8 +1,21 @@
 import axios from 'axios';
+import pointsLedgerService from './pointsLedgerService';
+import { PointsSource } from '../models/PointsLedger';
 import logger from '../utils/logger';
 
 const ENGAGEMENT_SERVICE_URL = process.env.ENGAGEMENT_SERVICE_URL || 'http://localhost:5003';
 
+interface MomentumAward {
+  userId: string;
+  amount: number;
+  source: 'tasks' | 'commits' | 'docs';
+  metadata: any;
+  idempotencyKey: string;
+  ledgerSource: PointsSource;
+  sourceId?: string;
+  description?: string;
+}
+
 class GamificationIntegrationService {
   /**
    * Award momentum for task completion
@@ -13,7 +26,7 @@ class GamificationIntegrationService {
       const momentumAmount = this.calculateTaskMomentum(taskData);
       
       // Award momentum
-      await axios.post(`${ENGAGEMENT_SERVICE_URL}/momentum/award`, {
+      const awarded = await this.postMomentum({
         userId,
         amount: momentumAmount,
         source: 'tasks',
@@ -21,8 +34,13 @@ class GamificationIntegrationService {
           taskId: taskData._id,
           taskType: taskData.type,
           efficiency: taskData.completionData?.efficiency
-        }
+        },
+        idempotencyKey: `momentum:task:${taskData._id}`,
+        ledgerSource: 'task',
+        sourceId: String(taskData._id),
+        description: taskData.title
       });
+      if (!awarded) return;
 
       // Update daily streak
       await axios.post(`${ENGAGEMENT_SERVICE_URL}/streaks/update`, {
@@ -44,7 +62,7 @@ class GamificationIntegrationService {
     try {
       const momentumAmount = this.calculateChallengeMomentum(challengeData);
       
-      await axios.post(`${ENGAGEMENT_SERVICE_URL}/momentum/award`, {
+      const awarded = await this.postMomentum({
         userId,
         amount: momentumAmount,
         source: 'tasks',
@@ -52,8 +70,13 @@ class GamificationIntegrationService {
           challengeId: challengeData._id,
           challengeType: challengeData.type,
           score: challengeData.completionData?.score
-        }
+        },
+        idempotencyKey: `momentum:challenge:${challengeData._id}`,
+        ledgerSource: 'challenge',
+        sourceId: String(challengeData._id),
+        description: challengeData.title
       });
+      if (!awarded) return;
 
       await axios.post(`${ENGAGEMENT_SERVICE_URL}/streaks/update`, {
         userId,
@@ -71,14 +94,22 @@ class GamificationIntegrationService {
    */
   async awardCommit(userId: string, commitData: any): Promise<void> {
     try {
+      if (!commitData?.commitId) {
+        logger.warn('Skipping commit momentum without a commitId');
+        return;
+      }
       const momentumAmount = this.calculateCommitMomentum(commitData);
       
-      await axios.post(`${ENGAGEMENT_SERVICE_URL}/momentum/award`, {
+      const awarded = await this.postMomentum({
         userId,
         amount: momentumAmount,
         source: 'commits',
-        metadata: commitData
+        metadata: commitData,
+        idempotencyKey: `momentum:commit:${commitData.commitId}`,
+        ledgerSource: 'integration',
+        description: `Commit ${commitData.commitId}`
       });
+      if (!awarded) return;
 
       // Update PR streak
       await axios.post(`${ENGAGEMENT_SERVICE_URL}/streaks/update`, {
@@ -97,14 +128,23 @@ class GamificationIntegrationService {
    */
   async awardDocumentActivity(userId: string, docData: any): Promise<void> {
     try {
+      // Without an id a redelivered event could not be told apart from a new one.
+      if (!docData?.activityId) {
+        logger.warn('Skipping document momentum without an activityId');
+        return;
+      }
       const momentumAmount = this.calculateDocMomentum(docData);
-      
-      await axios.post(`${ENGAGEMENT_SERVICE_URL}/momentum/award`, {
+
+      const awarded = await this.postMomentum({
         userId,
         amount: momentumAmount,
         source: 'docs',
-        metadata: docData
+        metadata: docData,
+        idempotencyKey: `momentum:doc:${docData.activityId}`,
+        ledgerSource: 'integration',
+        description: docData.action ? `Document ${docData.action}` : 'Document activity'
       });
+      if (!awarded) return;
 
       logger.info(`Gamification awarded for document activity`);
     } catch (error: any) {
@@ -112,6 +152,42 @@ class GamificationIntegrationService {
     }
   }
 
+  /**
+   * Sends momentum to the engagement service once per idempotency key. The
+   * ledger entry reserves the key before the call, so concurrent callers
+   * cannot both send it; a failed call frees the key for a retry. Returns
+   * false when it was already awarded.
+   */
+  private async postMomentum(award: MomentumAward): Promise<boolean> {
+    const { entry, applied } = await pointsLedgerService.award({
+      userId: award.userId,
+      account: 'momentum',
+      points: award.amount,
+      xp: 0,
+      reason: 'momentum',
+      source: award.ledgerSource,
+      sourceId: award.sourceId,
+      description: award.description,
+      idempotencyKey: award.idempotencyKey
+    });
+    if (!applied) {
+      return false;
+    }
+
+    try {
+      await axios.post(`${ENGAGEMENT_SERVICE_URL}/momentum/award`, {
+        userId: award.userId,
+        amount: award.amount,
+        source: award.source,
+        metadata: award.metadata
+      });
+    } catch (error: any) {
+      await pointsLedgerService.discard(entry);
+      throw error;
+    }
+    return true;
+  }
+
   // Calculation methods
   private calculateTaskMomentum(taskData: any): number {
     let base = 10;
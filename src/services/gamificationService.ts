@@ -1,5 +1,7 @@
 import Gamification, { IGamification } from '../models/Gamification';
 import Badge from '../models/Badge';
+import leaderboardService, { ScopeOptions, ScopedLeaderboard } from './leaderboardService';
+import achievementService, { AchievementStatus } from './achievementService';
 import logger from '../utils/logger';
 
 const gamificationService = {
@@ -21,10 +23,16 @@ const gamificationService = {
 
   async getLeaderboard(limit: number = 100, period: string = 'all'): Promise<any[]> {
     try {
-      const query: any = {};
+      const resolved = leaderboardService.parsePeriod(period);
+      if (resolved !== 'all') {
+        // Windowed boards rank points earned inside the window, not totals.
+        return await leaderboardService.getLeaderboard(resolved, limit);
+      }
+
+      const query: any = { 'preferences.showLeaderboard': { $ne: false } };
 
       const leaderboard = await Gamification.find(query)
-        .populate('userId', 'name email')
+        .populate('userId', 'name')
         .sort({ points: -1 })
         .limit(limit)
         .select('userId points level stats.tasksCompleted stats.challengesCompleted streaks');
@@ -40,15 +48,28 @@ const gamificationService = {
     }
   },
 
-  async getUserRank(userId: string): Promise<number | null> {
+  /**
+   * Friends, team or cohort board; see leaderboardService.getScopedLeaderboard.
+   */
+  async getScopedLeaderboard(userId: string, options: ScopeOptions, limit: number = 100, period: string = 'all'): Promise<ScopedLeaderboard> {
+    return leaderboardService.getScopedLeaderboard(userId, options, leaderboardService.parsePeriod(period), limit);
+  },
+
+  async getUserRank(userId: string, period: string = 'all'): Promise<number | null> {
     try {
+      const resolved = leaderboardService.parsePeriod(period);
+      if (resolved !== 'all') {
+        return (await leaderboardService.getUserRank(userId, resolved)).rank;
+      }
+
       const userProfile = await Gamification.findOne({ userId });
       if (!userProfile) {
         return null;
       }
 
       const higherScorers = await Gamification.countDocuments({
-        points: { $gt: userProfile.points }
+        points: { $gt: userProfile.points },
+        'preferences.showLeaderboard': { $ne: false }
       });
 
       return higherScorers + 1;
@@ -65,82 +86,34 @@ const gamificationService = {
         throw new Error('Badge not found or inactive');
       }
 
-      const profile = await this.getOrCreateProfile(userId);
-
-      const hasBadge = profile.badges.some((b: any) => b.badgeId?.toString() === badgeId);
-      if (hasBadge) {
-        return profile;
-      }
-
-      profile.badges.push({
-        badgeId: badge._id,
-        badgeName: badge.name,
-        badgeIcon: badge.icon,
-        earnedAt: new Date()
-      });
-
-      profile.points += badge.pointsReward;
-      profile.xp += badge.pointsReward;
+      await this.getOrCreateProfile(userId);
+      await achievementService.unlock(userId, badge);
 
-      await profile.save();
-
-      logger.info(`Badge awarded: ${badge.name} to user: ${userId}`);
-      return profile;
+      return await this.getOrCreateProfile(userId);
     } catch (error: any) {
       logger.error('Error awarding badge:', error);
       throw error;
     }
   },
 
+  /**
+   * Evaluates every badge rule for the user. Rules are also evaluated on
+   * each domain event; this catches up after badges are added or edited.
+   */
   async checkAndAwardBadges(userId: string): Promise<any[]> {
     try {
-      const profile = await this.getOrCreateProfile(userId);
-      const badges = await Badge.find({ isActive: true });
-
-      const awardedBadges: any[] = [];
-
-      for (const badge of badges) {
-        const hasBadge = profile.badges.some((b: any) => b.badgeId?.toString() === badge._id.toString());
-        if (hasBadge) continue;
-
-        let shouldAward = false;
-
-        switch (badge.criteria.type) {
-          case 'streak':
-            if (badge.criteria.value <= profile.streaks.daily.current) {
-              shouldAward = true;
-            }
-            break;
-          case 'tasks_completed':
-            if (badge.criteria.value <= profile.stats.tasksCompleted) {
-              shouldAward = true;
-            }
-            break;
-          case 'challenges_completed':
-            if (badge.criteria.value <= profile.stats.challengesCompleted) {
-              shouldAward = true;
-            }
-            break;
-          case 'points':
-            if (badge.criteria.value <= profile.points) {
-              shouldAward = true;
-            }
-            break;
-        }
-
-        if (shouldAward) {
-          await this.awardBadge(userId, badge._id.toString());
-          awardedBadges.push(badge);
-        }
-      }
-
-      return awardedBadges;
+      await this.getOrCreateProfile(userId);
+      return await achievementService.evaluateUser(userId);
     } catch (error: any) {
       logger.error('Error checking badges:', error);
       throw error;
     }
   },
 
+  async getAchievements(userId: string): Promise<AchievementStatus[]> {
+    return achievementService.getAchievements(userId);
+  },
+
   async updatePreferences(userId: string, preferences: any): Promise<IGamification> {
     try {
       const profile = await this.getOrCreateProfile(userId);
@@ -0,0 +1,396 @@
+import mongoose from 'mongoose';
+import PointsLedger from '../models/PointsLedger';
+import Gamification from '../models/Gamification';
+import User from '../models/User';
+import Team from '../models/Team';
+import cacheService from './cacheService';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+
+export type LeaderboardPeriod = 'day' | 'week' | 'month' | 'season';
+
+export interface LeaderboardWindow {
+  period: LeaderboardPeriod;
+  key: string;
+  start: Date;
+  end: Date;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  points: number;
+}
+
+export type LeaderboardScope = 'global' | 'friends' | 'team' | 'cohort';
+
+export interface ScopeOptions {
+  scope: LeaderboardScope;
+  teamId?: string;
+  userIds?: string[];
+}
+
+export interface ScopedLeaderboard {
+  entries: any[];
+  currentUser: any;
+  total: number;
+}
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['day', 'week', 'month', 'season'];
+export const LEADERBOARD_SCOPES: LeaderboardScope[] = ['global', 'friends', 'team', 'cohort'];
+
+const MAX_COHORT_SIZE = 500;
+
+// Entries that count towards windowed boards. Opening balances carry points
+// earned before the ledger and would otherwise land in a single window.
+const RANKED_ENTRIES = { account: 'gamification', reason: { $ne: 'opening_balance' } };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sorted sets outlive their window a little so late reads of the previous
+// period still hit Redis.
+const TTL_SECONDS: Record<LeaderboardPeriod, number> = {
+  day: 3 * 24 * 3600,
+  week: 15 * 24 * 3600,
+  month: 62 * 24 * 3600,
+  season: 190 * 24 * 3600
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * UTC window containing `at`. Weeks start on Monday (ISO-8601) and seasons
+ * are calendar quarters.
+ */
+export const getWindow = (period: LeaderboardPeriod, at: Date = new Date()): LeaderboardWindow => {
+  const year = at.getUTCFullYear();
+  const month = at.getUTCMonth();
+  const date = at.getUTCDate();
+
+  switch (period) {
+    case 'day': {
+      const start = new Date(Date.UTC(year, month, date));
+      return { period, key: `leaderboard:day:${year}-${pad(month + 1)}-${pad(date)}`, start, end: new Date(start.getTime() + DAY_MS) };
+    }
+    case 'week': {
+      const weekday = (at.getUTCDay() + 6) % 7;
+      const start = new Date(Date.UTC(year, month, date - weekday));
+      // ISO week number: the week containing the Thursday.
+      const thursday = new Date(start.getTime() + 3 * DAY_MS);
+      const isoYear = thursday.getUTCFullYear();
+      const week = Math.floor((thursday.getTime() - Date.UTC(isoYear, 0, 1)) / (7 * DAY_MS)) + 1;
+      return { period, key: `leaderboard:week:${isoYear}-W${pad(week)}`, start, end: new Date(start.getTime() + 7 * DAY_MS) };
+    }
+    case 'month':
+      return {
+        period,
+        key: `leaderboard:month:${year}-${pad(month + 1)}`,
+        start: new Date(Date.UTC(year, month, 1)),
+        end: new Date(Date.UTC(year, month + 1, 1))
+      };
+    case 'season': {
+      const quarter = Math.floor(month / 3);
+      return {
+        period,
+        key: `leaderboard:season:${year}-Q${quarter + 1}`,
+        start: new Date(Date.UTC(year, quarter * 3, 1)),
+        end: new Date(Date.UTC(year, quarter * 3 + 3, 1))
+      };
+    }
+  }
+};
+
+const leaderboardService = {
+  parsePeriod(period: string): LeaderboardPeriod | 'all' {
+    if (period === 'all' || LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) {
+      return period as LeaderboardPeriod | 'all';
+    }
+    throw createHttpError(400, `Unknown leaderboard period "${period}"`, [
+      { field: 'period', message: `period must be one of all, ${LEADERBOARD_PERIODS.join(', ')}`, type: 'any.only' }
+    ]);
+  },
+
+  parseScope(scope: string, teamId?: string, userIds?: string): ScopeOptions {
+    if (!LEADERBOARD_SCOPES.includes(scope as LeaderboardScope)) {
+      throw createHttpError(400, `Unknown leaderboard scope "${scope}"`, [
+        { field: 'scope', message: `scope must be one of ${LEADERBOARD_SCOPES.join(', ')}`, type: 'any.only' }
+      ]);
+    }
+    if (scope === 'team' && !mongoose.isValidObjectId(teamId)) {
+      throw createHttpError(400, 'teamId is required for team leaderboards', [
+        { field: 'teamId', message: 'teamId must be a valid id', type: 'any.required' }
+      ]);
+    }
+
+    const ids = (userIds || '').split(',').map((id: string) => id.trim()).filter(Boolean);
+    if (scope === 'cohort') {
+      if (ids.length === 0 || ids.length > MAX_COHORT_SIZE || !ids.every((id: string) => mongoose.isValidObjectId(id))) {
+        throw createHttpError(400, 'Invalid cohort', [
+          { field: 'userIds', message: `userIds must be 1-${MAX_COHORT_SIZE} comma-separated ids`, type: 'any.invalid' }
+        ]);
+      }
+    }
+
+    return { scope: scope as LeaderboardScope, teamId, userIds: ids };
+  },
+
+  /**
+   * Users on a scoped board, always including the requester. Team boards are
+   * only available to members of the team, and cohorts may only name the
+   * requester's friends and teammates.
+   */
+  async resolveScopeMembers(userId: string, options: ScopeOptions): Promise<string[]> {
+    let members: string[] = [];
+
+    switch (options.scope) {
+      case 'friends': {
+        const user = await User.findById(userId).select('friends');
+        if (!user) {
+          throw createHttpError(404, 'User not found');
+        }
+        members = user.friends.map(String);
+        break;
+      }
+      case 'team': {
+        const team = await Team.findOne({ _id: options.teamId, memberIds: userId }).select('memberIds');
+        if (!team) {
+          throw createHttpError(404, 'Team not found');
+        }
+        members = team.memberIds.map(String);
+        break;
+      }
+      case 'cohort': {
+        const [user, teams] = await Promise.all([
+          User.findById(userId).select('friends'),
+          Team.find({ memberIds: userId }).select('memberIds')
+        ]);
+        if (!user) {
+          throw createHttpError(404, 'User not found');
+        }
+        const known = new Set<string>([
+          String(userId),
+          ...user.friends.map(String),
+          ...teams.flatMap((team: any) => team.memberIds.map(String))
+        ]);
+        const unknown = (options.userIds || []).filter((id: string) => !known.has(id));
+        if (unknown.length > 0) {
+          throw createHttpError(403, 'Cohorts may only include your friends and teammates', [
+            { field: 'userIds', message: `Not a friend or teammate: ${unknown.join(', ')}`, type: 'any.invalid' }
+          ]);
+        }
+        members = options.userIds || [];
+        break;
+      }
+      default:
+        throw createHttpError(400, 'Global leaderboards have no member list');
+    }
+
+    return Array.from(new Set([String(userId), ...members]));
+  },
+
+  /** Users who opted out of leaderboards, optionally limited to `userIds`. */
+  async getHiddenUserIds(userIds?: string[]): Promise<Set<string>> {
+    const filter: any = { 'preferences.showLeaderboard': false };
+    if (userIds) {
+      filter.userId = { $in: userIds };
+    }
+    const hidden = await Gamification.distinct('userId', filter);
+    return new Set(hidden.map(String));
+  },
+
+  /**
+   * Ranks the members of a friends, team or cohort board. Opted-out users are
+   * hidden from everyone but themselves, and the requester's own row is
+   * returned as `currentUser` even when it falls outside the top `limit`.
+   */
+  async getScopedLeaderboard(
+    userId: string,
+    options: ScopeOptions,
+    period: LeaderboardPeriod | 'all',
+    limit: number = 100
+  ): Promise<ScopedLeaderboard> {
+    try {
+      const members = await this.resolveScopeMembers(userId, options);
+      const hidden = await this.getHiddenUserIds(members);
+      const visible = members.filter((id: string) => id === String(userId) || !hidden.has(id));
+      const objectIds = visible.map((id: string) => new mongoose.Types.ObjectId(id));
+
+      const [profiles, users] = await Promise.all([
+        Gamification.find({ userId: { $in: objectIds } }).select('userId points level'),
+        User.find({ _id: { $in: objectIds } }).select('name')
+      ]);
+      const profileByUser = new Map(profiles.map((profile: any) => [String(profile.userId), profile]));
+      const userById = new Map(users.map((user: any) => [String(user._id), user]));
+
+      const windowPoints = new Map<string, number>();
+      if (period !== 'all') {
+        const window = getWindow(period);
+        const rows = await PointsLedger.aggregate([
+          { $match: { ...RANKED_ENTRIES, userId: { $in: objectIds }, createdAt: { $gte: window.start, $lt: window.end } } },
+          { $group: { _id: '$userId', points: { $sum: '$points' } } }
+        ]);
+        rows.forEach((row: any) => windowPoints.set(String(row._id), row.points));
+      }
+
+      const ranked = visible
+        // Members whose accounts are gone drop off the board.
+        .filter((id: string) => userById.has(id))
+        .map((id: string) => {
+          const profile: any = profileByUser.get(id);
+          const totalPoints = profile?.points || 0;
+          return {
+            userId: userById.get(id),
+            points: period === 'all' ? totalPoints : windowPoints.get(id) || 0,
+            totalPoints,
+            level: profile?.level || 1
+          };
+        })
+        .sort((a: any, b: any) => b.points - a.points || String(a.userId._id).localeCompare(String(b.userId._id)))
+        .map((entry: any, index: number) => ({ rank: index + 1, ...entry }));
+
+      const boundedLimit = Math.min(Math.max(limit, 1), 500);
+      return {
+        entries: ranked.slice(0, boundedLimit),
+        currentUser: ranked.find((entry: any) => String(entry.userId._id) === String(userId)) || null,
+        total: ranked.length
+      };
+    } catch (error: any) {
+      logger.error('Error fetching scoped leaderboard:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Adds a ledger award (posted at `at`) to every window's sorted set. Sets
+   * that are not loaded yet are left alone; the next read rebuilds them from
+   * the ledger. Awards landing during a rebuild are queued for it.
+   */
+  async recordPoints(userId: string, points: number, at: Date = new Date()): Promise<void> {
+    if (!cacheService.getConnectionStatus() || points === 0) return;
+
+    for (const period of LEADERBOARD_PERIODS) {
+      await cacheService.zIncrByLive(getWindow(period, at).key, points, String(userId), at);
+    }
+  },
+
+  /** Drops a deleted user from every cached window. */
+  async removeUser(userId: string): Promise<void> {
+    await cacheService.zRemFromAll('leaderboard:*', String(userId));
+  },
+
+  /**
+   * Per-user point totals for the window, summed from the ledger. `until`
+   * cuts the window short, for rebuilds taken at a snapshot.
+   */
+  async aggregateWindow(window: LeaderboardWindow, limit?: number, until?: Date): Promise<LeaderboardEntry[]> {
+    const end = until && until < window.end ? until : window.end;
+    const pipeline: any[] = [
+      { $match: { ...RANKED_ENTRIES, createdAt: { $gte: window.start, $lt: end } } },
+      { $group: { _id: '$userId', points: { $sum: '$points' } } },
+      { $match: { points: { $gt: 0 } } },
+      { $sort: { points: -1, _id: 1 } }
+    ];
+    if (limit) {
+      pipeline.push({ $limit: limit });
+    }
+
+    const rows = await PointsLedger.aggregate(pipeline);
+    return rows.map((row: any, index: number) => ({ rank: index + 1, userId: String(row._id), points: row.points }));
+  },
+
+  /**
+   * Top scores for the window from Redis, loading the sorted set from the
+   * ledger on a miss. Without Redis the ledger is aggregated directly.
+   */
+  async getWindowTop(window: LeaderboardWindow, limit: number, hidden: Set<string> = new Set()): Promise<LeaderboardEntry[]> {
+    const visible = (entries: LeaderboardEntry[]): LeaderboardEntry[] =>
+      entries
+        .filter((entry: LeaderboardEntry) => !hidden.has(entry.userId))
+        .slice(0, limit)
+        .map((entry: LeaderboardEntry, index: number) => ({ ...entry, rank: index + 1 }));
+
+    if (cacheService.getConnectionStatus()) {
+      // While another instance rebuilds the set, read the ledger directly.
+      const loaded = (await cacheService.exists(window.key)) || (await cacheService.zRebuild(
+        window.key,
+        async (asOf: Date) => (await this.aggregateWindow(window, undefined, asOf))
+          .map((entry: LeaderboardEntry) => ({ member: entry.userId, score: entry.points })),
+        TTL_SECONDS[window.period]
+      ));
+
+      // Over-fetch so hiding opted-out users still fills the board.
+      const cached = loaded ? await cacheService.zTop(window.key, limit + hidden.size) : null;
+      if (cached) {
+        return visible(cached.map((entry, index: number) => ({ rank: index + 1, userId: entry.member, points: entry.score })));
+      }
+    }
+
+    return visible(await this.aggregateWindow(window, limit + hidden.size));
+  },
+
+  async getLeaderboard(period: LeaderboardPeriod, limit: number = 100): Promise<any[]> {
+    try {
+      const window = getWindow(period);
+      const hidden = await this.getHiddenUserIds();
+      const top = await this.getWindowTop(window, Math.min(Math.max(limit, 1), 500), hidden);
+
+      const profiles = await Gamification.find({ userId: { $in: top.map((entry: LeaderboardEntry) => entry.userId) } })
+        .populate('userId', 'name')
+        .select('userId points level');
+      const byUser = new Map(profiles.map((profile: any) => [String(profile.userId?._id || profile.userId), profile]));
+
+      return top.map((entry: LeaderboardEntry) => {
+        const profile: any = byUser.get(entry.userId);
+        return {
+          rank: entry.rank,
+          userId: profile?.userId || entry.userId,
+          points: entry.points,
+          totalPoints: profile?.points || 0,
+          level: profile?.level || 1
+        };
+      });
+    } catch (error: any) {
+      logger.error('Error fetching windowed leaderboard:', error);
+      throw error;
+    }
+  },
+
+  async getUserRank(userId: string, period: LeaderboardPeriod): Promise<{ rank: number | null; points: number }> {
+    try {
+      const window = getWindow(period);
+      const hidden = await this.getHiddenUserIds();
+      hidden.delete(String(userId));
+
+      // Redis ranks count everyone, so it is only used when nobody is hidden.
+      if (hidden.size === 0 && await cacheService.exists(window.key)) {
+        const cached = await cacheService.zRankOf(window.key, String(userId));
+        if (cached) {
+          return { rank: cached.rank, points: cached.score || 0 };
+        }
+      }
+
+      const [mine] = await PointsLedger.aggregate([
+        { $match: { ...RANKED_ENTRIES, userId: new mongoose.Types.ObjectId(userId), createdAt: { $gte: window.start, $lt: window.end } } },
+        { $group: { _id: null, points: { $sum: '$points' } } }
+      ]);
+      const points = mine?.points || 0;
+      if (points <= 0) {
+        return { rank: null, points: 0 };
+      }
+
+      const hiddenIds = Array.from(hidden).map((id: string) => new mongoose.Types.ObjectId(id));
+      const [ahead] = await PointsLedger.aggregate([
+        { $match: { ...RANKED_ENTRIES, userId: { $nin: hiddenIds }, createdAt: { $gte: window.start, $lt: window.end } } },
+        { $group: { _id: '$userId', points: { $sum: '$points' } } },
+        { $match: { points: { $gt: points } } },
+        { $count: 'count' }
+      ]);
+      return { rank: (ahead?.count || 0) + 1, points };
+    } catch (error: any) {
+      logger.error('Error calculating windowed rank:', error);
+      throw error;
+    }
+  }
+};
+
+export default leaderboardService;
@@ -0,0 +1,52 @@
+import notificationService from './notificationService';
+import logger from '../utils/logger';
+import { levelCurve, LevelProgress } from '../utils/levelCurve';
+
+export interface LevelChange extends LevelProgress {
+  previousLevel: number;
+}
+
+const emit = (userId: string, event: string, payload: any): void => {
+  if ((global as any).io) {
+    (global as any).io.to(`user_${userId}`).emit(event, payload);
+  }
+};
+
+const levelService = {
+  /**
+   * Tells the user about a level change: `level:up` or `level:down` on their
+   * socket room, plus a notification when they went up.
+   */
+  async announce(userId: string, change: LevelChange): Promise<void> {
+    if (change.level === change.previousLevel) return;
+
+    try {
+      const event = change.level > change.previousLevel ? 'level:up' : 'level:down';
+      emit(String(userId), event, {
+        level: change.level,
+        previousLevel: change.previousLevel,
+        xp: change.xp,
+        xpToNextLevel: change.xpToNextLevel
+      });
+
+      if (event === 'level:up') {
+        await notificationService.sendLevelUpNotification(String(userId), change.level, change.previousLevel);
+      }
+      logger.info(`User ${userId} moved from level ${change.previousLevel} to ${change.level}`);
+    } catch (error: any) {
+      logger.error('Error announcing level change:', error);
+    }
+  },
+
+  getCurve(upTo?: number): any {
+    const { type, base, growth, step, table, maxLevel } = levelCurve.config;
+    return {
+      type,
+      maxLevel,
+      parameters: type === 'table' ? { table } : type === 'linear' ? { base, step } : { base, growth },
+      levels: levelCurve.describe(Math.min(Math.max(upTo || 50, 1), maxLevel))
+    };
+  }
+};
+
+export default levelService;
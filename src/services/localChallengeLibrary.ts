@@ -0,0 +1,216 @@
+import { ChallengeRequest, GeneratedChallenge } from './challengeGeneratorService';
+import { DifficultyLevel } from './skillRatingService';
+
+type Category = 'focus' | 'code' | 'study' | 'creative';
+
+interface LocalTemplate {
+  key: string;
+  build(request: ChallengeRequest, level: DifficultyLevel, minutes: number): Omit<GeneratedChallenge, 'difficulty' | 'difficultyScore'>;
+}
+
+// Task types grouped by the kind of work they involve.
+const CATEGORY_BY_TASK_TYPE: Record<string, Category> = {
+  manual: 'focus',
+  notion: 'focus',
+  trello: 'focus',
+  code: 'code',
+  github: 'code',
+  study: 'study',
+  pdf: 'study',
+  google_docs: 'study',
+  creative: 'creative'
+};
+
+// Share of the estimated duration allowed as a time limit, and attempts, per level.
+const TIME_FACTOR: Record<DifficultyLevel, number> = { easy: 1.5, medium: 1.0, hard: 0.75 };
+const ATTEMPTS: Record<DifficultyLevel, number> = { easy: 5, medium: 3, hard: 2 };
+
+const KATAS = [
+  {
+    name: 'Sum of evens',
+    description: 'Write `solution(numbers)` returning the sum of the even numbers in the array.',
+    codeTemplate: 'function solution(numbers) {\n  // your code here\n}\n',
+    testCases: [
+      { input: [[1, 2, 3, 4]], expected: 6 },
+      { input: [[]], expected: 0 },
+      { input: [[-2, 5, 8]], expected: 6 }
+    ],
+    hints: ['Use the remainder operator to test for even numbers.', 'Array.prototype.reduce can accumulate the total.']
+  },
+  {
+    name: 'Palindrome check',
+    description: 'Write `solution(text)` returning true when the text reads the same backwards, ignoring case and spaces.',
+    codeTemplate: 'function solution(text) {\n  // your code here\n}\n',
+    testCases: [
+      { input: ['Never odd or even'], expected: true },
+      { input: ['deepiri'], expected: false },
+      { input: [''], expected: true }
+    ],
+    hints: ['Normalise the text first: lower-case it and drop spaces.', 'Compare the string with its reverse.']
+  },
+  {
+    name: 'Word frequency',
+    description: 'Write `solution(text)` returning the most frequent lower-cased word (first one on ties).',
+    codeTemplate: 'function solution(text) {\n  // your code here\n}\n',
+    testCases: [
+      { input: ['the cat and the hat'], expected: 'the' },
+      { input: ['One two two one'], expected: 'one' },
+      { input: ['solo'], expected: 'solo' }
+    ],
+    hints: ['Split on whitespace and count words in an object or Map.', 'Track the first word reaching the highest count.']
+  },
+  {
+    name: 'Chunk an array',
+    description: 'Write `solution(items, size)` splitting the array into chunks of the given size.',
+    codeTemplate: 'function solution(items, size) {\n  // your code here\n}\n',
+    testCases: [
+      { input: [[1, 2, 3, 4, 5], 2], expected: [[1, 2], [3, 4], [5]] },
+      { input: [[], 3], expected: [] },
+      { input: [['a', 'b'], 5], expected: [['a', 'b']] }
+    ],
+    hints: ['Step through the array in increments of `size`.', 'Array.prototype.slice returns a copy of a range.']
+  }
+];
+
+const CREATIVE_CONSTRAINTS = [
+  'Use only three colours or three core ideas.',
+  'Finish a rough version first, then spend a fifth of the time refining.',
+  'Include one element you have never used before.',
+  'Explain the result in a single sentence when you are done.'
+];
+
+const TEMPLATES: Record<Category, LocalTemplate[]> = {
+  focus: [
+    {
+      key: 'beat-the-clock',
+      build: ({ task }, level, minutes) => ({
+        type: 'timed_completion',
+        title: `Beat the clock: ${task.title}`,
+        description: `Finish "${task.title}" within ${minutes} minutes without switching tasks.`,
+        configuration: {
+          timeLimit: minutes,
+          attempts: 1,
+          hints: ['Close unrelated tabs and notifications before starting.', 'Write down the first three steps before you begin.']
+        }
+      })
+    },
+    {
+      key: 'focus-sprints',
+      build: ({ task }, level, minutes) => {
+        const sprints = level === 'easy' ? 1 : level === 'medium' ? 2 : 3;
+        return {
+          type: 'streak',
+          title: `Focus sprints: ${task.title}`,
+          description: `Work on "${task.title}" in ${sprints} uninterrupted sprint${sprints > 1 ? 's' : ''} of ${Math.max(5, Math.round(minutes / sprints))} minutes.`,
+          configuration: {
+            timeLimit: minutes,
+            attempts: ATTEMPTS[level],
+            puzzleData: { sprints, sprintMinutes: Math.max(5, Math.round(minutes / sprints)) },
+            hints: ['Take a two-minute break between sprints, away from the screen.']
+          }
+        };
+      }
+    }
+  ],
+  code: KATAS.map((kata) => ({
+    key: `kata-${kata.name.toLowerCase().replace(/\s+/g, '-')}`,
+    build: ({ task }, level, minutes) => ({
+      type: 'coding_challenge',
+      title: `Warm-up kata: ${kata.name}`,
+      description: `${kata.description} A quick warm-up before "${task.title}".`,
+      configuration: {
+        timeLimit: Math.min(minutes, level === 'hard' ? 10 : 20),
+        attempts: ATTEMPTS[level],
+        codeTemplate: kata.codeTemplate,
+        testCases: kata.testCases.map((testCase) => JSON.stringify(testCase)),
+        hints: kata.hints
+      }
+    })
+  })),
+  study: [
+    {
+      key: 'active-recall',
+      build: ({ task }, level, minutes) => ({
+        type: 'timed_completion',
+        title: `Active recall: ${task.title}`,
+        description: `Study "${task.title}" for ${minutes} minutes, then write ${level === 'hard' ? 'five' : 'three'} key points from memory.`,
+        configuration: {
+          timeLimit: minutes,
+          attempts: 1,
+          hints: ['Skim headings first to build a map of the material.', 'Explain each key point as if teaching a friend.']
+        }
+      })
+    },
+    {
+      key: 'pomodoro-review',
+      build: ({ task }, level, minutes) => ({
+        type: 'streak',
+        title: `Review streak: ${task.title}`,
+        description: `Alternate reading and summarising "${task.title}" in ${level === 'easy' ? 'two' : 'three'} rounds.`,
+        configuration: {
+          timeLimit: minutes,
+          attempts: ATTEMPTS[level],
+          puzzleData: { rounds: level === 'easy' ? 2 : 3 },
+          hints: ['Summaries should fit on a single index card.']
+        }
+      })
+    }
+  ],
+  creative: [
+    {
+      key: 'constraint-sprint',
+      build: ({ task }, level, minutes) => {
+        const count = level === 'easy' ? 1 : level === 'medium' ? 2 : 3;
+        const offset = hash(task.title) % CREATIVE_CONSTRAINTS.length;
+        const constraints = Array.from({ length: count }, (_value, index) =>
+          CREATIVE_CONSTRAINTS[(offset + index) % CREATIVE_CONSTRAINTS.length]);
+        return {
+          type: 'custom',
+          title: `Constraint sprint: ${task.title}`,
+          description: `Create "${task.title}" in ${minutes} minutes while following: ${constraints.join(' ')}`,
+          configuration: {
+            timeLimit: minutes,
+            attempts: 1,
+            puzzleData: { constraints },
+            hints: ['Sketch three quick options before committing to one.']
+          }
+        };
+      }
+    }
+  ]
+};
+
+// FNV-1a, so the same task always maps to the same template.
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193) >>> 0;
+  }
+  return result;
+}
+
+/** Base reward for a 1-10 difficulty score: 60 to 150 points. */
+export const rewardForDifficulty = (difficultyScore: number = 5): number =>
+  50 + Math.min(10, Math.max(1, Math.round(difficultyScore))) * 10;
+
+export const buildLocalChallenge = (request: ChallengeRequest): GeneratedChallenge => {
+  const { task, target } = request;
+  const category = CATEGORY_BY_TASK_TYPE[task.type || 'manual'] || 'focus';
+  const templates = TEMPLATES[category];
+  const template = templates[hash(String(task._id || task.title)) % templates.length];
+
+  const level: DifficultyLevel = target?.difficulty || 'medium';
+  const difficultyScore = target?.difficultyScore || 5;
+  const minutes = Math.max(5, Math.round((task.estimatedDuration || 30) * TIME_FACTOR[level]));
+
+  return {
+    ...template.build(request, level, minutes),
+    difficulty: level,
+    difficultyScore,
+    pointsReward: rewardForDifficulty(difficultyScore),
+    model: `local:${template.key}`
+  };
+};
+
+export default { buildLocalChallenge, rewardForDifficulty };
@@ -199,6 +199,23 @@ class NotificationService {
     }
   }
 
+  async createChallengeNotification(userId: string, type: NotificationType, challengeId: string, message: string): Promise<INotification> {
+    try {
+      const notification = await Notification.createChallengeNotification(
+        userId,
+        type,
+        challengeId,
+        message
+      );
+
+      logger.info(`Created challenge notification for user ${userId}: ${type}`);
+      return notification;
+    } catch (error: any) {
+      logger.error('Failed to create challenge notification:', error);
+      throw error;
+    }
+  }
+
   async scheduleAdventureReminders(adventure: any): Promise<void> {
     try {
       const userId = adventure.userId.toString();
@@ -314,6 +331,21 @@ class NotificationService {
     }
   }
 
+  async sendLevelUpNotification(userId: string, level: number, previousLevel: number): Promise<void> {
+    try {
+      await this.createGamificationNotification(
+        userId,
+        'level_up',
+        `Level up! You reached level ${level}!`,
+        { metadata: { level, previousLevel } }
+      );
+
+      logger.info(`Sent level up notification to user ${userId}`);
+    } catch (error: any) {
+      logger.error('Failed to send level up notification:', error);
+    }
+  }
+
   async sendStreakReminder(userId: string, streak: number): Promise<void> {
     try {
       await this.createGamificationNotification(
@@ -329,6 +361,21 @@ class NotificationService {
     }
   }
 
+  async sendChallengeExpiredNotification(userId: string, challengeId: string, title: string): Promise<void> {
+    try {
+      await this.createChallengeNotification(
+        userId,
+        'challenge_expired',
+        challengeId,
+        `Your challenge "${title}" has expired.`
+      );
+
+      logger.info(`Sent challenge expired notification to user ${userId}`);
+    } catch (error: any) {
+      logger.error('Failed to send challenge expired notification:', error);
+    }
+  }
+
   async cleanupOldNotifications(daysOld: number = 30): Promise<any> {
     try {
       const result = await Notification.cleanup(daysOld);
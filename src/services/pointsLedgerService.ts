@@ -0,0 +1,396 @@
+import mongoose from 'mongoose';
+import PointsLedger, { IPointsLedger, LedgerAccount, PointsReason, PointsSource } from '../models/PointsLedger';
+import Gamification, { IGamification } from '../models/Gamification';
+import User from '../models/User';
+import leaderboardService from './leaderboardService';
+import levelService, { LevelChange } from './levelService';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+import { paginate, Page, PageRequest } from '../utils/pagination';
+import { levelCurve } from '../utils/levelCurve';
+
+export interface AwardInput {
+  userId: string;
+  points: number;
+  /** Defaults to `points`. */
+  xp?: number;
+  reason: PointsReason;
+  source: PointsSource;
+  sourceId?: string;
+  description?: string;
+  /** Same key, same award: repeated calls are no-ops until the entry is reversed. */
+  idempotencyKey: string;
+  account?: LedgerAccount;
+  reversalOf?: string;
+}
+
+export interface AwardResult {
+  entry: IPointsLedger;
+  applied: boolean;
+}
+
+export interface ReconcileReport {
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  profilesChecked: number;
+  profilesFixed: number;
+  usersChecked: number;
+  usersFixed: number;
+  openingBalances: number;
+  skipped: number;
+}
+
+const RECONCILE_BATCH_SIZE = parseInt(process.env.POINTS_RECONCILE_BATCH_SIZE || '500', 10);
+
+// When the ledger went live. Only accounts created before it can hold points
+// the ledger never saw; without it no opening balances are booked.
+const LEDGER_CUTOVER = process.env.POINTS_LEDGER_CUTOVER ? new Date(process.env.POINTS_LEDGER_CUTOVER) : null;
+
+const predatesLedger = (createdAt?: Date): boolean =>
+  !!LEDGER_CUTOVER && !!createdAt && createdAt.getTime() < LEDGER_CUTOVER.getTime();
+
+const isDuplicateKey = (error: any): boolean => error?.code === 11000;
+
+const pointsLedgerService = {
+  /**
+   * Posts an award and applies it to the account's balance. The ledger entry
+   * is written first, so a failure afterwards leaves a balance that the
+   * reconciliation job corrects rather than an award that is lost.
+   */
+  async award(input: AwardInput): Promise<AwardResult> {
+    try {
+      const account = input.account || 'gamification';
+      let entry: IPointsLedger;
+      try {
+        entry = await PointsLedger.create({
+          userId: input.userId,
+          account,
+          points: input.points,
+          xp: input.xp ?? input.points,
+          reason: input.reason,
+          source: input.source,
+          sourceId: input.sourceId,
+          description: input.description?.slice(0, 200),
+          idempotencyKey: input.idempotencyKey,
+          reversalOf: input.reversalOf
+        });
+      } catch (error: any) {
+        if (!isDuplicateKey(error)) throw error;
+        const existing = await PointsLedger.findOne({ idempotencyKey: input.idempotencyKey, status: 'posted' });
+        if (!existing) throw error;
+        logger.debug(`Points award ${input.idempotencyKey} already posted`);
+        return { entry: existing, applied: false };
+      }
+
+      await this.applyToBalance(entry);
+      return { entry, applied: true };
+    } catch (error: any) {
+      logger.error('Error awarding points:', error);
+      throw error;
+    }
+  },
+
+  async applyToBalance(entry: IPointsLedger): Promise<void> {
+    const userId = String(entry.userId);
+
+    switch (entry.account) {
+      case 'gamification': {
+        const change = await this.applyToProfile(userId, entry.points, entry.xp);
+        await leaderboardService.recordPoints(userId, entry.points, entry.createdAt);
+        await levelService.announce(userId, change);
+        break;
+      }
+      case 'adventure':
+        await User.updateOne({ _id: userId }, { $inc: { 'stats.totalPoints': entry.points } });
+        break;
+      case 'momentum':
+        // Momentum balances live in the engagement service.
+        break;
+    }
+  },
+
+  /**
+   * Adds points and XP to the profile in one atomic update, then derives the
+   * level fields from the stored total. The level write is conditional on
+   * that total, so a concurrent award's newer level is never overwritten.
+   */
+  async applyToProfile(userId: string, points: number, xp: number): Promise<LevelChange> {
+    let profile = await Gamification.findOne({ userId });
+    if (!profile) {
+      try {
+        profile = await Gamification.create({ userId });
+      } catch (error: any) {
+        if (!isDuplicateKey(error)) throw error;
+        profile = await Gamification.findOne({ userId });
+      }
+    }
+    if (profile!.totalXp === undefined || profile!.totalXp === null) {
+      await Gamification.updateOne(
+        { _id: profile!._id, totalXp: { $exists: false } },
+        { $set: { totalXp: levelCurve.totalXpFor(profile!.level, profile!.xp) } }
+      );
+    }
+
+    // Points and XP never go negative; reversals can take levels away. The
+    // pre-image gives the level this award started from, even when other
+    // awards landed since the profile was read.
+    const before = await Gamification.findOneAndUpdate(
+      { _id: profile!._id },
+      [{
+        $set: {
+          points: { $max: [0, { $add: ['$points', points] }] },
+          totalXp: { $max: [0, { $add: ['$totalXp', xp] }] },
+          updatedAt: '$$NOW'
+        }
+      }],
+      { new: false }
+    );
+
+    const previousTotal = before!.totalXp || 0;
+    const totalXp = Math.max(0, previousTotal + xp);
+    const progress = levelCurve.progressFor(totalXp);
+    await Gamification.updateOne(
+      { _id: before!._id, totalXp },
+      { $set: { level: progress.level, xp: progress.xp, xpToNextLevel: progress.xpToNextLevel } }
+    );
+    return { ...progress, previousLevel: levelCurve.progressFor(previousTotal).level };
+  },
+
+  /**
+   * Deletes an entry whose external effect could not be delivered, freeing
+   * its key for a retry. Only momentum entries qualify: they never touch a
+   * local balance.
+   */
+  async discard(entry: IPointsLedger): Promise<void> {
+    if (entry.account !== 'momentum') {
+      throw new Error(`Cannot discard a ${entry.account} ledger entry`);
+    }
+    await PointsLedger.deleteOne({ _id: entry._id });
+  },
+
+  /**
+   * Cancels a posted entry with an opposite entry and takes it off the
+   * balance. Reversing twice is a no-op that returns the first reversal.
+   */
+  async reverse(entryId: string, description?: string): Promise<IPointsLedger> {
+    try {
+      const original = mongoose.isValidObjectId(entryId) ? await PointsLedger.findById(entryId) : null;
+      if (!original) {
+        throw createHttpError(404, 'Ledger entry not found');
+      }
+      if (original.reason === 'reversal') {
+        throw createHttpError(400, 'A reversal cannot be reversed');
+      }
+      if (original.status === 'reversed') {
+        const existing = await PointsLedger.findById(original.reversedBy);
+        if (existing) return existing;
+      }
+
+      const { entry } = await this.award({
+        userId: String(original.userId),
+        account: original.account,
+        points: -original.points,
+        xp: -original.xp,
+        reason: 'reversal',
+        source: original.source,
+        sourceId: original.sourceId ? String(original.sourceId) : undefined,
+        description: description || `Reversal of ${original.reason}`,
+        idempotencyKey: `reversal:${original._id}`,
+        reversalOf: String(original._id)
+      });
+
+      await PointsLedger.updateOne(
+        { _id: original._id },
+        { $set: { status: 'reversed', reversedBy: entry._id, reversedAt: entry.createdAt } }
+      );
+
+      logger.info(`Ledger entry ${entryId} reversed by ${entry._id}`);
+      return entry;
+    } catch (error: any) {
+      logger.error('Error reversing ledger entry:', error);
+      throw error;
+    }
+  },
+
+  /** Reverses the posted entry for `idempotencyKey`, if there is one. */
+  async reverseByKey(idempotencyKey: string, description?: string): Promise<IPointsLedger | null> {
+    const entry = await PointsLedger.findOne({ idempotencyKey, status: 'posted' });
+    return entry ? this.reverse(String(entry._id), description) : null;
+  },
+
+  async getUserEntries(userId: string, filters: PageRequest & { account?: string } = {}): Promise<Page<IPointsLedger>> {
+    try {
+      const filter: any = { userId };
+      if (filters.account) {
+        filter.account = filters.account;
+      }
+      return await paginate<IPointsLedger>(PointsLedger, filter, { field: 'createdAt', direction: -1 }, filters);
+    } catch (error: any) {
+      logger.error('Error fetching ledger entries:', error);
+      throw error;
+    }
+  },
+
+  async sumByUser(account: LedgerAccount, userIds: mongoose.Types.ObjectId[]): Promise<Map<string, { points: number; xp: number; opened: boolean }>> {
+    const rows = await PointsLedger.aggregate([
+      { $match: { account, userId: { $in: userIds } } },
+      {
+        $group: {
+          _id: '$userId',
+          points: { $sum: '$points' },
+          xp: { $sum: '$xp' },
+          opened: { $max: { $cond: [{ $eq: ['$reason', 'opening_balance'] }, 1, 0] } }
+        }
+      }
+    ]);
+    return new Map(rows.map((row: any) => [String(row._id), { points: row.points, xp: row.xp, opened: row.opened === 1 }]));
+  },
+
+  /**
+   * Rebuilds gamification profiles and adventure totals from the ledger.
+   * Accounts created before POINTS_LEDGER_CUTOVER get what they held then
+   * booked once as an opening balance; newer accounts are the ledger sum.
+   * Without a cutover, accounts with no opening balance are left alone.
+   * Levels are recomputed on the current curve, which is how a curve change
+   * reaches existing profiles.
+   */
+  async reconcile(options: { dryRun?: boolean; userId?: string } = {}): Promise<ReconcileReport> {
+    const dryRun = options.dryRun === true;
+    const report: ReconcileReport = {
+      dryRun,
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      profilesChecked: 0,
+      profilesFixed: 0,
+      usersChecked: 0,
+      usersFixed: 0,
+      openingBalances: 0,
+      skipped: 0
+    };
+
+    if (!LEDGER_CUTOVER) {
+      logger.warn('POINTS_LEDGER_CUTOVER is not set; accounts without an opening balance are not reconciled');
+    }
+
+    try {
+      const profileFilter: any = options.userId ? { userId: options.userId } : {};
+      let lastId: any = null;
+      while (true) {
+        const profiles = await Gamification.find(lastId ? { ...profileFilter, _id: { $gt: lastId } } : profileFilter)
+          .sort({ _id: 1 })
+          .limit(RECONCILE_BATCH_SIZE);
+        if (profiles.length === 0) break;
+        lastId = profiles[profiles.length - 1]._id;
+
+        const sums = await this.sumByUser('gamification', profiles.map((profile: IGamification) => profile.userId));
+        for (const profile of profiles) {
+          report.profilesChecked += 1;
+          const userId = String(profile.userId);
+          const sum = sums.get(userId) || { points: 0, xp: 0, opened: false };
+
+          if (!sum.opened && !LEDGER_CUTOVER) {
+            report.skipped += 1;
+            continue;
+          }
+          if (!sum.opened && predatesLedger(profile.createdAt)) {
+            const opening = { points: profile.points - sum.points, xp: (profile.totalXp ?? levelCurve.totalXpFor(profile.level, profile.xp)) - sum.xp };
+            report.openingBalances += 1;
+            if (!dryRun) {
+              await this.postOpeningBalance(userId, 'gamification', opening.points, opening.xp);
+            }
+            sum.points += opening.points;
+            sum.xp += opening.xp;
+          }
+
+          const totalXp = Math.max(0, sum.xp);
+          const expected = { points: Math.max(0, sum.points), totalXp, ...levelCurve.progressFor(totalXp) };
+          const drifted = profile.points !== expected.points
+            || profile.totalXp !== expected.totalXp
+            || profile.level !== expected.level
+            || profile.xp !== expected.xp
+            || profile.xpToNextLevel !== expected.xpToNextLevel;
+          if (drifted) {
+            report.profilesFixed += 1;
+            logger.warn(`Gamification profile for user ${userId} drifted from the ledger`, {
+              actual: { points: profile.points, totalXp: profile.totalXp, level: profile.level, xp: profile.xp },
+              expected
+            });
+            if (!dryRun) {
+              await Gamification.updateOne({ _id: profile._id }, { $set: { ...expected, updatedAt: new Date() } });
+            }
+          }
+        }
+      }
+
+      const userFilter: any = options.userId ? { _id: options.userId } : {};
+      lastId = null;
+      while (true) {
+        const users = await User.find(lastId ? { ...userFilter, _id: { $gt: lastId } } : userFilter)
+          .sort({ _id: 1 })
+          .limit(RECONCILE_BATCH_SIZE)
+          .select('stats.totalPoints createdAt');
+        if (users.length === 0) break;
+        lastId = users[users.length - 1]._id;
+
+        const sums = await this.sumByUser('adventure', users.map((user: any) => user._id));
+        for (const user of users) {
+          report.usersChecked += 1;
+          const userId = String(user._id);
+          const actual = user.stats?.totalPoints || 0;
+          const sum = sums.get(userId) || { points: 0, xp: 0, opened: false };
+
+          if (!sum.opened && !LEDGER_CUTOVER) {
+            report.skipped += 1;
+            continue;
+          }
+          if (!sum.opened && predatesLedger(user.createdAt)) {
+            report.openingBalances += 1;
+            if (!dryRun) {
+              await this.postOpeningBalance(userId, 'adventure', actual - sum.points, 0);
+            }
+            sum.points = actual;
+          }
+
+          if (actual !== sum.points) {
+            report.usersFixed += 1;
+            logger.warn(`Adventure points for user ${userId} drifted from the ledger`, { actual, expected: sum.points });
+            if (!dryRun) {
+              await User.updateOne({ _id: user._id }, { $set: { 'stats.totalPoints': sum.points } });
+            }
+          }
+        }
+      }
+
+      report.finishedAt = new Date();
+      logger.info(`Points reconciliation ${dryRun ? '(dry run) ' : ''}finished`, report);
+      return report;
+    } catch (error: any) {
+      logger.error('Error reconciling points:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Books what a balance held before the ledger existed. Written straight to
+   * the ledger: the balance already includes it.
+   */
+  async postOpeningBalance(userId: string, account: LedgerAccount, points: number, xp: number): Promise<void> {
+    try {
+      await PointsLedger.create({
+        userId,
+        account,
+        points,
+        xp,
+        reason: 'opening_balance',
+        source: 'adjustment',
+        description: 'Balance before the points ledger',
+        idempotencyKey: `opening:${account}:${userId}`
+      });
+    } catch (error: any) {
+      if (!isDuplicateKey(error)) throw error;
+    }
+  }
+};
+
+export default pointsLedgerService;
@@ -0,0 +1,82 @@
+import cron, { ScheduledTask } from 'node-cron';
+import taskService from './taskService';
+import challengeService from './challengeService';
+import duelService from './duelService';
+import cascadeService from './cascadeService';
+import pointsLedgerService from './pointsLedgerService';
+import logger from '../utils/logger';
+
+type JobHandler = () => Promise<any>;
+
+class SchedulerService {
+  private jobs: Map<string, ScheduledTask> = new Map();
+  private running: Set<string> = new Set();
+
+  initialize(): void {
+    try {
+      this.register(
+        'recurring-tasks',
+        process.env.RECURRING_TASKS_CRON || '*/15 * * * *',
+        () => taskService.advanceRecurringSeries()
+      );
+      this.register(
+        'challenge-expiry',
+        process.env.CHALLENGE_EXPIRY_CRON || '*/5 * * * *',
+        () => challengeService.expireStaleChallenges()
+      );
+      this.register(
+        'duel-finalize',
+        process.env.DUEL_FINALIZE_CRON || '* * * * *',
+        () => duelService.finalizeOverdueDuels()
+      );
+      this.register(
+        'orphan-cleanup',
+        process.env.ORPHAN_CLEANUP_CRON || '30 3 * * *',
+        () => cascadeService.cleanupOrphans()
+      );
+      this.register(
+        'points-reconcile',
+        process.env.POINTS_RECONCILE_CRON || '45 3 * * *',
+        () => pointsLedgerService.reconcile()
+      );
+      logger.info('Scheduler service initialized');
+    } catch (error: any) {
+      logger.error('Failed to initialize scheduler service:', error);
+    }
+  }
+
+  register(name: string, expression: string, handler: JobHandler): void {
+    if (!cron.validate(expression)) {
+      throw new Error(`Invalid cron expression for job ${name}: ${expression}`);
+    }
+
+    this.jobs.get(name)?.stop();
+    this.jobs.set(name, cron.schedule(expression, () => this.run(name, handler)));
+    logger.info(`Scheduled job registered: ${name} (${expression})`);
+  }
+
+  async run(name: string, handler: JobHandler): Promise<void> {
+    // Skip overlapping runs when a previous tick is still in progress.
+    if (this.running.has(name)) {
+      logger.warn(`Scheduled job ${name} still running, skipping tick`);
+      return;
+    }
+
+    this.running.add(name);
+    try {
+      await handler();
+    } catch (error: any) {
+      logger.error(`Scheduled job ${name} failed:`, error);
+    } finally {
+      this.running.delete(name);
+    }
+  }
+
+  stop(): void {
+    this.jobs.forEach((job: ScheduledTask) => job.stop());
+    this.jobs.clear();
+    logger.info('Scheduler service stopped');
+  }
+}
+
+export default new SchedulerService();
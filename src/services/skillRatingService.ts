@@ -0,0 +1,191 @@
+import SkillRating, { ISkillRating } from '../models/SkillRating';
+import Gamification from '../models/Gamification';
+import { IChallenge } from '../models/Challenge';
+import logger from '../utils/logger';
+
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+export interface DifficultyTarget {
+  difficulty: DifficultyLevel;
+  difficultyScore: number;
+  adaptive: boolean;
+  rating: number;
+  deviation: number;
+}
+
+// Glicko-1 constants. Challenges are treated as opponents with a fixed, fairly
+// certain rating derived from their 1-10 difficulty score.
+const INITIAL_RATING = 1500;
+const INITIAL_DEVIATION = 350;
+const MIN_DEVIATION = 50;
+const CHALLENGE_DEVIATION = 100;
+const DAILY_DEVIATION_GROWTH = 10;
+const Q = Math.LN10 / 400;
+
+// Difficulty is chosen so the expected success rate stays around this value.
+const TARGET_SUCCESS = 0.7;
+const MAX_HISTORY = 100;
+
+const FIXED_SCORES: Record<DifficultyLevel, number> = { easy: 3, medium: 5, hard: 8 };
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const g = (deviation: number): number => 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+
+const expectedScore = (rating: number, opponent: number, opponentDeviation: number): number =>
+  1 / (1 + Math.pow(10, (-g(opponentDeviation) * (rating - opponent)) / 400));
+
+const scoreToRating = (difficultyScore: number): number => 1000 + ((clamp(difficultyScore, 1, 10) - 1) * 1000) / 9;
+
+const ratingToScore = (rating: number): number => clamp(Math.round(1 + ((rating - 1000) * 9) / 1000), 1, 10);
+
+const levelOf = (difficultyScore: number): DifficultyLevel =>
+  difficultyScore <= 3 ? 'easy' : difficultyScore <= 7 ? 'medium' : 'hard';
+
+const skillRatingService = {
+  async getRating(userId: string): Promise<ISkillRating> {
+    const existing = await SkillRating.findOne({ userId });
+    return existing || new SkillRating({ userId, rating: INITIAL_RATING, deviation: INITIAL_DEVIATION });
+  },
+
+  /**
+   * Turns a finished challenge into a 0-1 result: accuracy, discounted for
+   * using most of the time limit and for unlocked hints. Unstarted expiries,
+   * open challenges and self-reported completions are not rated.
+   */
+  outcomeOf(challenge: IChallenge): number | null {
+    if (challenge.status === 'failed') return 0;
+    if (challenge.status === 'expired') return challenge.startedAt ? 0 : null;
+    if (challenge.status !== 'completed' || !challenge.completionData?.graded) return null;
+
+    let outcome = (challenge.completionData?.accuracy ?? 100) / 100;
+
+    const timeLimit = challenge.configuration?.timeLimit;
+    const completedAt = challenge.completionData?.completedAt;
+    if (timeLimit && challenge.startedAt && completedAt) {
+      const used = (completedAt.getTime() - challenge.startedAt.getTime()) / (timeLimit * MINUTE_MS);
+      if (used > 0.5) {
+        outcome *= Math.max(0.7, 1 - 0.6 * (used - 0.5));
+      }
+    }
+
+    const hintsUsed = challenge.hintsRevealed || 0;
+    if (hintsUsed > 0) {
+      const hintCount = Math.max(hintsUsed, (challenge.configuration?.hints || []).length);
+      outcome *= 1 - (0.3 * hintsUsed) / hintCount;
+    }
+
+    return clamp(outcome, 0, 1);
+  },
+
+  /**
+   * Applies one Glicko rating period for a finished challenge. Rating errors
+   * are logged and never fail the completion that triggered them.
+   */
+  async recordOutcome(userId: string, challenge: IChallenge): Promise<void> {
+    try {
+      const outcome = this.outcomeOf(challenge);
+      if (outcome === null) return;
+
+      const skill = await this.getRating(userId);
+      const challengeId = String(challenge._id);
+      if (skill.history.some((entry: any) => String(entry.challengeId) === challengeId)) {
+        return;
+      }
+
+      const now = new Date();
+      let deviation = skill.deviation;
+      if (skill.lastRatedAt) {
+        const idleDays = (now.getTime() - skill.lastRatedAt.getTime()) / DAY_MS;
+        deviation = Math.min(INITIAL_DEVIATION, Math.sqrt(deviation * deviation + DAILY_DEVIATION_GROWTH * DAILY_DEVIATION_GROWTH * idleDays));
+      }
+
+      const difficultyScore = challenge.difficultyScore || 5;
+      const opponent = scoreToRating(difficultyScore);
+      const gj = g(CHALLENGE_DEVIATION);
+      const expected = expectedScore(skill.rating, opponent, CHALLENGE_DEVIATION);
+      const dSquared = 1 / (Q * Q * gj * gj * expected * (1 - expected));
+      const precision = 1 / (deviation * deviation) + 1 / dSquared;
+
+      const ratingBefore = skill.rating;
+      skill.rating = Math.round((skill.rating + (Q / precision) * gj * (outcome - expected)) * 100) / 100;
+      skill.deviation = Math.max(MIN_DEVIATION, Math.round(Math.sqrt(1 / precision) * 100) / 100);
+      skill.challengesRated += 1;
+      skill.lastRatedAt = now;
+      skill.history.push({
+        challengeId: challenge._id as any,
+        difficultyScore,
+        outcome: Math.round(outcome * 1000) / 1000,
+        ratingBefore,
+        ratingAfter: skill.rating,
+        deviation: skill.deviation,
+        ratedAt: now
+      });
+      if (skill.history.length > MAX_HISTORY) {
+        skill.history.splice(0, skill.history.length - MAX_HISTORY);
+      }
+
+      await skill.save();
+      logger.info(`Skill rating for user ${userId}: ${ratingBefore} -> ${skill.rating} (outcome ${outcome.toFixed(2)})`);
+    } catch (error: any) {
+      logger.error('Error updating skill rating:', error);
+    }
+  },
+
+  /**
+   * Difficulty for the user's next challenge. A fixed preference wins;
+   * otherwise the challenge rating is chosen for a ~70% expected success rate.
+   */
+  async recommendDifficulty(userId: string): Promise<DifficultyTarget> {
+    const [skill, gamification] = await Promise.all([
+      this.getRating(userId),
+      Gamification.findOne({ userId }).select('preferences.challengeDifficulty').lean()
+    ]);
+    const preference = (gamification as any)?.preferences?.challengeDifficulty || 'adaptive';
+
+    if (preference !== 'adaptive') {
+      return {
+        difficulty: preference,
+        difficultyScore: FIXED_SCORES[preference as DifficultyLevel],
+        adaptive: false,
+        rating: skill.rating,
+        deviation: skill.deviation
+      };
+    }
+
+    const targetRating = skill.rating - (400 * Math.log10(TARGET_SUCCESS / (1 - TARGET_SUCCESS))) / g(CHALLENGE_DEVIATION);
+    const difficultyScore = ratingToScore(targetRating);
+    return {
+      difficulty: levelOf(difficultyScore),
+      difficultyScore,
+      adaptive: true,
+      rating: skill.rating,
+      deviation: skill.deviation
+    };
+  },
+
+  async getRatingSummary(userId: string, limit: number = 50): Promise<any> {
+    try {
+      const [skill, recommended] = await Promise.all([
+        this.getRating(userId),
+        this.recommendDifficulty(userId)
+      ]);
+      return {
+        rating: skill.rating,
+        deviation: skill.deviation,
+        challengesRated: skill.challengesRated,
+        lastRatedAt: skill.lastRatedAt,
+        recommended,
+        history: skill.history.slice(-limit).reverse()
+      };
+    } catch (error: any) {
+      logger.error('Error fetching skill rating:', error);
+      throw error;
+    }
+  }
+};
+
+export default skillRatingService;
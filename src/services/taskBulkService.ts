@@ -0,0 +1,316 @@
+import mongoose, { ClientSession } from 'mongoose';
+import Task, { ITask } from '../models/Task';
+import taskService from './taskService';
+import taskDependencyService from './taskDependencyService';
+import taskHistoryService from './taskHistoryService';
+import cascadeService from './cascadeService';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+import { VALIDATION_OPTIONS, toFieldErrors } from '../middleware/validate';
+import { createTaskSchema, updateTaskSchema, completeTaskSchema, retagSchema } from '../validators/taskValidators';
+
+export type BulkOperationType = 'create' | 'update' | 'complete' | 'delete' | 'retag';
+
+export interface BulkOperation {
+  op: BulkOperationType;
+  id?: string;
+  data?: any;
+  tags?: {
+    add?: string[];
+    remove?: string[];
+  };
+}
+
+export interface BulkOperationResult {
+  index: number;
+  op: BulkOperationType;
+  id?: string;
+  success: boolean;
+  data?: any;
+  error?: string;
+}
+
+export interface BulkResult {
+  atomic: boolean;
+  committed: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkOperationResult[];
+}
+
+export const MAX_BULK_OPERATIONS = 100;
+
+const OPERATIONS: BulkOperationType[] = ['create', 'update', 'complete', 'delete', 'retag'];
+
+// Per-operation payload schemas; same whitelist as the single-task endpoints.
+const DATA_SCHEMAS: Partial<Record<BulkOperationType, any>> = {
+  create: createTaskSchema,
+  update: updateTaskSchema,
+  complete: completeTaskSchema
+};
+
+// Follow-up work that must only happen once the batch is durable.
+type AfterCommit = () => Promise<void>;
+
+const taskBulkService = {
+  validateOperations(operations: BulkOperation[]): void {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw createHttpError(400, 'At least one operation is required');
+    }
+    if (operations.length > MAX_BULK_OPERATIONS) {
+      throw createHttpError(400, `A batch may contain at most ${MAX_BULK_OPERATIONS} operations`);
+    }
+
+    const errors: any[] = [];
+    operations.forEach((operation: BulkOperation, index: number) => {
+      if (!operation || !OPERATIONS.includes(operation.op)) {
+        errors.push({ index, message: `Unsupported operation: ${operation?.op}` });
+        return;
+      }
+      if (operation.op !== 'create' && !operation.id) {
+        errors.push({ index, message: `Task ID is required for ${operation.op}` });
+        return;
+      }
+      if (operation.op === 'retag') {
+        const { error, value } = retagSchema.validate(operation.tags ?? {}, VALIDATION_OPTIONS);
+        if (error) {
+          toFieldErrors(error).forEach((fieldError) => errors.push({ index, ...fieldError, field: fieldError.field ? `tags.${fieldError.field}` : 'tags' }));
+          return;
+        }
+        operation.tags = value;
+        return;
+      }
+
+      const schema = DATA_SCHEMAS[operation.op];
+      if (!schema) return;
+      const { error, value } = schema.validate(operation.data ?? {}, VALIDATION_OPTIONS);
+      if (error) {
+        toFieldErrors(error).forEach((fieldError) => errors.push({ index, ...fieldError, field: `data.${fieldError.field}` }));
+        return;
+      }
+      operation.data = value;
+    });
+
+    if (errors.length > 0) {
+      throw createHttpError(400, 'Invalid bulk operations', errors);
+    }
+  },
+
+  async execute(userId: string, operations: BulkOperation[], atomic: boolean = false): Promise<BulkResult> {
+    this.validateOperations(operations);
+    return atomic
+      ? this.executeAtomic(userId, operations)
+      : this.executeIndependent(userId, operations);
+  },
+
+  /**
+   * Runs each operation through the regular task service; failures are reported
+   * per item and do not affect the rest of the batch.
+   */
+  async executeIndependent(userId: string, operations: BulkOperation[]): Promise<BulkResult> {
+    const results: BulkOperationResult[] = [];
+
+    for (let index = 0; index < operations.length; index++) {
+      const operation = operations[index];
+      try {
+        const task = await this.runIndependent(userId, operation);
+        results.push({ index, op: operation.op, id: String(task._id), success: true, data: task });
+      } catch (error: any) {
+        results.push({ index, op: operation.op, id: operation.id, success: false, error: error.message });
+      }
+    }
+
+    return this.summarize(false, true, results);
+  },
+
+  async runIndependent(userId: string, operation: BulkOperation): Promise<ITask> {
+    switch (operation.op) {
+      case 'create':
+        return taskService.createTask(userId, operation.data);
+      case 'update':
+        return taskService.updateTask(operation.id!, userId, operation.data || {});
+      case 'complete':
+        return taskService.completeTask(operation.id!, userId, operation.data || {});
+      case 'delete':
+        return taskService.deleteTask(operation.id!, userId);
+      case 'retag': {
+        const task = await taskService.getTaskById(operation.id!, userId);
+        return taskService.updateTask(operation.id!, userId, { tags: this.retag(task.tags, operation.tags) });
+      }
+    }
+  },
+
+  /**
+   * Applies the whole batch inside one Mongo transaction. Rewards, analytics and
+   * graph maintenance run only after the commit so a rollback leaves no trace.
+   */
+  async executeAtomic(userId: string, operations: BulkOperation[]): Promise<BulkResult> {
+    const session = await mongoose.startSession();
+    let results: BulkOperationResult[] = [];
+    let afterCommit: AfterCommit[] = [];
+
+    try {
+      await session.withTransaction(async () => {
+        // withTransaction may retry the callback on transient errors.
+        results = [];
+        afterCommit = [];
+
+        for (let index = 0; index < operations.length; index++) {
+          const operation = operations[index];
+          try {
+            const task = await this.runInSession(userId, operation, session, afterCommit);
+            results.push({ index, op: operation.op, id: String(task._id), success: true, data: task });
+          } catch (error: any) {
+            results.push({ index, op: operation.op, id: operation.id, success: false, error: error.message });
+            throw error;
+          }
+        }
+      });
+    } catch (error: any) {
+      logger.error('Atomic bulk task operation rolled back:', error);
+      const failed = results.find((result: BulkOperationResult) => !result.success);
+      if (!failed) {
+        // The transaction itself failed (e.g. no replica set or commit error).
+        throw error;
+      }
+      const failedIndex = failed.index;
+      const rolledBack = operations.map((operation: BulkOperation, index: number): BulkOperationResult => {
+        if (index === failedIndex) {
+          return results[failedIndex];
+        }
+        return {
+          index,
+          op: operation.op,
+          id: operation.id,
+          success: false,
+          error: index < failedIndex ? 'Rolled back' : 'Not attempted'
+        };
+      });
+      return this.summarize(true, false, rolledBack);
+    } finally {
+      await session.endSession();
+    }
+
+    for (const task of afterCommit) {
+      try {
+        await task();
+      } catch (error: any) {
+        logger.error('Error running post-commit bulk task work:', error);
+      }
+    }
+
+    return this.summarize(true, true, results);
+  },
+
+  async runInSession(
+    userId: string,
+    operation: BulkOperation,
+    session: ClientSession,
+    afterCommit: AfterCommit[]
+  ): Promise<ITask> {
+    switch (operation.op) {
+      case 'create': {
+        const task = await taskService.buildTask(userId, operation.data, session);
+        await task.save({ session });
+        afterCommit.push(async () => {
+          await taskHistoryService.record('create', null, task, { actorId: userId });
+        });
+        if (task.parentTaskId) {
+          afterCommit.push(() => taskDependencyService.rollUpProgress(task.parentTaskId, userId));
+        }
+        return task;
+      }
+      case 'update': {
+        const data = operation.data || {};
+        if (data.parentTaskId) {
+          await taskDependencyService.validateParent(operation.id!, data.parentTaskId, userId, session);
+        }
+        if (data.blockedBy) {
+          await taskDependencyService.validateBlockers(operation.id!, data.blockedBy, userId, session);
+        }
+        const before = await Task.findOne({ _id: operation.id, userId }).session(session);
+        if (!before) {
+          throw new Error('Task not found');
+        }
+        const task = await Task.findOneAndUpdate(
+          { _id: operation.id, userId },
+          { $set: data },
+          { new: true, runValidators: true, session }
+        );
+        if (!task) {
+          throw new Error('Task not found');
+        }
+        afterCommit.push(async () => {
+          await taskHistoryService.record('update', before, task, { actorId: userId });
+        });
+        return task;
+      }
+      case 'complete': {
+        const task = await Task.findOne({ _id: operation.id, userId }).session(session);
+        if (!task) {
+          throw new Error('Task not found');
+        }
+        await taskDependencyService.assertNotBlocked(task, session);
+        const before = task.toObject();
+        taskService.applyCompletion(task, operation.data || {});
+        await task.save({ session });
+        afterCommit.push(async () => {
+          await taskHistoryService.record('complete', before, task, { actorId: userId });
+        });
+        afterCommit.push(() => taskService.finalizeCompletion(userId, task));
+        return task;
+      }
+      case 'delete': {
+        const task = await Task.findOneAndDelete({ _id: operation.id, userId }, { session });
+        if (!task) {
+          throw new Error('Task not found');
+        }
+        await cascadeService.onTasksDeleted([task._id], session);
+        afterCommit.push(async () => {
+          await taskHistoryService.recordDeletion(task, userId);
+        });
+        afterCommit.push(() => taskService.finalizeDeletion(task, userId));
+        return task;
+      }
+      case 'retag': {
+        const task = await Task.findOne({ _id: operation.id, userId }).session(session);
+        if (!task) {
+          throw new Error('Task not found');
+        }
+        const before = task.toObject();
+        task.tags = this.retag(task.tags, operation.tags);
+        await task.save({ session });
+        afterCommit.push(async () => {
+          await taskHistoryService.record('update', before, task, { actorId: userId });
+        });
+        return task;
+      }
+    }
+  },
+
+  retag(current: string[] = [], changes: BulkOperation['tags'] = {}): string[] {
+    const remove = new Set((changes.remove || []).map((tag: string) => tag.trim()));
+    const tags = current.filter((tag: string) => !remove.has(tag));
+    (changes.add || []).map((tag: string) => tag.trim()).forEach((tag: string) => {
+      if (tag && !tags.includes(tag)) {
+        tags.push(tag);
+      }
+    });
+    return tags;
+  },
+
+  summarize(atomic: boolean, committed: boolean, results: BulkOperationResult[]): BulkResult {
+    const succeeded = results.filter((result: BulkOperationResult) => result.success).length;
+    return {
+      atomic,
+      committed,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results
+    };
+  }
+};
+
+export default taskBulkService;
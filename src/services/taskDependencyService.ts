@@ -0,0 +1,322 @@
+import Task, { ITask } from '../models/Task';
+import taskHistoryService from './taskHistoryService';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+import mongoose, { ClientSession } from 'mongoose';
+
+interface GraphNode {
+  id: string;
+  title: string;
+  status: string;
+  progress: number;
+  parentTaskId: string | null;
+}
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  type: 'blocks' | 'subtask';
+}
+
+interface TaskGraph {
+  rootId: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  order: string[];
+}
+
+const OPEN_STATUSES = ['pending', 'in_progress'];
+
+const toId = (value: any): string | null => (value ? value.toString() : null);
+
+const toBlockerId = (blockerId: string): mongoose.Types.ObjectId => {
+  if (!mongoose.isValidObjectId(blockerId)) {
+    throw createHttpError(400, `Invalid blocking task id: ${blockerId}`);
+  }
+  return new mongoose.Types.ObjectId(blockerId);
+};
+
+const taskDependencyService = {
+  /**
+   * Reads made inside a bulk transaction pass its `session` so they see the
+   * batch's earlier, still uncommitted writes.
+   */
+  async loadUserGraph(userId: string, session?: ClientSession): Promise<Map<string, any>> {
+    const tasks = await Task.find({ userId })
+      .select('_id title status progress parentTaskId blockedBy')
+      .session(session || null)
+      .lean();
+    return new Map(tasks.map((task: any) => [task._id.toString(), task]));
+  },
+
+  /**
+   * Returns true when `fromId` can reach `targetId` by following blockedBy edges,
+   * i.e. making `targetId` depend on `fromId` would close a cycle.
+   */
+  reachesThroughBlockers(graph: Map<string, any>, fromId: string, targetId: string): boolean {
+    const stack = [fromId];
+    const visited = new Set<string>();
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === targetId) {
+        return true;
+      }
+      if (visited.has(current)) {
+        continue;
+      }
+      visited.add(current);
+
+      const node = graph.get(current);
+      (node?.blockedBy || []).forEach((blockerId: any) => stack.push(blockerId.toString()));
+    }
+
+    return false;
+  },
+
+  async validateBlockers(taskId: string | null, blockerIds: string[], userId: string, session?: ClientSession): Promise<void> {
+    if (!blockerIds || blockerIds.length === 0) {
+      return;
+    }
+
+    const graph = await this.loadUserGraph(userId, session);
+    for (const blockerId of blockerIds) {
+      if (!graph.has(blockerId.toString())) {
+        throw createHttpError(404, `Blocking task not found: ${blockerId}`);
+      }
+      if (taskId && blockerId.toString() === taskId) {
+        throw createHttpError(400, 'A task cannot block itself');
+      }
+      if (taskId && this.reachesThroughBlockers(graph, blockerId.toString(), taskId)) {
+        throw createHttpError(409, 'Dependency would create a cycle', { taskId, blockerId });
+      }
+    }
+  },
+
+  async validateParent(taskId: string | null, parentTaskId: string, userId: string, session?: ClientSession): Promise<void> {
+    if (!parentTaskId) {
+      return;
+    }
+
+    const graph = await this.loadUserGraph(userId, session);
+    let current: string | null = parentTaskId.toString();
+    const visited = new Set<string>();
+
+    if (!graph.has(current)) {
+      throw createHttpError(404, 'Parent task not found');
+    }
+
+    while (current) {
+      if (taskId && current === taskId) {
+        throw createHttpError(409, 'Parent assignment would create a cycle', { taskId, parentTaskId });
+      }
+      if (visited.has(current)) {
+        break;
+      }
+      visited.add(current);
+      current = toId(graph.get(current)?.parentTaskId);
+    }
+  },
+
+  async addDependency(taskId: string, blockerId: string, userId: string): Promise<ITask> {
+    try {
+      const blocker = toBlockerId(blockerId);
+      await this.validateBlockers(taskId, [blockerId], userId);
+
+      const task = await Task.findOneAndUpdate(
+        { _id: taskId, userId },
+        { $addToSet: { blockedBy: blocker } },
+        { new: true }
+      );
+      if (!task) {
+        throw new Error('Task not found');
+      }
+
+      logger.info(`Task ${taskId} now blocked by ${blockerId} for user: ${userId}`);
+      return task;
+    } catch (error: any) {
+      logger.error('Error adding task dependency:', error);
+      throw error;
+    }
+  },
+
+  async removeDependency(taskId: string, blockerId: string, userId: string): Promise<ITask> {
+    try {
+      const task = await Task.findOneAndUpdate(
+        { _id: taskId, userId },
+        { $pull: { blockedBy: toBlockerId(blockerId) } },
+        { new: true }
+      );
+      if (!task) {
+        throw new Error('Task not found');
+      }
+
+      logger.info(`Task ${taskId} no longer blocked by ${blockerId} for user: ${userId}`);
+      return task;
+    } catch (error: any) {
+      logger.error('Error removing task dependency:', error);
+      throw error;
+    }
+  },
+
+  async getOpenBlockers(task: ITask, session?: ClientSession): Promise<ITask[]> {
+    if (!task.blockedBy || task.blockedBy.length === 0) {
+      return [];
+    }
+
+    return Task.find({
+      _id: { $in: task.blockedBy },
+      userId: task.userId,
+      status: { $in: OPEN_STATUSES }
+    }).select('_id title status').session(session || null);
+  },
+
+  async assertNotBlocked(task: ITask, session?: ClientSession): Promise<void> {
+    const openBlockers = await this.getOpenBlockers(task, session);
+    if (openBlockers.length > 0) {
+      throw createHttpError(
+        409,
+        `Task is blocked by ${openBlockers.length} open task(s): ${openBlockers.map((blocker: ITask) => blocker.title).join(', ')}`,
+        { blockedBy: openBlockers.map((blocker: ITask) => ({ id: blocker._id, title: blocker.title, status: blocker.status })) }
+      );
+    }
+  },
+
+  /**
+   * Recomputes a task's progress as the share of its completed units of work
+   * (non-cancelled subtasks plus checklist items), then walks up to its parent.
+   */
+  async rollUpProgress(taskId: any, userId: string): Promise<void> {
+    const visited = new Set<string>();
+    let currentId = toId(taskId);
+
+    try {
+      while (currentId && !visited.has(currentId)) {
+        visited.add(currentId);
+
+        const node = await Task.findOne({ _id: currentId, userId }).select('checklist parentTaskId').lean();
+        if (!node) {
+          break;
+        }
+
+        const children = await Task.find({ parentTaskId: currentId, userId, status: { $ne: 'cancelled' } })
+          .select('status')
+          .lean();
+        const checklist = (node as any).checklist || [];
+        const done = children.filter((child: any) => child.status === 'completed').length
+          + checklist.filter((item: any) => item.completed).length;
+        const total = children.length + checklist.length;
+        const progress = total > 0 ? Math.round((done / total) * 100) : 0;
+
+        await Task.updateOne({ _id: currentId, userId }, { $set: { progress } });
+        currentId = toId((node as any).parentTaskId);
+      }
+    } catch (error: any) {
+      logger.error('Error rolling up task progress:', error);
+    }
+  },
+
+  /**
+   * Detaches a removed task from the graph: dependents lose it as a blocker and
+   * subtasks become top-level tasks.
+   */
+  async detachTask(task: ITask, actorId?: string): Promise<void> {
+    const options = { actorId: actorId || String(task.userId) };
+    await taskHistoryService.updateMany({ userId: task.userId, blockedBy: task._id }, { $pull: { blockedBy: task._id } }, options);
+    await taskHistoryService.updateMany({ userId: task.userId, parentTaskId: task._id }, { $unset: { parentTaskId: 1 } }, options);
+    if (task.parentTaskId) {
+      await this.rollUpProgress(task.parentTaskId, task.userId.toString());
+    }
+  },
+
+  async getTaskGraph(taskId: string, userId: string): Promise<TaskGraph> {
+    try {
+      const graph = await this.loadUserGraph(userId);
+      if (!graph.has(taskId)) {
+        throw new Error('Task not found');
+      }
+
+      // Index reverse edges so the component can be walked in both directions.
+      const neighbours = new Map<string, Set<string>>();
+      const link = (a: string, b: string) => {
+        if (!graph.has(a) || !graph.has(b)) return;
+        if (!neighbours.has(a)) neighbours.set(a, new Set());
+        if (!neighbours.has(b)) neighbours.set(b, new Set());
+        neighbours.get(a)!.add(b);
+        neighbours.get(b)!.add(a);
+      };
+      graph.forEach((task: any, id: string) => {
+        (task.blockedBy || []).forEach((blockerId: any) => link(id, blockerId.toString()));
+        if (task.parentTaskId) link(id, task.parentTaskId.toString());
+      });
+
+      const component = new Set<string>([taskId]);
+      const queue = [taskId];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        (neighbours.get(current) || new Set()).forEach((next: string) => {
+          if (!component.has(next)) {
+            component.add(next);
+            queue.push(next);
+          }
+        });
+      }
+
+      const nodes: GraphNode[] = [];
+      const edges: GraphEdge[] = [];
+      component.forEach((id: string) => {
+        const task = graph.get(id);
+        nodes.push({
+          id,
+          title: task.title,
+          status: task.status,
+          progress: task.progress || 0,
+          parentTaskId: toId(task.parentTaskId)
+        });
+        (task.blockedBy || []).forEach((blockerId: any) => {
+          if (component.has(blockerId.toString())) {
+            edges.push({ from: blockerId.toString(), to: id, type: 'blocks' });
+          }
+        });
+        if (task.parentTaskId && component.has(task.parentTaskId.toString())) {
+          edges.push({ from: task.parentTaskId.toString(), to: id, type: 'subtask' });
+        }
+      });
+
+      return { rootId: taskId, nodes, edges, order: this.topologicalOrder(nodes, edges) };
+    } catch (error: any) {
+      logger.error('Error building task graph:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Kahn's algorithm over the blocking edges: blockers come before the tasks they block.
+   */
+  topologicalOrder(nodes: GraphNode[], edges: GraphEdge[]): string[] {
+    const inDegree = new Map<string, number>(nodes.map((node: GraphNode) => [node.id, 0]));
+    const outgoing = new Map<string, string[]>();
+
+    edges.filter((edge: GraphEdge) => edge.type === 'blocks').forEach((edge: GraphEdge) => {
+      inDegree.set(edge.to, (inDegree.get(edge.to) || 0) + 1);
+      outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge.to]);
+    });
+
+    const queue = nodes.filter((node: GraphNode) => inDegree.get(node.id) === 0).map((node: GraphNode) => node.id);
+    const order: string[] = [];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      order.push(current);
+      (outgoing.get(current) || []).forEach((next: string) => {
+        inDegree.set(next, inDegree.get(next)! - 1);
+        if (inDegree.get(next) === 0) {
+          queue.push(next);
+        }
+      });
+    }
+
+    return order;
+  }
+};
+
+export default taskDependencyService;
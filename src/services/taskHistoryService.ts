@@ -0,0 +1,215 @@
+import Task, { ITask } from '../models/Task';
+import TaskChange, { ITaskChange, TaskChangeAction } from '../models/TaskChange';
+import Challenge from '../models/Challenge';
+import taskDependencyService from './taskDependencyService';
+import cascadeService from './cascadeService';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+import { paginate, Page, PageRequest } from '../utils/pagination';
+
+interface RecordOptions {
+  actorId?: string | null;
+  source?: 'user' | 'system';
+  snapshot?: any;
+  revertOf?: any;
+}
+
+// User-facing fields whose changes are logged. Derived state (progress,
+// timers, series links) is recomputed by the server and not tracked here.
+const TRACKED_FIELDS = [
+  'title', 'description', 'type', 'status', 'priority', 'dueDate', 'estimatedDuration', 'tags',
+  'metadata', 'challengeId', 'parentTaskId', 'blockedBy', 'checklist', 'recurrence', 'completionData'
+];
+
+const RESTORE_RETENTION_DAYS = parseInt(process.env.TASK_RESTORE_RETENTION_DAYS || '30', 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toPlain = (task: any): any => {
+  if (!task) return {};
+  return typeof task.toObject === 'function' ? task.toObject({ depopulate: true }) : task;
+};
+
+const isEmpty = (value: any): boolean =>
+  value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+
+const sameValue = (a: any, b: any): boolean =>
+  (isEmpty(a) && isEmpty(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+const taskHistoryService = {
+  diff(before: any, after: any): ITaskChange['changes'] {
+    const previous = toPlain(before);
+    const current = toPlain(after);
+    return TRACKED_FIELDS
+      .filter((field: string) => !sameValue(previous[field], current[field]))
+      .map((field: string) => ({ field, oldValue: previous[field], newValue: current[field] }));
+  },
+
+  /**
+   * Appends one entry to the task's change log. Logging never fails the
+   * mutation that triggered it; errors are only reported.
+   */
+  async record(action: TaskChangeAction, before: any, after: any, options: RecordOptions = {}): Promise<ITaskChange | null> {
+    try {
+      const task = toPlain(after || before);
+      const changes = this.diff(before, after);
+      if (changes.length === 0 && !['create', 'delete', 'restore'].includes(action)) {
+        return null;
+      }
+
+      return await TaskChange.create({
+        taskId: task._id,
+        userId: task.userId,
+        actorId: options.source === 'system' ? undefined : options.actorId ?? task.userId,
+        source: options.source || 'user',
+        action,
+        changes,
+        snapshot: options.snapshot,
+        revertOf: options.revertOf
+      });
+    } catch (error: any) {
+      logger.error(`Error recording task ${action} history:`, error);
+      return null;
+    }
+  },
+
+  async recordDeletion(task: ITask, actorId?: string): Promise<ITaskChange | null> {
+    return this.record('delete', task, null, { actorId, snapshot: toPlain(task) });
+  },
+
+  /**
+   * `Task.updateMany` that logs an update for every task it changed. Used for
+   * writes that fan out over several tasks (series edits, detached links).
+   */
+  async updateMany(filter: any, update: any, options: RecordOptions = {}): Promise<number> {
+    const before = await Task.find(filter);
+    if (before.length === 0) {
+      return 0;
+    }
+
+    const ids = before.map((task: ITask) => task._id);
+    await Task.updateMany({ _id: { $in: ids } }, update, { runValidators: true });
+
+    const after = await Task.find({ _id: { $in: ids } });
+    for (const task of after) {
+      const previous = before.find((candidate: ITask) => String(candidate._id) === String(task._id));
+      await this.record('update', previous, task, options);
+    }
+    return after.length;
+  },
+
+  async getHistory(taskId: string, userId: string, page: PageRequest = {}): Promise<Page<ITaskChange>> {
+    try {
+      const history = await paginate<ITaskChange>(
+        TaskChange,
+        { taskId, userId },
+        { field: 'createdAt', direction: -1 },
+        page,
+        (query: any) => query.select('-snapshot')
+      );
+      if (history.items.length === 0 && !page.cursor && !(await Task.exists({ _id: taskId, userId }))) {
+        throw createHttpError(404, 'Task not found');
+      }
+      return history;
+    } catch (error: any) {
+      logger.error('Error fetching task history:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Restores the values a change replaced. Reverting a deletion re-creates the
+   * task from its snapshot; rewards granted by a reverted completion are kept.
+   */
+  async revert(taskId: string, userId: string, changeId: string): Promise<ITask> {
+    try {
+      const change = await TaskChange.findOne({ _id: changeId, taskId, userId });
+      if (!change) {
+        throw createHttpError(404, 'Task change not found');
+      }
+      if (change.action === 'delete') {
+        return await this.restore(change, userId);
+      }
+      if (change.action === 'create' || change.changes.length === 0) {
+        throw createHttpError(400, `A ${change.action} change cannot be reverted`);
+      }
+
+      const task = await Task.findOne({ _id: taskId, userId });
+      if (!task) {
+        throw createHttpError(409, 'Task has been deleted; revert its deletion first');
+      }
+
+      const before = task.toObject();
+      const restored: any = {};
+      change.changes.forEach((item: any) => {
+        restored[item.field] = item.oldValue;
+      });
+
+      if (restored.parentTaskId) {
+        await taskDependencyService.validateParent(taskId, restored.parentTaskId, userId);
+      }
+      if (restored.blockedBy?.length) {
+        await taskDependencyService.validateBlockers(taskId, restored.blockedBy, userId);
+      }
+
+      Object.keys(restored).forEach((field: string) => task.set(field, restored[field]));
+      await task.save();
+
+      const parentIds = new Set([before.parentTaskId, task.parentTaskId].filter(Boolean).map(String));
+      for (const parentId of parentIds) {
+        await taskDependencyService.rollUpProgress(parentId, userId);
+      }
+
+      await this.record('revert', before, task, { actorId: userId, revertOf: change._id });
+      logger.info(`Task change ${changeId} reverted for task: ${taskId}`);
+      return task;
+    } catch (error: any) {
+      logger.error('Error reverting task change:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Re-creates a deleted task with its original id. References to documents
+   * that no longer exist (parent, blockers, challenge) are dropped.
+   */
+  async restore(change: ITaskChange, userId: string): Promise<ITask> {
+    if (Date.now() - change.createdAt.getTime() > RESTORE_RETENTION_DAYS * DAY_MS) {
+      throw createHttpError(410, `Deleted tasks can only be restored within ${RESTORE_RETENTION_DAYS} days`);
+    }
+    if (!change.snapshot) {
+      throw createHttpError(400, 'No snapshot was kept for this deletion');
+    }
+    if (await Task.exists({ _id: change.taskId })) {
+      throw createHttpError(409, 'Task already exists');
+    }
+
+    const snapshot = { ...change.snapshot };
+    if (snapshot.parentTaskId && !(await Task.exists({ _id: snapshot.parentTaskId, userId }))) {
+      delete snapshot.parentTaskId;
+    }
+    if (snapshot.blockedBy?.length) {
+      const blockers = await Task.find({ _id: { $in: snapshot.blockedBy }, userId }).select('_id').lean();
+      snapshot.blockedBy = blockers.map((blocker: any) => blocker._id);
+    }
+    if (snapshot.challengeId && !(await Challenge.exists({ _id: snapshot.challengeId }))) {
+      delete snapshot.challengeId;
+    }
+    if (snapshot.nextOccurrenceId && !(await Task.exists({ _id: snapshot.nextOccurrenceId }))) {
+      delete snapshot.nextOccurrenceId;
+    }
+
+    const task = new Task(snapshot);
+    await task.save();
+    await cascadeService.onTaskRestored(task._id);
+
+    if (task.parentTaskId) {
+      await taskDependencyService.rollUpProgress(task.parentTaskId, userId);
+    }
+
+    await this.record('restore', null, task, { actorId: userId, revertOf: change._id });
+    logger.info(`Deleted task restored: ${task._id} for user: ${userId}`);
+    return task;
+  }
+};
+
+export default taskHistoryService;
@@ -1,10 +1,18 @@
 import Task, { ITask } from '../models/Task';
-import Challenge from '../models/Challenge';
 import Gamification from '../models/Gamification';
 import analyticsService from './analyticsService';
 import gamificationIntegrationService from './gamificationIntegrationService';
+import taskDependencyService from './taskDependencyService';
+import taskTimerService from './taskTimerService';
+import taskHistoryService from './taskHistoryService';
+import cascadeService from './cascadeService';
+import pointsLedgerService from './pointsLedgerService';
+import achievementService from './achievementService';
 import logger from '../utils/logger';
-import mongoose from 'mongoose';
+import { getNextOccurrence, validateRecurrenceRule } from '../utils/recurrence';
+import { paginate, Page, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, decodeOffsetCursor, encodeOffsetCursor } from '../utils/pagination';
+import { createHttpError } from '../utils/httpError';
+import mongoose, { ClientSession } from 'mongoose';
 
 interface TaskData {
   title: string;
@@ -17,30 +25,84 @@ interface TaskData {
   tags?: string[];
   metadata?: any;
   challengeId?: string;
+  recurrence?: any;
   [key: string]: any;
 }
 
+type SeriesScope = 'this' | 'future';
+
+// Fields that belong to a single occurrence and are never copied across a series.
+const OCCURRENCE_FIELDS = ['dueDate', 'status', 'completionData', 'challengeId', 'parentTaskId', 'blockedBy', 'progress'];
+
+const SERIES_BATCH_SIZE = 500;
+
 interface TaskFilters {
   status?: string;
   type?: string;
   search?: string;
+  priority?: string | string[];
+  tags?: string | string[];
+  dueFrom?: string | Date;
+  dueTo?: string | Date;
+  hasChallenge?: string | boolean;
+  cursor?: string;
   limit?: number;
   skip?: number;
 }
 
-interface CompletionData {
+export interface TaskFacets {
+  status: Record<string, number>;
+  type: Record<string, number>;
+  priority: Record<string, number>;
+  total: number;
+}
+
+const toList = (value: string | string[] | undefined): string[] => {
+  if (!value) return [];
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map((item: string) => item.trim()).filter(Boolean);
+};
+
+export interface CompletionData {
   actualDuration?: number;
   notes?: string;
 }
 
 const taskService = {
+  /**
+   * Validates relationships and series settings and returns an unsaved task, so
+   * callers can persist it inside their own session.
+   */
+  async buildTask(userId: string, taskData: TaskData, session?: ClientSession): Promise<ITask> {
+    await taskDependencyService.validateParent(null, taskData.parentTaskId, userId, session);
+    await taskDependencyService.validateBlockers(null, taskData.blockedBy, userId, session);
+
+    const task = new Task({
+      userId,
+      ...taskData
+    });
+
+    if (taskData.recurrence?.frequency) {
+      validateRecurrenceRule(taskData.recurrence);
+      task.seriesId = new mongoose.Types.ObjectId();
+      task.seriesStart = task.dueDate || new Date();
+      task.dueDate = task.seriesStart;
+      task.occurrenceIndex = 1;
+    }
+
+    return task;
+  },
+
   async createTask(userId: string, taskData: TaskData): Promise<ITask> {
     try {
-      const task = new Task({
-        userId,
-        ...taskData
-      });
+      const task = await this.buildTask(userId, taskData);
       await task.save();
+
+      if (task.parentTaskId) {
+        await taskDependencyService.rollUpProgress(task.parentTaskId, userId);
+      }
+
+      await taskHistoryService.record('create', null, task, { actorId: userId });
       logger.info(`Task created: ${task._id} for user: ${userId}`);
       return task;
     } catch (error: any) {
@@ -49,35 +111,109 @@ const taskService = {
     }
   },
 
-  async getUserTasks(userId: string, filters: TaskFilters = {}): Promise<ITask[]> {
+  buildTaskQuery(userId: string, filters: TaskFilters = {}): any {
+    const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+
+    if (filters.status) {
+      query.status = filters.status;
+    }
+    if (filters.type) {
+      query.type = filters.type;
+    }
+    if (filters.search) {
+      // $text tokenizes the input itself, so user input never reaches a regex.
+      query.$text = { $search: String(filters.search) };
+    }
+
+    const priorities = toList(filters.priority);
+    if (priorities.length > 0) {
+      query.priority = { $in: priorities };
+    }
+    const tags = toList(filters.tags);
+    if (tags.length > 0) {
+      query.tags = { $all: tags };
+    }
+    if (filters.dueFrom || filters.dueTo) {
+      query.dueDate = {};
+      if (filters.dueFrom) query.dueDate.$gte = new Date(filters.dueFrom);
+      if (filters.dueTo) query.dueDate.$lte = new Date(filters.dueTo);
+    }
+    if (filters.hasChallenge !== undefined && filters.hasChallenge !== '') {
+      const hasChallenge = filters.hasChallenge === true || filters.hasChallenge === 'true';
+      query.challengeId = hasChallenge ? { $exists: true, $ne: null } : { $in: [null] };
+    }
+
+    return query;
+  },
+
+  async getUserTasks(userId: string, filters: TaskFilters = {}): Promise<Page<ITask>> {
     try {
-      const query: any = { userId };
-      
-      if (filters.status) {
-        query.status = filters.status;
-      }
-      if (filters.type) {
-        query.type = filters.type;
-      }
-      if (filters.search) {
-        query.$or = [
-          { title: { $regex: filters.search, $options: 'i' } },
-          { description: { $regex: filters.search, $options: 'i' } }
-        ];
+      const query = this.buildTaskQuery(userId, filters);
+
+      if (!filters.search) {
+        return await paginate<ITask>(Task, query, { field: 'createdAt', direction: -1 }, filters);
       }
 
-      const tasks = await Task.find(query)
-        .sort({ createdAt: -1 })
-        .limit(filters.limit || 50)
-        .skip(filters.skip || 0);
-      
-      return tasks;
+      // Relevance scores cannot be expressed as a keyset, so ranked search pages
+      // by offset, carried in an opaque cursor like the keyset pages.
+      const limit = Math.min(Math.max(Number(filters.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+      const offset = filters.cursor ? decodeOffsetCursor(filters.cursor) : Math.max(Number(filters.skip) || 0, 0);
+      const tasks = await Task.find(query, { score: { $meta: 'textScore' } })
+        .sort({ score: { $meta: 'textScore' }, createdAt: -1, _id: -1 })
+        .skip(offset)
+        .limit(limit + 1);
+
+      const hasMore = tasks.length > limit;
+      return {
+        items: tasks.slice(0, limit),
+        hasMore,
+        nextCursor: hasMore ? encodeOffsetCursor(offset + limit) : null
+      };
     } catch (error: any) {
       logger.error('Error fetching tasks:', error);
       throw error;
     }
   },
 
+  /**
+   * Counts matching tasks by status, type and priority in a single aggregation so
+   * clients can render filter chips alongside the result page.
+   */
+  async getTaskFacets(userId: string, filters: TaskFilters = {}): Promise<TaskFacets> {
+    try {
+      const query = this.buildTaskQuery(userId, filters);
+      const countBy = (field: string) => [{ $group: { _id: `$${field}`, count: { $sum: 1 } } }];
+
+      const [result] = await Task.aggregate([
+        { $match: query },
+        {
+          $facet: {
+            status: countBy('status'),
+            type: countBy('type'),
+            priority: countBy('priority'),
+            total: [{ $count: 'count' }]
+          }
+        }
+      ]);
+
+      const toCounts = (buckets: Array<{ _id: string; count: number }> = []) =>
+        buckets.reduce((counts: Record<string, number>, bucket) => {
+          counts[bucket._id] = bucket.count;
+          return counts;
+        }, {});
+
+      return {
+        status: toCounts(result?.status),
+        type: toCounts(result?.type),
+        priority: toCounts(result?.priority),
+        total: result?.total?.[0]?.count || 0
+      };
+    } catch (error: any) {
+      logger.error('Error computing task facets:', error);
+      throw error;
+    }
+  },
+
   async getTaskById(taskId: string, userId: string): Promise<ITask> {
     try {
       const task = await Task.findOne({ _id: taskId, userId });
@@ -91,19 +227,154 @@ const taskService = {
     }
   },
 
-  async updateTask(taskId: string, userId: string, updateData: any): Promise<ITask> {
+  async getSubtasks(taskId: string, userId: string): Promise<ITask[]> {
+    try {
+      await this.getTaskById(taskId, userId);
+      return await Task.find({ parentTaskId: taskId, userId }).sort({ createdAt: 1 });
+    } catch (error: any) {
+      logger.error('Error fetching subtasks:', error);
+      throw error;
+    }
+  },
+
+  async addChecklistItem(taskId: string, userId: string, text: string): Promise<ITask> {
+    try {
+      const before = await Task.findOneAndUpdate(
+        { _id: taskId, userId },
+        { $push: { checklist: { text, completed: false } } },
+        { runValidators: true }
+      );
+      if (!before) {
+        throw new Error('Task not found');
+      }
+
+      await taskDependencyService.rollUpProgress(taskId, userId);
+      const task = await this.getTaskById(taskId, userId);
+      await taskHistoryService.record('checklist', before, task, { actorId: userId });
+      return task;
+    } catch (error: any) {
+      logger.error('Error adding checklist item:', error);
+      throw error;
+    }
+  },
+
+  async updateChecklistItem(taskId: string, userId: string, itemId: string, changes: { text?: string; completed?: boolean }): Promise<ITask> {
+    try {
+      const task = await this.getTaskById(taskId, userId);
+      const before = task.toObject();
+      const item = (task.checklist as any).id(itemId);
+      if (!item) {
+        throw createHttpError(404, 'Checklist item not found');
+      }
+
+      if (changes.text !== undefined) {
+        item.text = changes.text;
+      }
+      if (changes.completed !== undefined && changes.completed !== item.completed) {
+        item.completed = changes.completed;
+        item.completedAt = changes.completed ? new Date() : undefined;
+      }
+      await task.save();
+      await taskHistoryService.record('checklist', before, task, { actorId: userId });
+
+      await taskDependencyService.rollUpProgress(taskId, userId);
+      return await this.getTaskById(taskId, userId);
+    } catch (error: any) {
+      logger.error('Error updating checklist item:', error);
+      throw error;
+    }
+  },
+
+  async removeChecklistItem(taskId: string, userId: string, itemId: string): Promise<ITask> {
+    try {
+      const before = await Task.findOneAndUpdate(
+        { _id: taskId, userId },
+        { $pull: { checklist: { _id: itemId } } }
+      );
+      if (!before) {
+        throw new Error('Task not found');
+      }
+
+      await taskDependencyService.rollUpProgress(taskId, userId);
+      const task = await this.getTaskById(taskId, userId);
+      await taskHistoryService.record('checklist', before, task, { actorId: userId });
+      return task;
+    } catch (error: any) {
+      logger.error('Error removing checklist item:', error);
+      throw error;
+    }
+  },
+
+  async updateTask(taskId: string, userId: string, updateData: any, scope: SeriesScope = 'this'): Promise<ITask> {
     try {
+      const existing = await Task.findOne({ _id: taskId, userId });
+      if (!existing) {
+        throw new Error('Task not found');
+      }
+
+      const update = { ...updateData };
+      if (update.parentTaskId) {
+        await taskDependencyService.validateParent(taskId, update.parentTaskId, userId);
+      }
+      if (update.blockedBy) {
+        await taskDependencyService.validateBlockers(taskId, update.blockedBy, userId);
+      }
+      if (update.recurrence?.frequency) {
+        validateRecurrenceRule(update.recurrence);
+        if (!existing.seriesId) {
+          update.seriesId = new mongoose.Types.ObjectId();
+          update.seriesStart = update.dueDate || existing.dueDate || new Date();
+          update.dueDate = update.seriesStart;
+          update.occurrenceIndex = 1;
+        }
+      }
+
+      // A new rule may extend a series that had run out.
+      const reopenSeries = update.recurrence ? { $unset: { seriesEndedAt: 1 } } : {};
       const task = await Task.findOneAndUpdate(
         { _id: taskId, userId },
-        { $set: updateData },
+        { $set: update, ...reopenSeries },
         { new: true, runValidators: true }
       );
       
       if (!task) {
         throw new Error('Task not found');
       }
+
+      await taskHistoryService.record('update', existing, task, { actorId: userId });
+
+      const parentIds = new Set([existing.parentTaskId, task.parentTaskId].filter(Boolean).map(String));
+      for (const parentId of parentIds) {
+        await taskDependencyService.rollUpProgress(parentId, userId);
+      }
+
+      if (scope === 'future' && existing.seriesId) {
+        const seriesUpdate = { ...updateData };
+        OCCURRENCE_FIELDS.forEach((field: string) => delete seriesUpdate[field]);
+
+        if (Object.keys(seriesUpdate).length > 0) {
+          const futureFilter = {
+            userId,
+            seriesId: existing.seriesId,
+            occurrenceIndex: { $gt: existing.occurrenceIndex || 1 },
+            status: { $in: ['pending', 'in_progress'] }
+          };
+          const futureBefore = await Task.find(futureFilter);
+          await Task.updateMany(
+            futureFilter,
+            { $set: seriesUpdate, ...(seriesUpdate.recurrence ? { $unset: { seriesEndedAt: 1 } } : {}) },
+            { runValidators: true }
+          );
+
+          const futureAfter = await Task.find({ _id: { $in: futureBefore.map((occurrence: ITask) => occurrence._id) } });
+          for (const occurrence of futureAfter) {
+            const previous = futureBefore.find((candidate: ITask) => String(candidate._id) === String(occurrence._id));
+            await taskHistoryService.record('update', previous, occurrence, { actorId: userId });
+          }
+        }
+      }
       
-      logger.info(`Task updated: ${taskId} for user: ${userId}`);
+      logger.info(`Task updated: ${taskId} for user: ${userId} (scope: ${scope})`);
       return task;
     } catch (error: any) {
       logger.error('Error updating task:', error);
@@ -111,18 +382,19 @@ const taskService = {
     }
   },
 
-  async deleteTask(taskId: string, userId: string): Promise<ITask> {
+  async deleteTask(taskId: string, userId: string, scope: SeriesScope = 'this'): Promise<ITask> {
     try {
       const task = await Task.findOneAndDelete({ _id: taskId, userId });
       if (!task) {
         throw new Error('Task not found');
       }
       
-      if (task.challengeId) {
-        await Challenge.findByIdAndDelete(task.challengeId);
-      }
+      await cascadeService.onTasksDeleted([task._id]);
+
+      await taskHistoryService.recordDeletion(task, userId);
+      await this.finalizeDeletion(task, userId, scope);
       
-      logger.info(`Task deleted: ${taskId} for user: ${userId}`);
+      logger.info(`Task deleted: ${taskId} for user: ${userId} (scope: ${scope})`);
       return task;
     } catch (error: any) {
       logger.error('Error deleting task:', error);
@@ -130,6 +402,170 @@ const taskService = {
     }
   },
 
+  async finalizeDeletion(task: ITask, userId: string, scope: SeriesScope = 'this'): Promise<void> {
+    await taskDependencyService.detachTask(task, userId);
+
+    if (task.seriesId) {
+      if (scope === 'future') {
+        await this.truncateSeries(task, userId);
+      } else {
+        await this.skipOccurrence(task, userId);
+      }
+    }
+  },
+
+  async getSeriesOccurrences(seriesId: string, userId: string): Promise<ITask[]> {
+    try {
+      const occurrences = await Task.find({ seriesId, userId }).sort({ occurrenceIndex: 1 });
+      if (occurrences.length === 0) {
+        throw new Error('Task series not found');
+      }
+      return occurrences;
+    } catch (error: any) {
+      logger.error('Error fetching task series:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Materializes the occurrence following `task` in its series. Safe to call more
+   * than once: an existing next occurrence is returned instead of a duplicate.
+   */
+  async generateNextOccurrence(task: ITask): Promise<ITask | null> {
+    if (!task.seriesId || !task.recurrence?.frequency) {
+      return null;
+    }
+    if (task.nextOccurrenceId) {
+      return Task.findById(task.nextOccurrenceId);
+    }
+
+    const rule = (task.toObject() as any).recurrence;
+    const previous = task.dueDate || task.seriesStart || task.createdAt || new Date();
+    const occurrenceIndex = task.occurrenceIndex || 1;
+    const nextDate = getNextOccurrence(rule, task.seriesStart || previous, previous, occurrenceIndex);
+    if (!nextDate) {
+      // Keeps exhausted series out of advanceRecurringSeries.
+      if (!task.seriesEndedAt) {
+        task.seriesEndedAt = new Date();
+        await Task.updateOne({ _id: task._id }, { $set: { seriesEndedAt: task.seriesEndedAt } });
+      }
+      return null;
+    }
+
+    let next = await Task.findOne({ seriesId: task.seriesId, occurrenceIndex: occurrenceIndex + 1 });
+    if (!next) {
+      next = new Task({
+        userId: task.userId,
+        title: task.title,
+        description: task.description,
+        type: task.type,
+        priority: task.priority,
+        estimatedDuration: task.estimatedDuration,
+        tags: task.tags,
+        checklist: (task.checklist || []).map((item: any) => ({ text: item.text })),
+        recurrence: rule,
+        seriesId: task.seriesId,
+        seriesStart: task.seriesStart,
+        occurrenceIndex: occurrenceIndex + 1,
+        dueDate: nextDate
+      });
+      await next.save();
+      await taskHistoryService.record('create', null, next, { source: 'system' });
+    }
+
+    await Task.updateOne({ _id: task._id }, { $set: { nextOccurrenceId: next._id } });
+    task.nextOccurrenceId = next._id as mongoose.Types.ObjectId;
+
+    logger.info(`Recurring task occurrence ${next.occurrenceIndex} created for series: ${task.seriesId}`);
+    return next;
+  },
+
+  /**
+   * Scheduled job entry point: advances every series whose latest occurrence is
+   * already due, even if the user never completed it. Pages by due date so a
+   * series that keeps failing cannot hold up the ones behind it.
+   */
+  async advanceRecurringSeries(now: Date = new Date()): Promise<number> {
+    try {
+      const dueFilter = {
+        'recurrence.frequency': { $exists: true },
+        seriesId: { $exists: true },
+        nextOccurrenceId: { $exists: false },
+        seriesEndedAt: { $exists: false },
+        status: { $ne: 'cancelled' },
+        dueDate: { $lte: now }
+      };
+
+      let generated = 0;
+      let last: ITask | null = null;
+      while (true) {
+        const filter: any = last
+          ? { ...dueFilter, $or: [{ dueDate: { $gt: last.dueDate } }, { dueDate: last.dueDate, _id: { $gt: last._id } }] }
+          : dueFilter;
+        const dueOccurrences = await Task.find(filter).sort({ dueDate: 1, _id: 1 }).limit(SERIES_BATCH_SIZE);
+        if (dueOccurrences.length === 0) break;
+        last = dueOccurrences[dueOccurrences.length - 1];
+
+        for (const occurrence of dueOccurrences) {
+          try {
+            if (await this.generateNextOccurrence(occurrence)) {
+              generated += 1;
+            }
+          } catch (error: any) {
+            logger.error(`Error advancing task series ${occurrence.seriesId}:`, error);
+          }
+        }
+        if (dueOccurrences.length < SERIES_BATCH_SIZE) break;
+      }
+
+      if (generated > 0) {
+        logger.info(`Advanced ${generated} recurring task series`);
+      }
+      return generated;
+    } catch (error: any) {
+      logger.error('Error advancing recurring task series:', error);
+      throw error;
+    }
+  },
+
+  async skipOccurrence(task: ITask, userId: string): Promise<void> {
+    if (task.dueDate) {
+      await taskHistoryService.updateMany(
+        { userId, seriesId: task.seriesId },
+        { $addToSet: { 'recurrence.exceptions': task.dueDate } },
+        { actorId: userId }
+      );
+    }
+
+    // Deleting the latest occurrence must not end the series.
+    if (!task.nextOccurrenceId) {
+      await this.generateNextOccurrence(task);
+    }
+  },
+
+  async truncateSeries(task: ITask, userId: string): Promise<void> {
+    const futureOccurrences = await Task.find({
+      userId,
+      seriesId: task.seriesId,
+      occurrenceIndex: { $gt: task.occurrenceIndex || 1 },
+      status: { $in: ['pending', 'in_progress'] }
+    });
+
+    const occurrenceIds = futureOccurrences.map((occurrence: ITask) => occurrence._id);
+    await Task.deleteMany({ _id: { $in: occurrenceIds } });
+    await cascadeService.onTasksDeleted(occurrenceIds);
+    for (const occurrence of futureOccurrences) {
+      await taskHistoryService.recordDeletion(occurrence, userId);
+    }
+
+    const until = new Date((task.dueDate || new Date()).getTime() - 1);
+    await taskHistoryService.updateMany(
+      { userId, seriesId: task.seriesId },
+      { $set: { 'recurrence.until': until } },
+      { actorId: userId }
+    );
+  },
+
   async completeTask(taskId: string, userId: string, completionData: CompletionData): Promise<ITask> {
     try {
       const task = await Task.findOne({ _id: taskId, userId });
@@ -137,25 +573,14 @@ const taskService = {
         throw new Error('Task not found');
       }
 
-      const actualDuration = completionData.actualDuration || 0;
-      const estimatedDuration = task.estimatedDuration || 1;
-      const efficiency = Math.min(100, Math.max(0, (estimatedDuration / actualDuration) * 100));
-
-      task.status = 'completed';
-      task.completionData = {
-        completedAt: new Date(),
-        actualDuration,
-        efficiency,
-        notes: completionData.notes || ''
-      };
+      await taskDependencyService.assertNotBlocked(task);
 
+      const before = task.toObject();
+      this.applyCompletion(task, completionData);
       await task.save();
+      await taskHistoryService.record('complete', before, task, { actorId: userId });
 
-      await this.awardTaskCompletion(userId, task);
-      await analyticsService.recordTaskCompletion(userId, task);
-      
-      // Award momentum through new gamification service
-      await gamificationIntegrationService.awardTaskCompletion(userId, task);
+      await this.finalizeCompletion(userId, task);
 
       logger.info(`Task completed: ${taskId} for user: ${userId}`);
       return task;
@@ -165,18 +590,87 @@ const taskService = {
     }
   },
 
+  /**
+   * Marks the task completed. When the server tracked work intervals the duration
+   * is derived from them and any client-reported value is ignored. Otherwise the
+   * reported value is capped at the time the task has existed and, being
+   * unverified, earns no efficiency.
+   */
+  applyCompletion(task: ITask, completionData: CompletionData): void {
+    const now = new Date();
+    const tracked = taskTimerService.hasTrackedTime(task);
+    if (tracked) {
+      taskTimerService.closeOpenInterval(task, now);
+      task.timeTracking.state = 'stopped';
+    }
+
+    const lifetimeMinutes = Math.max(0, (now.getTime() - new Date(task.createdAt || now).getTime()) / 60000);
+    const actualDuration = tracked
+      ? taskTimerService.getTrackedMinutes(task, now)
+      : Math.min(Math.max(Number(completionData.actualDuration) || 0, 0), lifetimeMinutes);
+    const estimatedDuration = task.estimatedDuration || 1;
+    // Efficiency feeds averages, bonuses and achievements, so only a duration
+    // the server measured counts.
+    const efficiency = tracked && actualDuration > 0
+      ? Math.min(100, Math.max(0, (estimatedDuration / actualDuration) * 100))
+      : 0;
+
+    task.status = 'completed';
+    task.completionData = {
+      completedAt: now,
+      actualDuration,
+      durationSource: tracked ? 'tracked' : 'reported',
+      efficiency,
+      notes: completionData.notes || ''
+    };
+  },
+
+  /**
+   * Side effects of a persisted completion: parent progress, rewards, analytics
+   * and the next occurrence of a recurring series.
+   */
+  async finalizeCompletion(userId: string, task: ITask): Promise<void> {
+    if (task.parentTaskId) {
+      await taskDependencyService.rollUpProgress(task.parentTaskId, userId);
+    }
+
+    await this.awardTaskCompletion(userId, task);
+    await analyticsService.recordTaskCompletion(userId, task);
+    
+    // Award momentum through new gamification service
+    await gamificationIntegrationService.awardTaskCompletion(userId, task);
+
+    try {
+      await this.generateNextOccurrence(task);
+    } catch (error: any) {
+      logger.error(`Error generating next occurrence for task ${task._id}:`, error);
+    }
+  },
+
+  /**
+   * Points are posted once per task; completing it again after a reopen does
+   * not pay out or count twice.
+   */
   async awardTaskCompletion(userId: string, task: ITask): Promise<void> {
     try {
+      const basePoints = 100;
+      const { applied } = await pointsLedgerService.award({
+        userId,
+        points: basePoints,
+        reason: 'task_completed',
+        source: 'task',
+        sourceId: String(task._id),
+        description: task.title,
+        idempotencyKey: `task:${task._id}:completed`
+      });
+      if (!applied) return;
+
       let gamification = await Gamification.findOne({ userId });
       
       if (!gamification) {
         gamification = new Gamification({ userId });
       }
 
-      const basePoints = 100;
-      gamification.points += basePoints;
-      gamification.xp += basePoints;
-      
       gamification.stats.tasksCompleted += 1;
       gamification.stats.totalTimeSpent += (task.completionData?.actualDuration || 0);
       
@@ -189,6 +683,16 @@ const taskService = {
       await this.updateStreaks(gamification);
 
       await gamification.save();
+
+      const completedAt = task.completionData?.completedAt || new Date();
+      await achievementService.handleEvent(userId, 'task.completed', {
+        taskId: String(task._id),
+        type: task.type,
+        priority: task.priority,
+        efficiency: task.completionData?.efficiency || 0,
+        durationMinutes: task.completionData?.actualDuration || 0,
+        onTime: !task.dueDate || completedAt <= task.dueDate
+      }, completedAt);
     } catch (error: any) {
       logger.error('Error awarding task completion:', error);
     }
@@ -0,0 +1,202 @@
+import TaskTemplate, { ITaskTemplate } from '../models/TaskTemplate';
+import { ITask } from '../models/Task';
+import taskService from './taskService';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+
+interface InstantiateOptions {
+  variables?: Record<string, any>;
+  includeSubtasks?: boolean;
+  overrides?: {
+    dueDate?: Date;
+    priority?: string;
+    tags?: string[];
+  };
+}
+
+interface InstantiateResult {
+  task: ITask;
+  subtasks: ITask[];
+}
+
+const PLACEHOLDER = /{{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*}}/g;
+
+// Template fields a client may set; ownership and counters stay server-side.
+const EDITABLE_FIELDS = ['name', 'title', 'description', 'type', 'priority', 'estimatedDuration', 'tags', 'checklist', 'subtasks', 'variables'];
+
+const pick = (data: any = {}): any => EDITABLE_FIELDS.reduce((result: any, field: string) => {
+  if (data[field] !== undefined) {
+    result[field] = data[field];
+  }
+  return result;
+}, {});
+
+const taskTemplateService = {
+  async createTemplate(userId: string, templateData: any): Promise<ITaskTemplate> {
+    try {
+      const template = new TaskTemplate({ ...pick(templateData), userId });
+      await template.save();
+      logger.info(`Task template created: ${template._id} for user: ${userId}`);
+      return template;
+    } catch (error: any) {
+      logger.error('Error creating task template:', error);
+      throw error;
+    }
+  },
+
+  async getUserTemplates(userId: string): Promise<ITaskTemplate[]> {
+    try {
+      return await TaskTemplate.find({ userId }).sort({ usageCount: -1, name: 1 });
+    } catch (error: any) {
+      logger.error('Error fetching task templates:', error);
+      throw error;
+    }
+  },
+
+  async getTemplateById(templateId: string, userId: string): Promise<ITaskTemplate> {
+    try {
+      const template = await TaskTemplate.findOne({ _id: templateId, userId });
+      if (!template) {
+        throw createHttpError(404, 'Task template not found');
+      }
+      return template;
+    } catch (error: any) {
+      logger.error('Error fetching task template:', error);
+      throw error;
+    }
+  },
+
+  async updateTemplate(templateId: string, userId: string, updateData: any): Promise<ITaskTemplate> {
+    try {
+      const template = await TaskTemplate.findOneAndUpdate(
+        { _id: templateId, userId },
+        { $set: { ...pick(updateData), updatedAt: new Date() } },
+        { new: true, runValidators: true }
+      );
+      if (!template) {
+        throw createHttpError(404, 'Task template not found');
+      }
+      logger.info(`Task template updated: ${templateId} for user: ${userId}`);
+      return template;
+    } catch (error: any) {
+      logger.error('Error updating task template:', error);
+      throw error;
+    }
+  },
+
+  async deleteTemplate(templateId: string, userId: string): Promise<ITaskTemplate> {
+    try {
+      const template = await TaskTemplate.findOneAndDelete({ _id: templateId, userId });
+      if (!template) {
+        throw createHttpError(404, 'Task template not found');
+      }
+      logger.info(`Task template deleted: ${templateId} for user: ${userId}`);
+      return template;
+    } catch (error: any) {
+      logger.error('Error deleting task template:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Resolves declared variables (request value, then default) and reports any
+   * placeholder used by the template that ends up without a value.
+   */
+  resolveVariables(template: ITaskTemplate, provided: Record<string, any> = {}): Record<string, string> {
+    const values: Record<string, string> = {};
+    (template.variables || []).forEach((variable: any) => {
+      const value = provided[variable.key] ?? variable.defaultValue;
+      if (value !== undefined && value !== null && value !== '') {
+        values[variable.key] = String(value);
+      }
+    });
+    Object.keys(provided).forEach((key: string) => {
+      if (values[key] === undefined && provided[key] !== undefined && provided[key] !== null) {
+        values[key] = String(provided[key]);
+      }
+    });
+
+    const used = new Set<string>();
+    const collect = (text?: string) => {
+      if (!text) return;
+      for (const match of text.matchAll(PLACEHOLDER)) {
+        used.add(match[1]);
+      }
+    };
+    collect(template.title);
+    collect(template.description);
+    (template.tags || []).forEach(collect);
+    (template.checklist || []).forEach((item: any) => collect(item.text));
+    (template.subtasks || []).forEach((subtask: any) => {
+      collect(subtask.title);
+      collect(subtask.description);
+      (subtask.checklist || []).forEach((item: any) => collect(item.text));
+    });
+
+    const required = (template.variables || []).filter((variable: any) => variable.required).map((variable: any) => variable.key);
+    const missing = [...new Set([...required, ...used])].filter((key: string) => values[key] === undefined);
+    if (missing.length > 0) {
+      throw createHttpError(
+        400,
+        `Missing template variables: ${missing.join(', ')}`,
+        missing.map((key: string) => ({ field: `variables.${key}`, message: `"${key}" is required` }))
+      );
+    }
+
+    return values;
+  },
+
+  substitute(text: string | undefined, values: Record<string, string>): string | undefined {
+    if (text === undefined || text === null) {
+      return text;
+    }
+    return text.replace(PLACEHOLDER, (_match: string, key: string) => values[key] ?? '');
+  },
+
+  async instantiate(templateId: string, userId: string, options: InstantiateOptions = {}): Promise<InstantiateResult> {
+    try {
+      const template = await this.getTemplateById(templateId, userId);
+      const values = this.resolveVariables(template, options.variables);
+      const fill = (text?: string) => this.substitute(text, values);
+      const checklistFrom = (items: any[] = []) => items.map((item: any) => ({ text: fill(item.text) }));
+
+      const task = await taskService.createTask(userId, {
+        title: fill(template.title),
+        description: fill(template.description),
+        type: template.type,
+        priority: options.overrides?.priority || template.priority,
+        estimatedDuration: template.estimatedDuration,
+        tags: options.overrides?.tags || (template.tags || []).map(fill),
+        dueDate: options.overrides?.dueDate,
+        checklist: checklistFrom(template.checklist),
+        templateId: template._id
+      });
+
+      const subtasks: ITask[] = [];
+      if (options.includeSubtasks !== false) {
+        for (const subtask of template.subtasks || []) {
+          subtasks.push(await taskService.createTask(userId, {
+            title: fill(subtask.title),
+            description: fill(subtask.description),
+            type: template.type,
+            priority: subtask.priority || template.priority,
+            estimatedDuration: subtask.estimatedDuration,
+            checklist: checklistFrom(subtask.checklist),
+            parentTaskId: task._id,
+            templateId: template._id
+          }));
+        }
+      }
+
+      await TaskTemplate.updateOne({ _id: template._id }, { $inc: { usageCount: 1 } });
+
+      logger.info(`Task ${task._id} instantiated from template ${templateId} for user: ${userId}`);
+      return { task: await taskService.getTaskById(String(task._id), userId), subtasks };
+    } catch (error: any) {
+      logger.error('Error instantiating task template:', error);
+      throw error;
+    }
+  }
+};
+
+export default taskTemplateService;
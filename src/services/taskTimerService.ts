@@ -0,0 +1,128 @@
+import Task, { ITask } from '../models/Task';
+import taskHistoryService from './taskHistoryService';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+
+export type TimerAction = 'start' | 'pause' | 'resume' | 'stop';
+
+interface WorkInterval {
+  startedAt: Date;
+  endedAt?: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Timer state each action may be applied from.
+const ALLOWED_FROM: Record<TimerAction, string[]> = {
+  start: ['idle'],
+  pause: ['running'],
+  resume: ['paused', 'stopped'],
+  stop: ['running', 'paused']
+};
+
+const roundMinutes = (ms: number): number => Math.round((ms / MINUTE_MS) * 100) / 100;
+
+const taskTimerService = {
+  getIntervals(task: ITask): WorkInterval[] {
+    return (task.timeTracking?.intervals || []) as WorkInterval[];
+  },
+
+  hasTrackedTime(task: ITask): boolean {
+    return this.getIntervals(task).length > 0;
+  },
+
+  /**
+   * Total minutes worked across all intervals; an open interval counts up to `now`.
+   */
+  getTrackedMinutes(task: ITask, now: Date = new Date()): number {
+    const total = this.getIntervals(task).reduce((sum: number, interval: WorkInterval) => {
+      const end = interval.endedAt ? new Date(interval.endedAt) : now;
+      return sum + Math.max(0, end.getTime() - new Date(interval.startedAt).getTime());
+    }, 0);
+    return roundMinutes(total);
+  },
+
+  closeOpenInterval(task: ITask, now: Date = new Date()): void {
+    const intervals = this.getIntervals(task);
+    const open = intervals[intervals.length - 1];
+    if (open && !open.endedAt) {
+      open.endedAt = now;
+    }
+  },
+
+  /**
+   * Splits worked time into minutes per hour of day (0-23), for peak-hour analytics.
+   */
+  getMinutesByHour(task: ITask): number[] {
+    const buckets = new Array(24).fill(0);
+
+    this.getIntervals(task).forEach((interval: WorkInterval) => {
+      if (!interval.endedAt) return;
+      let cursor = new Date(interval.startedAt);
+      const end = new Date(interval.endedAt);
+
+      while (cursor < end) {
+        const nextHour = new Date(cursor);
+        nextHour.setMinutes(60, 0, 0);
+        const sliceEnd = nextHour < end ? nextHour : end;
+        buckets[cursor.getHours()] += (sliceEnd.getTime() - cursor.getTime()) / MINUTE_MS;
+        cursor = sliceEnd;
+      }
+    });
+
+    return buckets.map((minutes: number) => Math.round(minutes * 100) / 100);
+  },
+
+  async applyAction(taskId: string, userId: string, action: TimerAction): Promise<ITask> {
+    try {
+      const task = await Task.findOne({ _id: taskId, userId });
+      if (!task) {
+        throw new Error('Task not found');
+      }
+      if (['completed', 'cancelled'].includes(task.status)) {
+        throw createHttpError(409, `Cannot ${action} the timer of a ${task.status} task`);
+      }
+
+      if (!task.timeTracking) {
+        task.timeTracking = { state: 'idle', intervals: [] };
+      }
+      const state = task.timeTracking.state || 'idle';
+      if (!ALLOWED_FROM[action].includes(state)) {
+        throw createHttpError(409, `Cannot ${action} timer while it is ${state}`, { state });
+      }
+
+      const before = task.toObject();
+      const now = new Date();
+      switch (action) {
+        case 'start':
+        case 'resume':
+          task.timeTracking.intervals.push({ startedAt: now });
+          task.timeTracking.state = 'running';
+          if (task.status === 'pending') {
+            task.status = 'in_progress';
+          }
+          break;
+        case 'pause':
+          this.closeOpenInterval(task, now);
+          task.timeTracking.state = 'paused';
+          break;
+        case 'stop':
+          this.closeOpenInterval(task, now);
+          task.timeTracking.state = 'stopped';
+          break;
+      }
+
+      await task.save();
+      // Only the status change is logged; intervals are derived state.
+      await taskHistoryService.record('update', before, task, { actorId: userId });
+
+      logger.info(`Task timer ${action}: ${taskId} for user: ${userId}`);
+      return task;
+    } catch (error: any) {
+      logger.error(`Error applying timer action ${action}:`, error);
+      throw error;
+    }
+  }
+};
+
+export default taskTimerService;
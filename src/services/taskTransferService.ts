@@ -0,0 +1,463 @@
+import mongoose from 'mongoose';
+import Task, { ITask } from '../models/Task';
+import taskService from './taskService';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+
+export type TransferFormat = 'json' | 'csv' | 'ics';
+
+export interface ImportOptions {
+  dryRun?: boolean;
+}
+
+export interface ImportRowResult {
+  row: number;
+  sourceId?: string;
+  status: 'created' | 'valid' | 'duplicate' | 'error';
+  taskId?: string;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  format: TransferFormat;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  valid: number;
+  duplicates: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+export const TRANSFER_FORMATS: TransferFormat[] = ['json', 'csv', 'ics'];
+export const MAX_IMPORT_ROWS = 1000;
+
+const CSV_COLUMNS = ['sourceId', 'title', 'description', 'type', 'status', 'priority', 'dueDate', 'estimatedDuration', 'tags'];
+
+const TYPES = ['manual', 'notion', 'trello', 'github', 'google_docs', 'pdf', 'code', 'study', 'creative'];
+const STATUSES = ['pending', 'in_progress', 'completed', 'cancelled'];
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+
+// iCalendar PRIORITY runs 1 (highest) to 9 (lowest); 0 means undefined.
+const ICS_PRIORITY: Record<string, number> = { urgent: 1, high: 3, medium: 5, low: 9 };
+const ICS_STATUS: Record<string, string> = {
+  pending: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED'
+};
+
+const fromIcsPriority = (value: string): string | undefined => {
+  const priority = parseInt(value, 10);
+  if (!priority) return undefined;
+  if (priority <= 2) return 'urgent';
+  if (priority <= 4) return 'high';
+  if (priority <= 6) return 'medium';
+  return 'low';
+};
+
+const fromIcsStatus = (value: string): string | undefined =>
+  Object.keys(ICS_STATUS).find((status: string) => ICS_STATUS[status] === value.toUpperCase());
+
+const csvEscape = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const icsEscape = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const icsUnescape = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_match: string, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const icsDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Content lines longer than 75 octets are folded onto continuation lines (RFC 5545 §3.1).
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 75) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = ' ' + rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+};
+
+const parseIcsDate = (value: string): Date | undefined => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour = '00', minute = '00', second = '00', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+// Tasks created here export their own ID, which importTasks also recognises.
+const sourceIdOf = (task: any): string => task.metadata?.sourceId || String(task._id);
+
+const taskTransferService = {
+  async exportTasks(userId: string, format: TransferFormat = 'json'): Promise<any> {
+    try {
+      if (!TRANSFER_FORMATS.includes(format)) {
+        throw createHttpError(400, `Unsupported export format: ${format}`);
+      }
+
+      const tasks = await Task.find({ userId }).sort({ createdAt: 1 }).lean();
+
+      if (format === 'csv') {
+        return this.toCSV(tasks);
+      }
+      if (format === 'ics') {
+        return this.toICS(tasks);
+      }
+      return tasks.map((task: any) => ({
+        sourceId: sourceIdOf(task),
+        title: task.title,
+        description: task.description,
+        type: task.type,
+        status: task.status,
+        priority: task.priority,
+        dueDate: task.dueDate,
+        estimatedDuration: task.estimatedDuration,
+        tags: task.tags || []
+      }));
+    } catch (error: any) {
+      logger.error('Error exporting tasks:', error);
+      throw error;
+    }
+  },
+
+  toCSV(tasks: any[]): string {
+    const rows = [CSV_COLUMNS.join(',')];
+    tasks.forEach((task: any) => {
+      rows.push([
+        sourceIdOf(task),
+        task.title,
+        task.description,
+        task.type,
+        task.status,
+        task.priority,
+        task.dueDate ? new Date(task.dueDate).toISOString() : '',
+        task.estimatedDuration,
+        (task.tags || []).join(';')
+      ].map(csvEscape).join(','));
+    });
+    return rows.join('\r\n');
+  },
+
+  toICS(tasks: any[]): string {
+    const stamp = icsDate(new Date());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Deepiri//Tasks//EN'
+    ];
+
+    tasks.forEach((task: any) => {
+      lines.push('BEGIN:VTODO');
+      lines.push(`UID:${icsEscape(sourceIdOf(task))}`);
+      lines.push(`DTSTAMP:${stamp}`);
+      lines.push(`SUMMARY:${icsEscape(task.title)}`);
+      if (task.description) {
+        lines.push(`DESCRIPTION:${icsEscape(task.description)}`);
+      }
+      if (task.dueDate) {
+        lines.push(`DUE:${icsDate(new Date(task.dueDate))}`);
+      }
+      lines.push(`PRIORITY:${ICS_PRIORITY[task.priority] || 0}`);
+      lines.push(`STATUS:${ICS_STATUS[task.status] || 'NEEDS-ACTION'}`);
+      if (task.tags?.length) {
+        lines.push(`CATEGORIES:${task.tags.map(icsEscape).join(',')}`);
+      }
+      if (task.completionData?.completedAt) {
+        lines.push(`COMPLETED:${icsDate(new Date(task.completionData.completedAt))}`);
+      }
+      lines.push('END:VTODO');
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  },
+
+  /**
+   * RFC 4180 parser: quoted fields may contain commas, doubled quotes and newlines.
+   * Returns one record per row keyed by the header line.
+   */
+  parseCSV(content: string): any[] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field !== '' || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    const [header = [], ...rows] = records.filter((row: string[]) => row.some((value: string) => value.trim() !== ''));
+    const columns = header.map((column: string) => column.trim());
+    return rows.map((row: string[]) => columns.reduce((result: any, column: string, index: number) => {
+      if (row[index] !== undefined && row[index] !== '') {
+        result[column] = row[index];
+      }
+      return result;
+    }, {}));
+  },
+
+  parseICS(content: string): any[] {
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const todos: any[] = [];
+    let current: any = null;
+
+    lines.forEach((line: string) => {
+      if (line === 'BEGIN:VTODO') {
+        current = {};
+        return;
+      }
+      if (line === 'END:VTODO') {
+        if (current) todos.push(current);
+        current = null;
+        return;
+      }
+      if (!current) return;
+
+      const separator = line.indexOf(':');
+      if (separator === -1) return;
+      const name = line.slice(0, separator).split(';')[0].toUpperCase();
+      const value = line.slice(separator + 1);
+
+      switch (name) {
+        case 'UID':
+          current.sourceId = icsUnescape(value);
+          break;
+        case 'SUMMARY':
+          current.title = icsUnescape(value);
+          break;
+        case 'DESCRIPTION':
+          current.description = icsUnescape(value);
+          break;
+        case 'DUE':
+          current.dueDate = parseIcsDate(value) || value;
+          break;
+        case 'PRIORITY':
+          current.priority = fromIcsPriority(value);
+          break;
+        case 'STATUS':
+          current.status = fromIcsStatus(value) || value;
+          break;
+        case 'CATEGORIES':
+          current.tags = value.split(/(?<!\\),/).map(icsUnescape);
+          break;
+      }
+    });
+
+    return todos;
+  },
+
+  parse(format: TransferFormat, content: any): any[] {
+    if (format === 'json') {
+      const rows = typeof content === 'string' ? JSON.parse(content) : content;
+      if (!Array.isArray(rows)) {
+        throw createHttpError(400, 'JSON import must be an array of tasks');
+      }
+      return rows;
+    }
+    if (typeof content !== 'string') {
+      throw createHttpError(400, `${format.toUpperCase()} import must be sent as text`);
+    }
+    return format === 'csv' ? this.parseCSV(content) : this.parseICS(content);
+  },
+
+  /**
+   * Normalises one imported row into task data, collecting every problem
+   * instead of stopping at the first.
+   */
+  normalizeRow(row: any): { data?: any; sourceId?: string; errors: string[] } {
+    const errors: string[] = [];
+    if (!row || typeof row !== 'object') {
+      return { errors: ['Row is not an object'] };
+    }
+
+    const sourceId = row.sourceId ?? row.metadata?.sourceId;
+    const title = typeof row.title === 'string' ? row.title.trim() : '';
+    if (!title) {
+      errors.push('title is required');
+    } else if (title.length > 200) {
+      errors.push('title must be at most 200 characters');
+    }
+    if (row.description && String(row.description).length > 2000) {
+      errors.push('description must be at most 2000 characters');
+    }
+    if (row.type && !TYPES.includes(row.type)) {
+      errors.push(`type must be one of: ${TYPES.join(', ')}`);
+    }
+    if (row.status && !STATUSES.includes(row.status)) {
+      errors.push(`status must be one of: ${STATUSES.join(', ')}`);
+    }
+    if (row.priority && !PRIORITIES.includes(row.priority)) {
+      errors.push(`priority must be one of: ${PRIORITIES.join(', ')}`);
+    }
+
+    let dueDate: Date | undefined;
+    if (row.dueDate) {
+      dueDate = new Date(row.dueDate);
+      if (Number.isNaN(dueDate.getTime())) {
+        errors.push('dueDate is not a valid date');
+      }
+    }
+
+    let estimatedDuration: number | undefined;
+    if (row.estimatedDuration !== undefined && row.estimatedDuration !== '') {
+      estimatedDuration = Number(row.estimatedDuration);
+      if (!Number.isFinite(estimatedDuration) || estimatedDuration < 1) {
+        errors.push('estimatedDuration must be a positive number');
+      }
+    }
+
+    const tags = Array.isArray(row.tags)
+      ? row.tags
+      : typeof row.tags === 'string' ? row.tags.split(';') : [];
+
+    if (errors.length > 0) {
+      return { sourceId, errors };
+    }
+
+    return {
+      sourceId: sourceId ? String(sourceId) : undefined,
+      errors,
+      data: {
+        title,
+        description: row.description || undefined,
+        type: row.type || undefined,
+        status: row.status || undefined,
+        priority: row.priority || undefined,
+        dueDate,
+        estimatedDuration,
+        tags: tags.map((tag: string) => String(tag).trim()).filter(Boolean),
+        metadata: sourceId ? { sourceId: String(sourceId) } : undefined,
+        ...(row.status === 'completed' ? { completionData: { completedAt: new Date() } } : {})
+      }
+    };
+  },
+
+  /**
+   * Validates every row, skips rows whose sourceId already exists (as another
+   * task's `metadata.sourceId` or `_id`, or earlier in the same file) and,
+   * unless `dryRun`, creates the rest.
+   */
+  async importTasks(userId: string, format: TransferFormat, content: any, options: ImportOptions = {}): Promise<ImportReport> {
+    try {
+      if (!TRANSFER_FORMATS.includes(format)) {
+        throw createHttpError(400, `Unsupported import format: ${format}`);
+      }
+
+      let rows: any[];
+      try {
+        rows = this.parse(format, content);
+      } catch (error: any) {
+        if (error.statusCode) throw error;
+        throw createHttpError(400, `Could not parse ${format.toUpperCase()} import: ${error.message}`);
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        throw createHttpError(400, `An import may contain at most ${MAX_IMPORT_ROWS} tasks`);
+      }
+
+      const normalized = rows.map((row: any) => this.normalizeRow(row));
+      const sourceIds = normalized.map((row: any) => row.sourceId).filter(Boolean);
+      const taskIds = sourceIds.filter((sourceId: string) => mongoose.isObjectIdOrHexString(sourceId));
+      const existing = await Task.find({
+        userId,
+        $or: [{ 'metadata.sourceId': { $in: sourceIds } }, { _id: { $in: taskIds } }]
+      })
+        .select('_id metadata.sourceId')
+        .lean();
+      const seen = new Set<string>();
+      existing.forEach((task: any) => {
+        seen.add(String(task._id));
+        if (task.metadata?.sourceId) seen.add(task.metadata.sourceId);
+      });
+
+      const dryRun = !!options.dryRun;
+      const results: ImportRowResult[] = [];
+
+      for (let index = 0; index < normalized.length; index++) {
+        const { data, sourceId, errors } = normalized[index];
+        const row = index + 1;
+
+        if (errors.length > 0) {
+          results.push({ row, sourceId, status: 'error', errors });
+          continue;
+        }
+        if (sourceId && seen.has(sourceId)) {
+          results.push({ row, sourceId, status: 'duplicate' });
+          continue;
+        }
+        if (sourceId) {
+          seen.add(sourceId);
+        }
+
+        if (dryRun) {
+          results.push({ row, sourceId, status: 'valid' });
+          continue;
+        }
+
+        try {
+          const task: ITask = await taskService.createTask(userId, data);
+          results.push({ row, sourceId, status: 'created', taskId: String(task._id) });
+        } catch (error: any) {
+          results.push({ row, sourceId, status: 'error', errors: [error.message] });
+        }
+      }
+
+      const count = (status: ImportRowResult['status']) =>
+        results.filter((result: ImportRowResult) => result.status === status).length;
+
+      logger.info(`Task import (${format}${dryRun ? ', dry run' : ''}) for user ${userId}: ${count('created')} created, ${count('duplicate')} duplicates, ${count('error')} failed`);
+
+      return {
+        format,
+        dryRun,
+        total: results.length,
+        created: count('created'),
+        valid: count('valid'),
+        duplicates: count('duplicate'),
+        failed: count('error'),
+        rows: results
+      };
+    } catch (error: any) {
+      logger.error('Error importing tasks:', error);
+      throw error;
+    }
+  }
+};
+
+export default taskTransferService;
@@ -0,0 +1,128 @@
+import Team, { ITeam, MAX_TEAM_SIZE } from '../models/Team';
+import User from '../models/User';
+import logger from '../utils/logger';
+import { createHttpError } from '../utils/httpError';
+
+const isMember = (team: ITeam, userId: string): boolean =>
+  team.memberIds.some((memberId) => String(memberId) === String(userId));
+
+const teamService = {
+  async createTeam(ownerId: string, data: { name: string; description?: string }): Promise<ITeam> {
+    try {
+      const team = new Team({
+        name: data.name,
+        description: data.description,
+        ownerId,
+        memberIds: [ownerId]
+      });
+
+      await team.save();
+      logger.info(`Team created: ${team._id} by user: ${ownerId}`);
+      return team;
+    } catch (error: any) {
+      logger.error('Error creating team:', error);
+      throw error;
+    }
+  },
+
+  async getUserTeams(userId: string): Promise<ITeam[]> {
+    try {
+      return await Team.find({ memberIds: userId }).sort({ createdAt: -1 });
+    } catch (error: any) {
+      logger.error('Error fetching teams:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Teams are only visible to their members; anyone else gets a 404.
+   */
+  async getTeam(teamId: string, userId: string): Promise<ITeam> {
+    try {
+      const team = await Team.findById(teamId);
+      if (!team || !isMember(team, userId)) {
+        throw createHttpError(404, 'Team not found');
+      }
+      return team;
+    } catch (error: any) {
+      logger.error('Error fetching team:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * The owner can add people from their friends list, so nobody ends up on a
+   * team (and its leaderboard) run by a stranger.
+   */
+  async addMember(teamId: string, ownerId: string, memberId: string): Promise<ITeam> {
+    try {
+      const team = await this.getTeam(teamId, ownerId);
+      if (String(team.ownerId) !== String(ownerId)) {
+        throw createHttpError(403, 'Only the team owner can add members');
+      }
+      if (isMember(team, memberId)) {
+        return team;
+      }
+
+      const owner = await User.findById(ownerId).select('friends');
+      if (!owner?.friends.some((friendId) => String(friendId) === String(memberId))) {
+        throw createHttpError(400, 'Only friends can be added to a team');
+      }
+
+      const updated = await Team.findOneAndUpdate(
+        { _id: teamId, [`memberIds.${MAX_TEAM_SIZE - 1}`]: { $exists: false } },
+        { $addToSet: { memberIds: memberId }, $set: { updatedAt: new Date() } },
+        { new: true }
+      );
+      if (!updated) {
+        throw createHttpError(409, `Teams are limited to ${MAX_TEAM_SIZE} members`);
+      }
+      return updated;
+    } catch (error: any) {
+      logger.error('Error adding team member:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Members may leave; the owner may remove anyone else. The owner leaves a
+   * team by deleting it.
+   */
+  async removeMember(teamId: string, userId: string, memberId: string): Promise<ITeam> {
+    try {
+      const team = await this.getTeam(teamId, userId);
+      const isOwner = String(team.ownerId) === String(userId);
+      if (String(memberId) !== String(userId) && !isOwner) {
+        throw createHttpError(403, 'Only the team owner can remove other members');
+      }
+      if (String(memberId) === String(team.ownerId)) {
+        throw createHttpError(400, 'The owner cannot leave the team; delete it instead');
+      }
+
+      const updated = await Team.findByIdAndUpdate(
+        teamId,
+        { $pull: { memberIds: memberId }, $set: { updatedAt: new Date() } },
+        { new: true }
+      );
+      return updated!;
+    } catch (error: any) {
+      logger.error('Error removing team member:', error);
+      throw error;
+    }
+  },
+
+  async deleteTeam(teamId: string, ownerId: string): Promise<void> {
+    try {
+      const result = await Team.deleteOne({ _id: teamId, ownerId });
+      if (result.deletedCount === 0) {
+        throw createHttpError(404, 'Team not found');
+      }
+      logger.info(`Team deleted: ${teamId}`);
+    } catch (error: any) {
+      logger.error('Error deleting team:', error);
+      throw error;
+    }
+  }
+};
+
+export default teamService;
@@ -2,6 +2,7 @@ import UserItem, { IUserItem } from '../models/UserItem';
 import User from '../models/User';
 import cacheService from './cacheService';
 import logger from '../utils/logger';
+import { paginate, Page, SortSpec } from '../utils/pagination';
 import mongoose from 'mongoose';
 
 interface ItemData {
@@ -33,6 +34,7 @@ interface ItemOptions {
   isPublic?: boolean;
   tags?: string[];
   sort?: any;
+  cursor?: string;
   limit?: number;
   skip?: number;
 }
@@ -84,7 +86,7 @@ class UserItemService {
     }
   }
 
-  async getUserItems(userId: string, options: ItemOptions = {}): Promise<IUserItem[]> {
+  async getUserItems(userId: string, options: ItemOptions = {}): Promise<Page<IUserItem>> {
     try {
       const {
         category = 'all',
@@ -93,6 +95,7 @@ class UserItemService {
         isPublic,
         tags,
         sort = { createdAt: -1 },
+        cursor,
         limit = 50,
         skip = 0
       } = options;
@@ -100,7 +103,7 @@ class UserItemService {
       const cacheKey = `user_items:${userId}:${JSON.stringify(options)}`;
       const cached = await cacheService.get(cacheKey);
       if (cached) {
-        return cached as IUserItem[];
+        return cached as Page<IUserItem>;
       }
 
       const query: any = { userId, status };
@@ -121,15 +124,20 @@ class UserItemService {
         query['metadata.tags'] = { $in: tags };
       }
 
-      const items = await UserItem.find(query)
-        .sort(sort)
-        .limit(limit)
-        .skip(skip)
-        .lean();
+      const [sortField, sortOrder] = Object.entries(sort)[0] || ['createdAt', -1];
+      const sortSpec: SortSpec = { field: sortField, direction: Number(sortOrder) === 1 ? 1 : -1 };
 
-      await cacheService.set(cacheKey, items, 1800);
+      const page = await paginate<IUserItem>(
+        UserItem,
+        query,
+        sortSpec,
+        { cursor, limit, skip },
+        (items: any) => items.lean()
+      );
 
-      return items as unknown as IUserItem[];
+      await cacheService.set(cacheKey, page, 1800);
+
+      return page;
 
     } catch (error: any) {
       logger.error('Failed to get user items:', error);
@@ -315,8 +323,8 @@ class UserItemService {
         categoryStats,
         rarityStats
       ] = await Promise.all([
-        this.getUserItems(userId, { limit: 5, sort: { createdAt: -1 } }),
-        this.getUserItems(userId, { isFavorite: true, limit: 10 }),
+        this.getUserItems(userId, { limit: 5, sort: { createdAt: -1 } }).then((page: Page<IUserItem>) => page.items),
+        this.getUserItems(userId, { isFavorite: true, limit: 10 }).then((page: Page<IUserItem>) => page.items),
         this.getCategoryStats(userId),
         this.getRarityStats(userId)
       ]);
@@ -3,6 +3,8 @@ import Adventure from '../models/Adventure';
 import Event from '../models/Event';
 import Notification from '../models/Notification';
 import cacheService from './cacheService';
+import cascadeService from './cascadeService';
+import leaderboardService, { ScopeOptions, ScopedLeaderboard } from './leaderboardService';
 import logger from '../utils/logger';
 import mongoose from 'mongoose';
 
@@ -420,22 +422,17 @@ class UserService {
       const timeRangeMs = this.getTimeRangeMs(timeRange);
       const startDate = new Date(Date.now() - timeRangeMs);
 
+      const hidden = await leaderboardService.getHiddenUserIds();
+
       const users = await User.find({
+        _id: { $nin: Array.from(hidden) },
         'stats.lastAdventureDate': { $gte: startDate }
       })
       .sort({ 'stats.totalPoints': -1 })
       .limit(limit)
       .select('name profilePicture stats');
 
-      return users.map((user, index) => ({
-        rank: index + 1,
-        userId: user._id,
-        name: user.name,
-        profilePicture: user.profilePicture,
-        points: user.stats.totalPoints,
-        adventuresCompleted: user.stats.adventuresCompleted,
-        streak: user.stats.streak
-      }));
+      return users.map((user, index) => this.toLeaderboardEntry(user, index + 1));
 
     } catch (error: any) {
       logger.error('Failed to get leaderboard:', error);
@@ -443,6 +440,55 @@ class UserService {
     }
   }
 
+  /**
+   * Adventure leaderboard limited to the user's friends, a team or a cohort.
+   * The requester is always ranked, even when opted out or inactive in the
+   * time range (then with a null rank).
+   */
+  async getScopedUserLeaderboard(userId: string, options: ScopeOptions, timeRange: string = '30d', limit: number = 50): Promise<ScopedLeaderboard> {
+    try {
+      const startDate = new Date(Date.now() - this.getTimeRangeMs(timeRange));
+      const members = await leaderboardService.resolveScopeMembers(userId, options);
+      const hidden = await leaderboardService.getHiddenUserIds(members);
+
+      const users = await User.find({
+        _id: { $in: members.filter((id: string) => id === String(userId) || !hidden.has(id)) }
+      })
+      .sort({ 'stats.totalPoints': -1, _id: 1 })
+      .select('name profilePicture stats');
+
+      const active = users.filter((user) => user.stats.lastAdventureDate && user.stats.lastAdventureDate >= startDate);
+      const ranked = active.map((user, index) => this.toLeaderboardEntry(user, index + 1));
+
+      let currentUser = ranked.find((entry) => String(entry.userId) === String(userId)) || null;
+      if (!currentUser) {
+        const self = users.find((user) => String(user._id) === String(userId));
+        currentUser = self ? this.toLeaderboardEntry(self, null) : null;
+      }
+
+      return {
+        entries: ranked.slice(0, limit),
+        currentUser,
+        total: ranked.length
+      };
+    } catch (error: any) {
+      logger.error('Failed to get scoped leaderboard:', error);
+      throw error;
+    }
+  }
+
+  private toLeaderboardEntry(user: IUser, rank: number | null): any {
+    return {
+      rank,
+      userId: user._id,
+      name: user.name,
+      profilePicture: user.profilePicture,
+      points: user.stats.totalPoints,
+      adventuresCompleted: user.stats.adventuresCompleted,
+      streak: user.stats.streak
+    };
+  }
+
   async deleteUser(userId: string): Promise<boolean> {
     try {
       const user = await User.findById(userId);
@@ -450,13 +496,7 @@ class UserService {
         throw new Error('User not found');
       }
 
-      await Adventure.deleteMany({ userId: userId });
-      await Event.deleteMany({ 'host.userId': userId });
-      await User.updateMany(
-        { friends: userId },
-        { $pull: { friends: userId } }
-      );
-      await Notification.deleteMany({ userId: userId });
+      await cascadeService.onUserDeleted(userId);
       await User.findByIdAndDelete(userId);
       await cacheService.clearUserCache(userId);
 
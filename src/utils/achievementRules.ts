@@ -0,0 +1,179 @@
+import { ACHIEVEMENT_EVENT_TYPES, ACHIEVEMENT_EVENT_RETENTION_DAYS, AchievementEventType } from '../models/AchievementEvent';
+
+/**
+ * Achievement conditions, stored as JSON on a badge. A rule is one of:
+ *
+ *   { all: [rule, ...] }                 every sub-rule holds
+ *   { any: [rule, ...] }                 at least one sub-rule holds
+ *   { stat, op?, value }                 a profile stat compared to a number
+ *   { event, where?, count?, withinDays? } enough matching domain events
+ *
+ * For example "5 code tasks before 9am in a week":
+ *
+ *   { event: 'task.completed', where: { type: 'code', hourUtc: { lt: 9 } }, count: 5, withinDays: 7 }
+ *
+ * Every event carries `hourUtc` and `weekdayUtc` (0 = Sunday) besides its
+ * own fields; `where` compares those with a value or { eq|ne|gt|gte|lt|lte|in }.
+ */
+export type ComparisonOp = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+
+export type WhereCondition = string | number | boolean | Partial<Record<ComparisonOp, any>>;
+
+export type AchievementRule =
+  | { all: AchievementRule[] }
+  | { any: AchievementRule[] }
+  | { stat: string; op?: Exclude<ComparisonOp, 'in' | 'ne'>; value: number }
+  | { event: AchievementEventType; where?: Record<string, WhereCondition>; count?: number; withinDays?: number };
+
+export const RULE_STATS = [
+  'points', 'level', 'badgeCount',
+  'stats.tasksCompleted', 'stats.challengesCompleted', 'stats.totalTimeSpent', 'stats.averageEfficiency',
+  'stats.perfectCompletions', 'stats.duelsPlayed', 'stats.duelsWon',
+  'streaks.daily.current', 'streaks.daily.longest', 'streaks.weekly.current', 'streaks.weekly.longest'
+];
+
+const COMPARISON_OPS: ComparisonOp[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'];
+const STAT_OPS = ['eq', 'gt', 'gte', 'lt', 'lte'];
+const FIELD_PATTERN = /^[a-zA-Z][a-zA-Z0-9]*$/;
+const MAX_DEPTH = 5;
+
+// Badge criteria from before rules existed, expressed as rules.
+const LEGACY_STATS: Record<string, string> = {
+  streak: 'streaks.daily.current',
+  tasks_completed: 'stats.tasksCompleted',
+  challenges_completed: 'stats.challengesCompleted',
+  efficiency: 'stats.averageEfficiency',
+  points: 'points'
+};
+
+const isObject = (value: any): boolean => !!value && typeof value === 'object' && !Array.isArray(value);
+const isScalar = (value: any): boolean => ['string', 'number', 'boolean'].includes(typeof value);
+
+/**
+ * Checks a rule's shape and returns the problems found, each prefixed with
+ * the path to the offending node. An empty list means the rule is valid.
+ */
+export const validateRule = (rule: any, path: string = 'rule', depth: number = 0): string[] => {
+  if (!isObject(rule)) {
+    return [`${path} must be an object`];
+  }
+  if (depth >= MAX_DEPTH) {
+    return [`${path} is nested more than ${MAX_DEPTH} levels deep`];
+  }
+
+  const kinds = ['all', 'any', 'stat', 'event'].filter((key: string) => key in rule);
+  if (kinds.length !== 1) {
+    return [`${path} must have exactly one of all, any, stat or event`];
+  }
+
+  const errors: string[] = [];
+  switch (kinds[0]) {
+    case 'all':
+    case 'any': {
+      const children = rule[kinds[0]];
+      if (!Array.isArray(children) || children.length === 0) {
+        return [`${path}.${kinds[0]} must be a non-empty array`];
+      }
+      children.forEach((child: any, index: number) => {
+        errors.push(...validateRule(child, `${path}.${kinds[0]}[${index}]`, depth + 1));
+      });
+      break;
+    }
+    case 'stat':
+      if (!RULE_STATS.includes(rule.stat)) {
+        errors.push(`${path}.stat must be one of ${RULE_STATS.join(', ')}`);
+      }
+      if (rule.op !== undefined && !STAT_OPS.includes(rule.op)) {
+        errors.push(`${path}.op must be one of ${STAT_OPS.join(', ')}`);
+      }
+      if (typeof rule.value !== 'number' || !Number.isFinite(rule.value)) {
+        errors.push(`${path}.value must be a number`);
+      }
+      break;
+    case 'event':
+      if (!ACHIEVEMENT_EVENT_TYPES.includes(rule.event)) {
+        errors.push(`${path}.event must be one of ${ACHIEVEMENT_EVENT_TYPES.join(', ')}`);
+      }
+      if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+        errors.push(`${path}.count must be a positive integer`);
+      }
+      if (rule.withinDays !== undefined
+        && (typeof rule.withinDays !== 'number' || rule.withinDays <= 0 || rule.withinDays > ACHIEVEMENT_EVENT_RETENTION_DAYS)) {
+        errors.push(`${path}.withinDays must be between 1 and ${ACHIEVEMENT_EVENT_RETENTION_DAYS}`);
+      }
+      if (rule.withinDays === undefined) {
+        // Events are only kept for the retention period, so an open-ended
+        // count would quietly shrink over time.
+        errors.push(`${path}.withinDays is required for event rules`);
+      }
+      if (rule.where !== undefined) {
+        if (!isObject(rule.where)) {
+          errors.push(`${path}.where must be an object`);
+        } else {
+          Object.entries(rule.where).forEach(([field, condition]: [string, any]) => {
+            if (!FIELD_PATTERN.test(field)) {
+              errors.push(`${path}.where.${field} is not a valid field name`);
+            } else if (isObject(condition)) {
+              Object.entries(condition).forEach(([op, value]: [string, any]) => {
+                if (!COMPARISON_OPS.includes(op as ComparisonOp)) {
+                  errors.push(`${path}.where.${field}.${op} is not a supported comparison`);
+                } else if (op === 'in' ? !Array.isArray(value) || !value.every(isScalar) : !isScalar(value)) {
+                  errors.push(`${path}.where.${field}.${op} has an invalid value`);
+                }
+              });
+            } else if (!isScalar(condition)) {
+              errors.push(`${path}.where.${field} must be a value or a comparison`);
+            }
+          });
+        }
+      }
+      break;
+  }
+  return errors;
+};
+
+/**
+ * The rule a badge is judged by: its own rule, or one derived from the legacy
+ * criteria type. `custom` badges without a rule are never awarded automatically.
+ */
+export const ruleForCriteria = (criteria: { type: string; value?: number; rule?: AchievementRule }): AchievementRule | null => {
+  if (criteria.rule) {
+    return criteria.rule;
+  }
+  const stat = LEGACY_STATS[criteria.type];
+  return stat && criteria.value !== undefined ? { stat, op: 'gte', value: criteria.value } : null;
+};
+
+export const eventTypesOf = (rule: AchievementRule, into: Set<string> = new Set()): Set<string> => {
+  if ('all' in rule) rule.all.forEach((child: AchievementRule) => eventTypesOf(child, into));
+  else if ('any' in rule) rule.any.forEach((child: AchievementRule) => eventTypesOf(child, into));
+  else if ('event' in rule) into.add(rule.event);
+  return into;
+};
+
+export const usesStats = (rule: AchievementRule): boolean => {
+  if ('all' in rule) return rule.all.some(usesStats);
+  if ('any' in rule) return rule.any.some(usesStats);
+  return 'stat' in rule;
+};
+
+export const compare = (actual: number, op: string, expected: number): boolean => {
+  switch (op) {
+    case 'eq': return actual === expected;
+    case 'gt': return actual > expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    default: return actual >= expected;
+  }
+};
+
+/** MongoDB conditions on an event's `data` for a rule's `where` clause. */
+export const whereFilter = (where: Record<string, WhereCondition> = {}): any => {
+  const filter: any = {};
+  Object.entries(where).forEach(([field, condition]: [string, any]) => {
+    filter[`data.${field}`] = isObject(condition)
+      ? Object.fromEntries(Object.entries(condition).map(([op, value]: [string, any]) => [`$${op}`, value]))
+      : condition;
+  });
+  return filter;
+};
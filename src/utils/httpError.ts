@@ -0,0 +1,19 @@
+export interface HttpError extends Error {
+  statusCode: number;
+  details?: any;
+}
+
+/**
+ * Builds an Error carrying an HTTP status code (and optional structured details)
+ * that `errorHandler` turns into the matching response.
+ */
+export const createHttpError = (statusCode: number, message: string, details?: any): HttpError => {
+  const error = new Error(message) as HttpError;
+  error.statusCode = statusCode;
+  if (details !== undefined) {
+    error.details = details;
+  }
+  return error;
+};
+
+export default createHttpError;
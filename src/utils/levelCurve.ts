@@ -0,0 +1,144 @@
+export type LevelCurveType = 'exponential' | 'linear' | 'table';
+
+export interface LevelCurveConfig {
+  type: LevelCurveType;
+  /** XP needed to leave level 1. */
+  base: number;
+  /** Exponential curves: each level needs `growth` times the previous one. */
+  growth: number;
+  /** Linear curves: each level needs `step` more XP than the previous one. */
+  step: number;
+  /** Table curves: XP needed to leave level 1, 2, ...; the last value repeats. */
+  table: number[];
+  maxLevel: number;
+}
+
+export interface LevelProgress {
+  level: number;
+  /** XP earned inside the current level. */
+  xp: number;
+  /** XP still required for the current level; 0 at the maximum level. */
+  xpToNextLevel: number;
+}
+
+export interface LevelCurve {
+  config: LevelCurveConfig;
+  xpForLevel(level: number): number;
+  progressFor(totalXp: number): LevelProgress;
+  totalXpFor(level: number, xp: number): number;
+  describe(upTo?: number): Array<{ level: number; xpRequired: number; totalXp: number }>;
+}
+
+const DEFAULT_CONFIG: LevelCurveConfig = {
+  type: 'exponential',
+  base: 1000,
+  growth: 1.5,
+  step: 500,
+  table: [],
+  maxLevel: 100
+};
+
+const readNumber = (value: string | undefined, name: string, fallback: number, allowZero: boolean = false): number => {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || (parsed === 0 && !allowZero)) {
+    throw new Error(`${name} must be a ${allowZero ? 'non-negative' : 'positive'} number, got "${value}"`);
+  }
+  return parsed;
+};
+
+/**
+ * Reads the curve from LEVEL_CURVE* variables. The defaults reproduce the
+ * original progression: 1000 XP for level 2, then 50% more per level.
+ */
+export const parseLevelCurveConfig = (env: NodeJS.ProcessEnv = process.env): LevelCurveConfig => {
+  const type = (env.LEVEL_CURVE || DEFAULT_CONFIG.type) as LevelCurveType;
+  if (!['exponential', 'linear', 'table'].includes(type)) {
+    throw new Error(`LEVEL_CURVE must be exponential, linear or table, got "${type}"`);
+  }
+
+  const table = (env.LEVEL_CURVE_TABLE || '')
+    .split(',')
+    .map((value: string) => value.trim())
+    .filter(Boolean)
+    .map((value: string) => readNumber(value, 'LEVEL_CURVE_TABLE', 0));
+  if (type === 'table' && table.length === 0) {
+    throw new Error('LEVEL_CURVE_TABLE is required when LEVEL_CURVE=table');
+  }
+
+  // Growth below 1 would make later levels cheaper until they cost nothing.
+  const growth = readNumber(env.LEVEL_CURVE_GROWTH, 'LEVEL_CURVE_GROWTH', DEFAULT_CONFIG.growth);
+  if (growth < 1) {
+    throw new Error(`LEVEL_CURVE_GROWTH must be at least 1, got "${env.LEVEL_CURVE_GROWTH}"`);
+  }
+
+  return {
+    type,
+    base: readNumber(env.LEVEL_CURVE_BASE, 'LEVEL_CURVE_BASE', DEFAULT_CONFIG.base),
+    growth,
+    step: readNumber(env.LEVEL_CURVE_STEP, 'LEVEL_CURVE_STEP', DEFAULT_CONFIG.step, true),
+    table,
+    maxLevel: Math.max(1, Math.floor(readNumber(env.LEVEL_CURVE_MAX_LEVEL, 'LEVEL_CURVE_MAX_LEVEL', DEFAULT_CONFIG.maxLevel)))
+  };
+};
+
+export const createLevelCurve = (config: LevelCurveConfig): LevelCurve => {
+  // requirements[i] is the XP needed to go from level i + 1 to level i + 2.
+  // Exponential steps are floored one at a time, as the old save hook did, so
+  // existing profiles keep their thresholds.
+  const requirements: number[] = [];
+  for (let level = 1; level < config.maxLevel; level++) {
+    switch (config.type) {
+      case 'exponential':
+        requirements.push(level === 1 ? Math.floor(config.base) : Math.floor(requirements[level - 2] * config.growth));
+        break;
+      case 'linear':
+        requirements.push(Math.floor(config.base + config.step * (level - 1)));
+        break;
+      case 'table':
+        requirements.push(Math.floor(config.table[Math.min(level, config.table.length) - 1]));
+        break;
+    }
+  }
+  // A level that needs no XP would be crossed by every award, however small.
+  const free = requirements.findIndex((required: number) => !(required > 0));
+  if (free !== -1) {
+    throw new Error(`Level curve must require XP for every level; level ${free + 1} requires ${requirements[free]}`);
+  }
+
+  const xpForLevel = (level: number): number =>
+    level >= config.maxLevel ? 0 : requirements[Math.max(1, Math.floor(level)) - 1];
+
+  return {
+    config,
+    xpForLevel,
+
+    progressFor(totalXp: number): LevelProgress {
+      let level = 1;
+      let xp = Math.max(0, Math.floor(totalXp));
+      while (level < config.maxLevel && xp >= requirements[level - 1]) {
+        xp -= requirements[level - 1];
+        level += 1;
+      }
+      return { level, xp, xpToNextLevel: xpForLevel(level) };
+    },
+
+    totalXpFor(level: number, xp: number): number {
+      const capped = Math.min(Math.max(1, Math.floor(level || 1)), config.maxLevel);
+      return requirements.slice(0, capped - 1).reduce((sum: number, required: number) => sum + required, Math.max(0, xp || 0));
+    },
+
+    describe(upTo: number = config.maxLevel): Array<{ level: number; xpRequired: number; totalXp: number }> {
+      const levels: Array<{ level: number; xpRequired: number; totalXp: number }> = [];
+      let totalXp = 0;
+      for (let level = 1; level <= Math.min(upTo, config.maxLevel); level++) {
+        const xpRequired = xpForLevel(level);
+        levels.push({ level, xpRequired, totalXp });
+        totalXp += xpRequired;
+      }
+      return levels;
+    }
+  };
+};
+
+export const levelCurve = createLevelCurve(parseLevelCurveConfig());
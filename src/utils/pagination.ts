@@ -0,0 +1,172 @@
+import mongoose, { Model } from 'mongoose';
+import { createHttpError } from './httpError';
+
+export interface PageRequest {
+  cursor?: string;
+  limit?: number;
+  /** @deprecated offset paging; ignored when a cursor is supplied. */
+  skip?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface SortSpec {
+  field: string;
+  direction: 1 | -1;
+}
+
+interface CursorPayload {
+  f: string;
+  d: 1 | -1;
+  v: any;
+  t?: 'date';
+  id: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+const getPath = (doc: any, path: string): any => {
+  if (doc && typeof doc.get === 'function') {
+    return doc.get(path);
+  }
+  return path.split('.').reduce((value: any, key: string) => (value == null ? undefined : value[key]), doc);
+};
+
+export const encodeCursor = (doc: any, sort: SortSpec): string => {
+  const value = getPath(doc, sort.field);
+  const payload: CursorPayload = {
+    f: sort.field,
+    d: sort.direction,
+    v: value instanceof Date ? value.toISOString() : value ?? null,
+    id: String(doc._id)
+  };
+  if (value instanceof Date) {
+    payload.t = 'date';
+  }
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Cursors for orderings that have no keyset (e.g. text-search relevance):
+ * the cursor carries the offset of the next page instead.
+ */
+export const encodeOffsetCursor = (offset: number): string =>
+  Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+
+export const decodeOffsetCursor = (cursor: string): number => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Number.isInteger(payload.o) || payload.o < 0) {
+      throw new Error('Cursor is not an offset cursor');
+    }
+    return payload.o;
+  } catch (error: any) {
+    throw createHttpError(400, 'Invalid pagination cursor');
+  }
+};
+
+export const decodeCursor = (cursor: string, sort: SortSpec): { value: any; id: mongoose.Types.ObjectId } => {
+  try {
+    const payload: CursorPayload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (payload.f !== sort.field || payload.d !== sort.direction || !mongoose.Types.ObjectId.isValid(payload.id)) {
+      throw new Error('Cursor does not match the requested sort');
+    }
+    return {
+      value: payload.t === 'date' && payload.v !== null ? new Date(payload.v) : payload.v,
+      id: new mongoose.Types.ObjectId(payload.id)
+    };
+  } catch (error: any) {
+    throw createHttpError(400, 'Invalid pagination cursor');
+  }
+};
+
+/**
+ * Filter selecting everything strictly after the cursor position in
+ * (sort field, _id) order. Missing values sort lowest, as MongoDB does.
+ */
+export const cursorFilter = (sort: SortSpec, cursor: string): any => {
+  const { value, id } = decodeCursor(cursor, sort);
+  const { field } = sort;
+
+  if (sort.direction === -1) {
+    if (value === null) {
+      return { [field]: null, _id: { $lt: id } };
+    }
+    return {
+      $or: [
+        { [field]: { $lt: value } },
+        { [field]: value, _id: { $lt: id } },
+        { [field]: null }
+      ]
+    };
+  }
+
+  if (value === null) {
+    return { $or: [{ [field]: null, _id: { $gt: id } }, { [field]: { $ne: null } }] };
+  }
+  return {
+    $or: [
+      { [field]: { $gt: value } },
+      { [field]: value, _id: { $gt: id } }
+    ]
+  };
+};
+
+export const parsePageRequest = (query: any = {}, defaultLimit: number = DEFAULT_PAGE_SIZE): PageRequest => {
+  const skip = parseInt(query.skip ?? query.offset, 10);
+  return {
+    cursor: query.cursor ? String(query.cursor) : undefined,
+    limit: parseInt(query.limit, 10) || defaultLimit,
+    skip: Number.isNaN(skip) ? undefined : skip
+  };
+};
+
+/**
+ * Keyset pagination over `model` ordered by `sort` with `_id` as tiebreaker.
+ * Fetches one extra row to know whether another page exists. `build` can add
+ * populate/select/lean to the underlying query.
+ */
+export const paginate = async <T = any>(
+  model: Model<any>,
+  filter: any,
+  sort: SortSpec,
+  page: PageRequest = {},
+  build?: (query: any) => any
+): Promise<Page<T>> => {
+  const limit = Math.min(Math.max(Number(page.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const conditions = page.cursor ? { $and: [filter, cursorFilter(sort, page.cursor)] } : filter;
+
+  let query: any = model.find(conditions)
+    .sort({ [sort.field]: sort.direction, _id: sort.direction })
+    .limit(limit + 1);
+  if (!page.cursor && page.skip) {
+    query = query.skip(page.skip);
+  }
+  if (build) {
+    query = build(query);
+  }
+
+  const docs: T[] = await query;
+  const hasMore = docs.length > limit;
+  const items = hasMore ? docs.slice(0, limit) : docs;
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1], sort) : null
+  };
+};
+
+export default {
+  paginate,
+  parsePageRequest,
+  encodeCursor,
+  decodeCursor,
+  encodeOffsetCursor,
+  decodeOffsetCursor
+};
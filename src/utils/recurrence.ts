@@ -0,0 +1,124 @@
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval?: number;
+  byWeekday?: number[];
+  byMonthDay?: number;
+  until?: Date;
+  count?: number;
+  exceptions?: Date[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ITERATIONS = 1000;
+
+const startOfDay = (date: Date): Date => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+const startOfWeek = (date: Date): Date => {
+  const d = startOfDay(date);
+  d.setDate(d.getDate() - d.getDay());
+  return d;
+};
+
+const isSameDay = (a: Date, b: Date): boolean => startOfDay(a).getTime() === startOfDay(b).getTime();
+
+const addMonthsClamped = (date: Date, months: number, dayOfMonth: number): Date => {
+  const d = new Date(date);
+  d.setDate(1);
+  d.setMonth(d.getMonth() + months);
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  d.setDate(Math.min(dayOfMonth, lastDay));
+  return d;
+};
+
+const candidateAfter = (rule: RecurrenceRule, seriesStart: Date, previous: Date): Date => {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const next = new Date(previous);
+      next.setDate(next.getDate() + interval);
+      return next;
+    }
+    case 'weekly': {
+      if (!rule.byWeekday || rule.byWeekday.length === 0) {
+        const next = new Date(previous);
+        next.setDate(next.getDate() + 7 * interval);
+        return next;
+      }
+      // Walk forward day by day, only accepting weekdays in active weeks of the series.
+      const anchorWeek = startOfWeek(seriesStart).getTime();
+      const next = new Date(previous);
+      for (let i = 0; i < 7 * interval + 7; i++) {
+        next.setDate(next.getDate() + 1);
+        const weeksSinceStart = Math.round((startOfWeek(next).getTime() - anchorWeek) / (7 * DAY_MS));
+        if (weeksSinceStart % interval === 0 && rule.byWeekday.includes(next.getDay())) {
+          return next;
+        }
+      }
+      return next;
+    }
+    case 'monthly': {
+      const dayOfMonth = rule.byMonthDay || seriesStart.getDate();
+      return addMonthsClamped(previous, interval, dayOfMonth);
+    }
+    default:
+      throw new Error(`Unsupported recurrence frequency: ${rule.frequency}`);
+  }
+};
+
+/**
+ * Computes the occurrence that follows `previous` in a series, skipping exception
+ * dates. Returns null once the series is exhausted by `until` or `count`.
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  seriesStart: Date,
+  previous: Date,
+  occurrenceIndex: number
+): Date | null => {
+  if (rule.count && occurrenceIndex >= rule.count) {
+    return null;
+  }
+
+  const exceptions = rule.exceptions || [];
+  let candidate = candidateAfter(rule, seriesStart, previous);
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (rule.until && candidate.getTime() > new Date(rule.until).getTime()) {
+      return null;
+    }
+    if (!exceptions.some((exception: Date) => isSameDay(new Date(exception), candidate))) {
+      return candidate;
+    }
+    candidate = candidateAfter(rule, seriesStart, candidate);
+  }
+
+  return null;
+};
+
+export const validateRecurrenceRule = (rule: RecurrenceRule): void => {
+  if (!['daily', 'weekly', 'monthly'].includes(rule.frequency)) {
+    throw new Error(`Invalid recurrence frequency: ${rule.frequency}`);
+  }
+  if (rule.interval !== undefined && (!Number.isInteger(rule.interval) || rule.interval < 1)) {
+    throw new Error('Recurrence interval must be a positive integer');
+  }
+  if (rule.byWeekday && rule.byWeekday.some((day: number) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error('Recurrence weekdays must be integers between 0 (Sunday) and 6 (Saturday)');
+  }
+  if (rule.byMonthDay !== undefined && (rule.byMonthDay < 1 || rule.byMonthDay > 31)) {
+    throw new Error('Recurrence month day must be between 1 and 31');
+  }
+  if (rule.count !== undefined && rule.count < 1) {
+    throw new Error('Recurrence count must be at least 1');
+  }
+};
+
+export default {
+  getNextOccurrence,
+  validateRecurrenceRule
+};
@@ -0,0 +1,71 @@
+import Joi from 'joi';
+import { objectId } from './common';
+
+const TYPES = ['quiz', 'puzzle', 'coding_challenge'];
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const VISIBILITIES = ['private', 'unlisted', 'public'];
+
+const question = Joi.object({
+  question: Joi.string().trim().min(1).max(1000).required(),
+  options: Joi.array().items(Joi.string().trim().min(1).max(500)).min(2).max(10).required(),
+  correctAnswer: Joi.number().integer().min(0).less(Joi.ref('options.length')).required(),
+  points: Joi.number().integer().min(0).max(100)
+});
+
+const configuration = Joi.object({
+  timeLimit: Joi.number().min(1).max(240),
+  attempts: Joi.number().integer().min(1).max(20),
+  hints: Joi.array().items(Joi.string().trim().min(1).max(500)).max(10),
+  hintPenalty: Joi.number().min(0).max(1),
+  questions: Joi.array().items(question).max(50),
+  codeTemplate: Joi.string().max(20000).allow(''),
+  testCases: Joi.array().items(Joi.string().min(1).max(5000)).max(50),
+  puzzleData: Joi.any()
+});
+
+// The reward follows from difficultyScore on the server; authors cannot set it.
+const catalogFields = {
+  title: Joi.string().trim().min(1).max(200),
+  description: Joi.string().trim().max(2000).allow(''),
+  difficulty: Joi.string().valid(...DIFFICULTIES),
+  difficultyScore: Joi.number().integer().min(1).max(10),
+  tags: Joi.array().items(Joi.string().trim().lowercase().max(50)).max(10),
+  visibility: Joi.string().valid(...VISIBILITIES)
+};
+
+export const createCatalogChallengeSchema = Joi.object({
+  ...catalogFields,
+  type: Joi.string().valid(...TYPES).required(),
+  title: catalogFields.title.required(),
+  // Graded types need their answer key: questions for quizzes, tests for code.
+  configuration: configuration.required()
+    .when('type', { is: 'quiz', then: Joi.object({ questions: Joi.array().min(1).required() }) })
+    .when('type', { is: 'coding_challenge', then: Joi.object({ testCases: Joi.array().min(1).required() }) })
+});
+
+// The type is fixed once authored; graded content is re-checked by the service.
+export const updateCatalogChallengeSchema = Joi.object({
+  ...catalogFields,
+  configuration
+}).min(1);
+
+export const rateCatalogChallengeSchema = Joi.object({
+  score: Joi.number().integer().min(1).max(5).required()
+});
+
+export const moderateCatalogChallengeSchema = Joi.object({
+  status: Joi.string().valid('approved', 'rejected').required(),
+  note: Joi.string().trim().max(500).allow('')
+});
+
+export const attachCatalogChallengeSchema = Joi.object({
+  taskId: objectId.required()
+});
+
+export default {
+  createCatalogChallengeSchema,
+  updateCatalogChallengeSchema,
+  rateCatalogChallengeSchema,
+  moderateCatalogChallengeSchema,
+  attachCatalogChallengeSchema
+};
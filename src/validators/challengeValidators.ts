@@ -0,0 +1,31 @@
+import Joi from 'joi';
+import { objectId } from './common';
+
+export const generateChallengeSchema = Joi.object({
+  taskId: objectId.required()
+});
+
+// Score, accuracy and reward fields are computed server-side; clients only
+// report how long the attempt took.
+export const completeChallengeSchema = Joi.object({
+  completionTime: Joi.number().min(0),
+  attemptsUsed: Joi.number().integer().min(1)
+});
+
+export const submitQuizSchema = Joi.object({
+  answers: Joi.array().items(Joi.number().integer().min(0).allow(null)).min(1).required(),
+  completionTime: Joi.number().min(0)
+});
+
+export const submitSolutionSchema = Joi.object({
+  code: Joi.string().min(1).max(50000).required(),
+  language: Joi.string().valid('javascript', 'typescript').default('javascript'),
+  completionTime: Joi.number().min(0)
+});
+
+export default {
+  generateChallengeSchema,
+  completeChallengeSchema,
+  submitQuizSchema,
+  submitSolutionSchema
+};
@@ -0,0 +1,15 @@
+import Joi from 'joi';
+import { objectId } from './common';
+
+export const adjustPointsSchema = Joi.object({
+  userId: objectId.required(),
+  points: Joi.number().integer().min(-100000).max(100000).required(),
+  xp: Joi.number().integer().min(-100000).max(100000),
+  account: Joi.string().valid('gamification', 'adventure'),
+  description: Joi.string().trim().min(1).max(200).required(),
+  idempotencyKey: Joi.string().trim().min(1).max(150)
+});
+
+export const reverseLedgerEntrySchema = Joi.object({
+  description: Joi.string().trim().max(200)
+});
@@ -0,0 +1,135 @@
+import Joi from 'joi';
+import { objectId } from './common';
+
+const TYPES = ['manual', 'notion', 'trello', 'github', 'google_docs', 'pdf', 'code', 'study', 'creative'];
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+
+const recurrence = Joi.object({
+  frequency: Joi.string().valid('daily', 'weekly', 'monthly').required(),
+  interval: Joi.number().integer().min(1),
+  byWeekday: Joi.array().items(Joi.number().integer().min(0).max(6)),
+  byMonthDay: Joi.number().integer().min(1).max(31),
+  until: Joi.date(),
+  count: Joi.number().integer().min(1),
+  exceptions: Joi.array().items(Joi.date())
+});
+
+const metadata = Joi.object({
+  sourceId: Joi.string().max(200),
+  sourceUrl: Joi.string().uri(),
+  sourceData: Joi.any()
+});
+
+const checklistItem = Joi.object({
+  text: Joi.string().trim().min(1).max(500).required(),
+  completed: Joi.boolean()
+});
+
+// Fields a client may set on any task. Ownership, completion data, challenge
+// links, progress, timers and series bookkeeping are server-owned.
+const taskFields = {
+  title: Joi.string().trim().min(1).max(200),
+  description: Joi.string().trim().max(2000).allow(''),
+  type: Joi.string().valid(...TYPES),
+  priority: Joi.string().valid(...PRIORITIES),
+  dueDate: Joi.date().allow(null),
+  estimatedDuration: Joi.number().min(1),
+  tags: Joi.array().items(Joi.string().trim().max(50)),
+  metadata,
+  parentTaskId: objectId.allow(null),
+  blockedBy: Joi.array().items(objectId),
+  recurrence,
+  checklist: Joi.array().items(checklistItem)
+};
+
+export const createTaskSchema = Joi.object({
+  ...taskFields,
+  title: taskFields.title.required(),
+  // Completion goes through POST /tasks/:id/complete so rewards are applied.
+  status: Joi.string().valid('pending', 'in_progress')
+});
+
+export const updateTaskSchema = Joi.object({
+  ...taskFields,
+  status: Joi.string().valid('pending', 'in_progress', 'cancelled')
+}).min(1);
+
+export const completeTaskSchema = Joi.object({
+  actualDuration: Joi.number().min(0),
+  notes: Joi.string().max(1000).allow('')
+});
+
+export const retagSchema = Joi.object({
+  add: Joi.array().items(Joi.string().trim().min(1).max(50)),
+  remove: Joi.array().items(Joi.string().trim().min(1).max(50))
+}).or('add', 'remove');
+
+const variableKey = Joi.string().pattern(/^[a-zA-Z_][a-zA-Z0-9_]*$/);
+
+const templateSubtask = Joi.object({
+  title: Joi.string().trim().min(1).max(200).required(),
+  description: Joi.string().trim().max(2000).allow(''),
+  priority: Joi.string().valid(...PRIORITIES),
+  estimatedDuration: Joi.number().min(1),
+  checklist: Joi.array().items(checklistItem.keys({ completed: Joi.forbidden() }))
+});
+
+const templateVariable = Joi.object({
+  key: variableKey.required(),
+  label: Joi.string().trim().max(100).allow(''),
+  defaultValue: Joi.string().max(500).allow(''),
+  required: Joi.boolean()
+});
+
+// Template fields a client may set; ownership and usage counters are server-owned.
+const templateFields = {
+  name: Joi.string().trim().min(1).max(100),
+  title: Joi.string().trim().min(1).max(200),
+  description: Joi.string().trim().max(2000).allow(''),
+  type: Joi.string().valid(...TYPES),
+  priority: Joi.string().valid(...PRIORITIES),
+  estimatedDuration: Joi.number().min(1),
+  tags: Joi.array().items(Joi.string().trim().max(50)),
+  checklist: Joi.array().items(checklistItem.keys({ completed: Joi.forbidden() })),
+  subtasks: Joi.array().items(templateSubtask),
+  variables: Joi.array().items(templateVariable).unique('key')
+};
+
+export const createTaskTemplateSchema = Joi.object({
+  ...templateFields,
+  name: templateFields.name.required(),
+  title: templateFields.title.required()
+});
+
+export const updateTaskTemplateSchema = Joi.object(templateFields).min(1);
+
+export const instantiateTemplateSchema = Joi.object({
+  variables: Joi.object().pattern(variableKey, Joi.alternatives(Joi.string().max(500).allow(''), Joi.number(), Joi.boolean())),
+  includeSubtasks: Joi.boolean(),
+  overrides: Joi.object({
+    dueDate: Joi.date(),
+    priority: Joi.string().valid(...PRIORITIES),
+    tags: Joi.array().items(Joi.string().trim().max(50))
+  })
+});
+
+export const checklistItemSchema = Joi.object({
+  text: Joi.string().trim().min(1).max(500).required()
+});
+
+export const updateChecklistItemSchema = Joi.object({
+  text: Joi.string().trim().min(1).max(500),
+  completed: Joi.boolean()
+}).min(1);
+
+export default {
+  createTaskSchema,
+  updateTaskSchema,
+  completeTaskSchema,
+  retagSchema,
+  createTaskTemplateSchema,
+  updateTaskTemplateSchema,
+  instantiateTemplateSchema,
+  checklistItemSchema,
+  updateChecklistItemSchema
+};
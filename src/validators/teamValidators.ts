@@ -0,0 +1,11 @@
+import Joi from 'joi';
+import { objectId } from './common';
+
+export const createTeamSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().trim().max(500).allow('')
+});
+
+export const addTeamMemberSchema = Joi.object({
+  userId: objectId.required()
+});
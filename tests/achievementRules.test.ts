@@ -0,0 +1,124 @@
+import {
+  compare,
+  eventTypesOf,
+  ruleForCriteria,
+  usesStats,
+  validateRule,
+  whereFilter
+} from '../src/utils/achievementRules';
+
+describe('achievementRules', () => {
+  const earlyCodeTasks = {
+    event: 'task.completed',
+    where: { type: 'code', hourUtc: { lt: 9 } },
+    count: 5,
+    withinDays: 7
+  };
+
+  describe('validateRule', () => {
+    it('accepts stat, event and nested rules', () => {
+      expect(validateRule({ stat: 'points', op: 'gte', value: 500 })).toEqual([]);
+      expect(validateRule(earlyCodeTasks)).toEqual([]);
+      expect(validateRule({ all: [earlyCodeTasks, { any: [{ stat: 'level', value: 5 }, { stat: 'badgeCount', value: 3 }] }] })).toEqual([]);
+    });
+
+    it('requires exactly one rule kind', () => {
+      expect(validateRule({})).toEqual(['rule must have exactly one of all, any, stat or event']);
+      expect(validateRule({ stat: 'points', value: 1, all: [] })).toHaveLength(1);
+      expect(validateRule([])).toEqual(['rule must be an object']);
+    });
+
+    it('rejects empty groups', () => {
+      expect(validateRule({ any: [] })).toEqual(['rule.any must be a non-empty array']);
+    });
+
+    it('only allows whitelisted stats and numeric values', () => {
+      const errors = validateRule({ stat: 'password', op: 'in', value: '1' });
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toMatch(/^rule\.stat must be one of/);
+      expect(errors[1]).toMatch(/^rule\.op must be one of/);
+      expect(errors[2]).toBe('rule.value must be a number');
+    });
+
+    it('requires a window no longer than the event retention', () => {
+      expect(validateRule({ event: 'task.completed', count: 1 })).toEqual(['rule.withinDays is required for event rules']);
+      expect(validateRule({ event: 'task.completed', withinDays: 10000 })[0]).toMatch(/^rule\.withinDays must be between 1 and/);
+      expect(validateRule({ event: 'task.completed', withinDays: 7, count: 0 })).toEqual(['rule.count must be a positive integer']);
+    });
+
+    it('rejects operator injection in where clauses', () => {
+      const errors = validateRule({
+        event: 'task.completed',
+        withinDays: 7,
+        where: { $where: 'sleep(1000)', 'a.b': 1, type: { $regex: '.*' }, priority: { in: [{}] }, tags: [1] }
+      });
+      expect(errors).toEqual([
+        'rule.where.$where is not a valid field name',
+        'rule.where.a.b is not a valid field name',
+        'rule.where.type.$regex is not a supported comparison',
+        'rule.where.priority.in has an invalid value',
+        'rule.where.tags must be a value or a comparison'
+      ]);
+    });
+
+    it('reports the path of nested problems', () => {
+      expect(validateRule({ all: [{ stat: 'points', value: 1 }, { any: [{ event: 'nope', withinDays: 1 }] }] }))
+        .toEqual([expect.stringMatching(/^rule\.all\[1\]\.any\[0\]\.event must be one of/)]);
+    });
+
+    it('limits nesting depth', () => {
+      let rule: any = { stat: 'points', value: 1 };
+      for (let i = 0; i < 6; i++) {
+        rule = { all: [rule] };
+      }
+      expect(validateRule(rule)).toEqual([expect.stringMatching(/nested more than 5 levels deep$/)]);
+    });
+  });
+
+  describe('whereFilter', () => {
+    it('maps values and comparisons onto event data', () => {
+      expect(whereFilter(earlyCodeTasks.where)).toEqual({
+        'data.type': 'code',
+        'data.hourUtc': { $lt: 9 }
+      });
+      expect(whereFilter({ priority: { in: ['high', 'urgent'] }, weekdayUtc: { gte: 1, lte: 5 } })).toEqual({
+        'data.priority': { $in: ['high', 'urgent'] },
+        'data.weekdayUtc': { $gte: 1, $lte: 5 }
+      });
+    });
+
+    it('is empty without a where clause', () => {
+      expect(whereFilter()).toEqual({});
+    });
+  });
+
+  describe('ruleForCriteria', () => {
+    it('prefers an explicit rule', () => {
+      expect(ruleForCriteria({ type: 'points', value: 10, rule: earlyCodeTasks as any })).toBe(earlyCodeTasks);
+    });
+
+    it('maps legacy criteria types onto stats', () => {
+      expect(ruleForCriteria({ type: 'streak', value: 7 })).toEqual({ stat: 'streaks.daily.current', op: 'gte', value: 7 });
+      expect(ruleForCriteria({ type: 'efficiency', value: 80 })).toEqual({ stat: 'stats.averageEfficiency', op: 'gte', value: 80 });
+    });
+
+    it('never auto-awards custom badges without a rule', () => {
+      expect(ruleForCriteria({ type: 'custom', value: 1 })).toBeNull();
+      expect(ruleForCriteria({ type: 'points' })).toBeNull();
+    });
+  });
+
+  it('collects event types and detects stat rules', () => {
+    const rule: any = { any: [earlyCodeTasks, { all: [{ event: 'duel.finished', withinDays: 1 }, { stat: 'level', value: 2 }] }] };
+    expect([...eventTypesOf(rule)]).toEqual(['task.completed', 'duel.finished']);
+    expect(usesStats(rule)).toBe(true);
+    expect(usesStats(earlyCodeTasks as any)).toBe(false);
+  });
+
+  it('compares with gte by default', () => {
+    expect(compare(5, undefined as any, 5)).toBe(true);
+    expect(compare(5, 'gt', 5)).toBe(false);
+    expect(compare(4, 'lt', 5)).toBe(true);
+    expect(compare(5, 'eq', 5)).toBe(true);
+  });
+});
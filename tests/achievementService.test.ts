@@ -0,0 +1,117 @@
+import Gamification from '../src/models/Gamification';
+import AchievementEvent from '../src/models/AchievementEvent';
+import achievementService from '../src/services/achievementService';
+import pointsLedgerService from '../src/services/pointsLedgerService';
+import notificationService from '../src/services/notificationService';
+
+jest.mock('../src/utils/logger');
+
+const badge = (id: string, rule: any): any => ({
+  _id: id,
+  name: id,
+  icon: 'icon',
+  pointsReward: 100,
+  criteria: { type: 'custom', rule }
+});
+
+describe('achievementService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('evaluateRule', () => {
+    const profile: any = {
+      points: 300,
+      level: 2,
+      badges: [{}, {}],
+      streaks: { daily: { current: 2 } },
+      stats: { tasksCompleted: 10 }
+    };
+    const now = new Date();
+
+    it('reports partial progress on at-least rules', async () => {
+      await expect(achievementService.evaluateRule({ stat: 'points', value: 600 }, profile, now))
+        .resolves.toEqual({ met: false, progress: 50 });
+      await expect(achievementService.evaluateRule({ stat: 'badgeCount', value: 2 }, profile, now))
+        .resolves.toEqual({ met: true, progress: 100 });
+    });
+
+    it('averages all and takes the best of any, below 100 until met', async () => {
+      const rules: any[] = [{ stat: 'points', value: 600 }, { stat: 'streaks.daily.current', value: 2 }];
+      await expect(achievementService.evaluateRule({ all: rules }, profile, now)).resolves.toEqual({ met: false, progress: 75 });
+      await expect(achievementService.evaluateRule({ any: rules }, profile, now)).resolves.toEqual({ met: true, progress: 100 });
+      await expect(achievementService.evaluateRule({ stat: 'stats.tasksCompleted', value: 10.0001 }, profile, now))
+        .resolves.toEqual({ met: false, progress: 99 });
+    });
+
+    it('gives no partial credit to other comparisons', async () => {
+      await expect(achievementService.evaluateRule({ stat: 'level', op: 'lt', value: 2 }, profile, now))
+        .resolves.toEqual({ met: false, progress: 0 });
+    });
+  });
+
+  describe('evaluateUser', () => {
+    it('re-evaluates stat rules after a reward, up to a limit', async () => {
+      const profile: any = { _id: 'p', userId: 'u', points: 0, badges: [], achievements: [], streaks: {}, stats: {} };
+      const badges = [1, 2, 3, 4, 5, 6].map((n: number) => badge(`b${n}`, { stat: 'points', value: (n - 1) * 100 }));
+
+      jest.spyOn(achievementService, 'getActiveBadges').mockResolvedValue(badges);
+      jest.spyOn(achievementService, 'saveProgress').mockResolvedValue(undefined);
+      jest.spyOn(Gamification, 'findOne').mockImplementation((() => Promise.resolve({ ...profile, badges: [...profile.badges] })) as any);
+      const unlock = jest.spyOn(achievementService, 'unlock').mockImplementation(async (_userId: string, unlocked: any) => {
+        profile.badges.push({ badgeId: unlocked._id });
+        profile.points += unlocked.pointsReward;
+        return true;
+      });
+
+      const awarded = await achievementService.evaluateUser('u', 'task.completed');
+
+      // b1 on the event, then b2, b3 and b4 as each reward lands; b5 waits
+      // for the next event.
+      expect(awarded.map((b: any) => b._id)).toEqual(['b1', 'b2', 'b3', 'b4']);
+      expect(unlock).toHaveBeenCalledTimes(4);
+    });
+
+    it('skips event-only rules when re-evaluating after a reward', async () => {
+      const profile: any = { _id: 'p', userId: 'u', points: 0, badges: [], achievements: [], streaks: {}, stats: {} };
+      const eventBadge = badge('event', { event: 'duel.finished', withinDays: 7 });
+
+      jest.spyOn(achievementService, 'getActiveBadges').mockResolvedValue([badge('first', { stat: 'points', value: 0 }), eventBadge]);
+      jest.spyOn(achievementService, 'saveProgress').mockResolvedValue(undefined);
+      jest.spyOn(Gamification, 'findOne').mockImplementation((() => Promise.resolve(profile)) as any);
+      jest.spyOn(AchievementEvent, 'countDocuments').mockResolvedValue(0 as never);
+      jest.spyOn(achievementService, 'unlock').mockImplementation(async (_userId: string, unlocked: any) => {
+        profile.badges.push({ badgeId: unlocked._id });
+        return true;
+      });
+      const evaluateRule = jest.spyOn(achievementService, 'evaluateRule');
+
+      await achievementService.evaluateUser('u');
+
+      const evaluated = evaluateRule.mock.calls.filter((call: any[]) => call[0] === eventBadge.criteria.rule);
+      expect(evaluated).toHaveLength(1);
+    });
+  });
+
+  describe('unlock', () => {
+    it('posts the reward before recording the badge', async () => {
+      const award = jest.spyOn(pointsLedgerService, 'award').mockResolvedValue({ applied: true } as any);
+      const push = jest.spyOn(Gamification, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+      jest.spyOn(Gamification, 'findOne').mockResolvedValue(null);
+      jest.spyOn(notificationService, 'sendBadgeEarnedNotification').mockResolvedValue(undefined);
+
+      await expect(achievementService.unlock('u', badge('b1', {}))).resolves.toBe(true);
+
+      expect(award).toHaveBeenCalledWith(expect.objectContaining({ points: 100, idempotencyKey: 'badge:b1:u' }));
+      expect(award.mock.invocationCallOrder[0]).toBeLessThan(push.mock.invocationCallOrder[0]);
+    });
+
+    it('leaves the badge unrecorded when the reward fails, so it is retried', async () => {
+      jest.spyOn(pointsLedgerService, 'award').mockRejectedValue(new Error('ledger down'));
+      const push = jest.spyOn(Gamification, 'updateOne');
+
+      await expect(achievementService.unlock('u', badge('b1', {}))).rejects.toThrow('ledger down');
+      expect(push).not.toHaveBeenCalled();
+    });
+  });
+});
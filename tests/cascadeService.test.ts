@@ -0,0 +1,137 @@
+import mongoose from 'mongoose';
+import Task from '../src/models/Task';
+import Challenge from '../src/models/Challenge';
+import cascadeService from '../src/services/cascadeService';
+
+jest.mock('../src/utils/logger');
+
+const FINAL = ['completed', 'failed', 'expired'];
+
+const relation = (name: string): any => cascadeService.getRelations().find((candidate: any) => candidate.name === name);
+
+describe('cascadeService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('relations', () => {
+    it('deletes a user\'s challenges before task-level rules can archive them', () => {
+      const names = cascadeService.getRelations().map((candidate: any) => candidate.name);
+      expect(names.indexOf('challenges.user')).toBeLessThan(names.indexOf('challenges.task.finished'));
+      expect(relation('challenges.user').action).toBe('delete');
+    });
+
+    it('archives finished challenges of deleted tasks and deletes open ones', () => {
+      expect(relation('challenges.task.finished')).toMatchObject({
+        parent: 'Task',
+        action: 'archive',
+        filter: { status: { $in: FINAL }, archivedAt: { $exists: false } }
+      });
+      expect(relation('challenges.task.open')).toMatchObject({ parent: 'Task', action: 'delete', filter: { status: { $nin: FINAL } } });
+    });
+
+    it('only removes open duels with a deleted participant', () => {
+      expect(relation('duels.challenger').filter).toEqual({ status: { $in: ['pending', 'active'] } });
+      expect(relation('duels.opponent').filter).toEqual({ status: { $in: ['pending', 'active'] } });
+    });
+
+    it('splits relations by parent', () => {
+      const task = cascadeService.getRelations('Task');
+      expect(task.every((candidate: any) => candidate.parent === 'Task')).toBe(true);
+      expect(task.map((candidate: any) => candidate.name)).toEqual([
+        'challenges.task.finished',
+        'challenges.task.open',
+        'tasks.parent',
+        'tasks.blockedBy'
+      ]);
+    });
+  });
+
+  describe('onTasksDeleted', () => {
+    it('archives finished challenges, deletes open ones and clears task references', async () => {
+      const taskId = new mongoose.Types.ObjectId();
+      const archive = jest.spyOn(Challenge, 'updateMany').mockResolvedValue({ modifiedCount: 2 } as any);
+      const remove = jest.spyOn(Challenge, 'deleteMany').mockResolvedValue({ deletedCount: 1 } as any);
+      const unlink = jest.spyOn(Task, 'updateMany').mockResolvedValue({ modifiedCount: 0 } as any);
+
+      const applied = await cascadeService.onTasksDeleted([String(taskId)]);
+
+      expect(applied).toEqual({ 'challenges.task.finished': 2, 'challenges.task.open': 1, 'tasks.parent': 0, 'tasks.blockedBy': 0 });
+
+      const [archiveFilter, archiveUpdate] = archive.mock.calls[0] as any[];
+      expect(archiveFilter).toEqual({ status: { $in: FINAL }, archivedAt: { $exists: false }, taskId: { $in: [taskId] } });
+      expect(archiveUpdate.$set).toMatchObject({ archivedAt: expect.any(Date), archiveReason: 'task_deleted' });
+
+      expect((remove.mock.calls[0] as any[])[0]).toEqual({ status: { $nin: FINAL }, taskId: { $in: [taskId] } });
+      expect(unlink.mock.calls.map((call: any[]) => call[1])).toEqual([
+        { $unset: { parentTaskId: 1 } },
+        { $pull: { blockedBy: { $in: [taskId] } } }
+      ]);
+    });
+  });
+
+  it('restores only challenges archived with the task', async () => {
+    const restore = jest.spyOn(Challenge, 'updateMany').mockResolvedValue({ modifiedCount: 2 } as any);
+
+    await expect(cascadeService.onTaskRestored('task-1')).resolves.toBe(2);
+
+    const [filter, update] = restore.mock.calls[0] as any[];
+    expect(filter).toEqual({ taskId: 'task-1', archiveReason: 'task_deleted' });
+    expect(update.$unset).toEqual({ archivedAt: 1, archiveReason: 1 });
+  });
+
+  describe('cleanupOrphans', () => {
+    const missingTask = new mongoose.Types.ObjectId();
+
+    // Only the finished-challenge relation has orphans: two tasks at first,
+    // then whatever `after` says once the rule was applied.
+    const stubOrphans = (after: mongoose.Types.ObjectId[]): any => {
+      const found: Record<string, number> = {};
+      jest.spyOn(cascadeService, 'findMissingParents').mockImplementation(async (candidate: any) => {
+        if (candidate.name !== 'challenges.task.finished') return [];
+        found[candidate.name] = (found[candidate.name] || 0) + 1;
+        return found[candidate.name] === 1 ? [missingTask, new mongoose.Types.ObjectId()] : after;
+      });
+      jest.spyOn(Challenge, 'countDocuments').mockResolvedValue(5 as never);
+      return jest.spyOn(cascadeService, 'applyRelation').mockResolvedValue(5);
+    };
+
+    it('only counts on a dry run', async () => {
+      const apply = stubOrphans([]);
+
+      const report = await cascadeService.cleanupOrphans({ dryRun: true });
+
+      expect(apply).not.toHaveBeenCalled();
+      expect(report.dryRun).toBe(true);
+      expect(report.clean).toBe(false);
+      expect(report.relations.find((entry: any) => entry.name === 'challenges.task.finished')).toEqual({
+        name: 'challenges.task.finished',
+        action: 'archive',
+        missingParents: 2,
+        affected: 5,
+        applied: 0,
+        remaining: 2
+      });
+    });
+
+    it('applies each rule and re-checks what is left', async () => {
+      const apply = stubOrphans([]);
+
+      const report = await cascadeService.cleanupOrphans();
+
+      expect(apply).toHaveBeenCalledWith(relation('challenges.task.finished'), [missingTask, expect.anything()], 'orphaned');
+      expect(report.clean).toBe(true);
+      expect(report.relations.find((entry: any) => entry.name === 'challenges.task.finished'))
+        .toMatchObject({ missingParents: 2, affected: 5, applied: 5, remaining: 0 });
+    });
+
+    it('reports orphans that survived the run', async () => {
+      stubOrphans([missingTask]);
+
+      const report = await cascadeService.cleanupOrphans();
+
+      expect(report.clean).toBe(false);
+      expect(report.relations.find((entry: any) => entry.name === 'challenges.task.finished')).toMatchObject({ remaining: 1 });
+    });
+  });
+});
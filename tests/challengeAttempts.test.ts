@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+import Challenge from '../src/models/Challenge';
+import challengeService from '../src/services/challengeService';
+import codeSandboxService from '../src/services/codeSandboxService';
+
+jest.mock('../src/utils/logger');
+
+const codingChallenge = (overrides: any = {}): any => new Challenge({
+  userId: new mongoose.Types.ObjectId(),
+  taskId: new mongoose.Types.ObjectId(),
+  type: 'coding_challenge',
+  title: 'Sum',
+  status: 'active',
+  configuration: { attempts: 2, testCases: ['{"input":[1,2],"expected":3}'] },
+  ...overrides
+});
+
+describe('challengeService attempts', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reserves an attempt only while the challenge is open and under its limit', async () => {
+    const challenge = codingChallenge();
+    const reserved = codingChallenge({ _id: challenge._id, attemptHistory: [{ kind: 'solution', submittedAt: new Date(), passed: false }] });
+    const findOneAndUpdate = jest.spyOn(Challenge, 'findOneAndUpdate').mockResolvedValue(reserved as never);
+
+    await expect(challengeService.reserveAttempt(challenge, 'solution')).resolves.toBe(reserved);
+
+    const [filter, update] = findOneAndUpdate.mock.calls[0] as any[];
+    expect(filter).toEqual({
+      _id: challenge._id,
+      status: { $nin: ['completed', 'failed', 'expired'] },
+      $expr: { $lt: [{ $size: { $ifNull: ['$attemptHistory', []] } }, 2] }
+    });
+    expect(update.$push.attemptHistory).toMatchObject({ kind: 'solution', passed: false });
+  });
+
+  it('refuses the submission when another one took the last attempt', async () => {
+    jest.spyOn(Challenge, 'findOne').mockResolvedValue(codingChallenge() as never);
+    jest.spyOn(Challenge, 'findOneAndUpdate').mockResolvedValue(null as never);
+    const run = jest.spyOn(codeSandboxService, 'run');
+
+    await expect(challengeService.submitSolution('c', 'u', { code: 'x', language: 'javascript' }))
+      .rejects.toMatchObject({ statusCode: 409, message: 'No attempts left' });
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('gives the attempt back when the solution could not be graded', async () => {
+    const challenge = codingChallenge();
+    const reserved = codingChallenge({ _id: challenge._id, attemptHistory: [{ kind: 'solution', submittedAt: new Date(), passed: false }] });
+    jest.spyOn(Challenge, 'findOne').mockResolvedValue(challenge as never);
+    jest.spyOn(Challenge, 'findOneAndUpdate').mockResolvedValue(reserved as never);
+    jest.spyOn(codeSandboxService, 'run').mockRejectedValue(Object.assign(new Error('busy'), { statusCode: 503 }));
+    const updateOne = jest.spyOn(Challenge, 'updateOne').mockResolvedValue({} as any);
+
+    await expect(challengeService.submitSolution('c', 'u', { code: 'x', language: 'javascript' })).rejects.toThrow('busy');
+
+    const attempt = reserved.attemptHistory[0];
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: challenge._id },
+      { $pull: { attemptHistory: { kind: 'solution', submittedAt: attempt.submittedAt } } }
+    );
+  });
+
+  it('expires stale challenges in batches until one comes back short', async () => {
+    const stale = Array.from({ length: 501 }, () => ({ _id: new mongoose.Types.ObjectId() }));
+    const page = (docs: any[]): any => ({ sort: () => ({ limit: () => Promise.resolve(docs) }) });
+    const find = jest.spyOn(Challenge, 'find')
+      .mockReturnValueOnce(page(stale.slice(0, 500)))
+      .mockReturnValueOnce(page(stale.slice(500)));
+    const expire = jest.spyOn(challengeService, 'expireChallenge')
+      .mockRejectedValueOnce(new Error('write conflict'))
+      .mockResolvedValue(undefined);
+
+    await expect(challengeService.expireStaleChallenges()).resolves.toBe(500);
+
+    expect(expire).toHaveBeenCalledTimes(501);
+    expect(find).toHaveBeenCalledTimes(2);
+    expect((find.mock.calls[1] as any[])[0]._id).toEqual({ $gt: stale[499]._id });
+  });
+});
@@ -0,0 +1,100 @@
+import mongoose from 'mongoose';
+import Task from '../src/models/Task';
+import Challenge from '../src/models/Challenge';
+import CatalogChallenge from '../src/models/CatalogChallenge';
+import challengeService from '../src/services/challengeService';
+import challengeCatalogService from '../src/services/challengeCatalogService';
+import { createCatalogChallengeSchema } from '../src/validators/catalogValidators';
+
+jest.mock('../src/utils/logger');
+
+const userId = String(new mongoose.Types.ObjectId());
+
+const entry = (overrides: any = {}): any => new CatalogChallenge({
+  authorId: userId,
+  type: 'coding_challenge',
+  title: 'Sum',
+  difficulty: 'hard',
+  difficultyScore: 9,
+  configuration: { testCases: ['solution(1, 2) === 3'], hints: ['add them'] },
+  visibility: 'private',
+  moderation: { status: 'approved' },
+  pointsReward: 1000,
+  ...overrides
+});
+
+const task = (overrides: any = {}): any => new Task({ userId, title: 'Practice', ...overrides });
+
+describe('catalog challenges', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('does not let authors set the reward', () => {
+    const { error } = createCatalogChallengeSchema.validate({
+      type: 'quiz',
+      title: 'Recall',
+      pointsReward: 1000,
+      configuration: { questions: [{ question: 'Which?', options: ['a', 'b'], correctAnswer: 0 }] }
+    });
+    expect(error?.details.map((detail) => detail.path.join('.'))).toEqual(['pointsReward']);
+  });
+
+  it('derives the reward from the difficulty score', async () => {
+    jest.spyOn(CatalogChallenge.prototype, 'save').mockImplementation(function(this: any) { return Promise.resolve(this); });
+
+    const created = await challengeCatalogService.createEntry({ userId }, {
+      type: 'coding_challenge',
+      title: 'Sum',
+      difficultyScore: 10,
+      configuration: { testCases: ['true'] }
+    });
+
+    expect(created.pointsReward).toBe(150);
+  });
+
+  describe('createFromCatalog', () => {
+    const attach = (source: any, existing: any = null, linked = 1) => {
+      const target = task({ challengeId: existing ? existing._id : undefined });
+      jest.spyOn(Task, 'findOne').mockResolvedValue(target as never);
+      jest.spyOn(Challenge, 'findOne').mockResolvedValue(existing as never);
+      jest.spyOn(Challenge.prototype, 'save').mockImplementation(function(this: any) { return Promise.resolve(this); });
+      jest.spyOn(Task, 'updateOne').mockResolvedValue({ modifiedCount: linked } as any);
+      return challengeService.createFromCatalog(userId, String(target._id), source);
+    };
+
+    it('pays nothing for the viewer\'s own unreviewed entries', async () => {
+      await expect(attach(entry())).resolves.toMatchObject({ pointsReward: 0 });
+    });
+
+    it('caps the reward of reviewed entries at the generator range', async () => {
+      const shared = entry({ authorId: new mongoose.Types.ObjectId(), visibility: 'public' });
+      await expect(attach(shared)).resolves.toMatchObject({ pointsReward: 140 });
+    });
+
+    it('refuses tasks that already have an open or completed challenge', async () => {
+      const existing = new Challenge({ userId, taskId: new mongoose.Types.ObjectId(), type: 'quiz', title: 'Old', status: 'completed' });
+      await expect(attach(entry(), existing)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('backs out when another challenge was linked first', async () => {
+      const deleteOne = jest.spyOn(Challenge, 'deleteOne').mockResolvedValue({} as any);
+      await expect(attach(entry(), null, 0)).rejects.toMatchObject({ statusCode: 409 });
+      expect(deleteOne).toHaveBeenCalled();
+    });
+  });
+
+  it('hides test cases from challenge JSON', () => {
+    const challenge = new Challenge({
+      userId,
+      taskId: new mongoose.Types.ObjectId(),
+      type: 'coding_challenge',
+      title: 'Sum',
+      configuration: { testCases: ['a', 'b'] }
+    });
+
+    const json: any = challenge.toJSON();
+    expect(json.configuration.testCases).toBeUndefined();
+    expect(json.configuration.testCaseCount).toBe(2);
+  });
+});
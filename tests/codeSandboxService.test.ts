@@ -0,0 +1,144 @@
+import { EventEmitter } from 'events';
+
+jest.mock('../src/utils/logger');
+
+const SOLUTION = 'module.exports = (a, b) => a + b;';
+const TESTS = ['{"input":[2,3],"expected":5}'];
+
+class FakeWorker extends EventEmitter {
+  static instances: FakeWorker[] = [];
+  static stop: () => Promise<number> = () => Promise.resolve(1);
+
+  terminate = jest.fn(() => FakeWorker.stop());
+
+  constructor() {
+    super();
+    FakeWorker.instances.push(this);
+  }
+}
+
+const loadSandbox = (env: Record<string, string>, fakeWorker: boolean): any => {
+  let service: any;
+  jest.isolateModules(() => {
+    if (fakeWorker) {
+      jest.doMock('worker_threads', () => ({ Worker: FakeWorker }));
+    }
+    Object.assign(process.env, env);
+    service = require('../src/services/codeSandboxService').default;
+  });
+  return service;
+};
+
+describe('codeSandboxService', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    FakeWorker.instances = [];
+    FakeWorker.stop = () => Promise.resolve(1);
+    jest.useRealTimers();
+    jest.dontMock('worker_threads');
+  });
+
+  describe('worker lifecycle', () => {
+    it('fails every test and stops the worker when the time limit passes', async () => {
+      jest.useFakeTimers();
+      const sandbox = loadSandbox({ SANDBOX_TIMEOUT_MS: '100' }, true);
+
+      const run = sandbox.run(SOLUTION, 'javascript', TESTS);
+      jest.advanceTimersByTime(1100);
+
+      await expect(run).resolves.toMatchObject({
+        passed: 0,
+        total: 1,
+        results: [{ passed: false, error: 'Time limit exceeded' }]
+      });
+      expect(FakeWorker.instances[0].terminate).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops the worker after it reports results', async () => {
+      const sandbox = loadSandbox({}, true);
+
+      const run = sandbox.run(SOLUTION, 'javascript', TESTS);
+      FakeWorker.instances[0].emit('message', [{ name: 'Test 1', passed: true, durationMs: 1, stdout: '' }]);
+
+      await expect(run).resolves.toMatchObject({ passed: 1, total: 1 });
+      expect(FakeWorker.instances[0].terminate).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops the worker when it errors', async () => {
+      const sandbox = loadSandbox({}, true);
+
+      const run = sandbox.run(SOLUTION, 'javascript', TESTS);
+      FakeWorker.instances[0].emit('error', new Error('boom'));
+
+      await expect(run).rejects.toThrow('boom');
+      expect(FakeWorker.instances[0].terminate).toHaveBeenCalledTimes(1);
+    });
+
+    it('holds the concurrency slot until the worker has stopped', async () => {
+      let stopWorker: (code: number) => void = () => undefined;
+      FakeWorker.stop = () => new Promise<number>((resolve) => { stopWorker = resolve; });
+      const sandbox = loadSandbox({ SANDBOX_MAX_CONCURRENT: '1' }, true);
+
+      const first = sandbox.run(SOLUTION, 'javascript', TESTS);
+      FakeWorker.instances[0].emit('message', []);
+      await new Promise(setImmediate);
+
+      await expect(sandbox.run(SOLUTION, 'javascript', TESTS)).rejects.toMatchObject({ statusCode: 503 });
+
+      stopWorker(1);
+      await first;
+      FakeWorker.stop = () => Promise.resolve(1);
+      const second = sandbox.run(SOLUTION, 'javascript', TESTS);
+      FakeWorker.instances[1].emit('message', []);
+      await expect(second).resolves.toMatchObject({ total: 0 });
+    });
+  });
+
+  describe('sandbox', () => {
+    it('runs passing solutions', async () => {
+      const sandbox = loadSandbox({}, false);
+      await expect(sandbox.run(SOLUTION, 'javascript', TESTS)).resolves.toMatchObject({ passed: 1, total: 1 });
+    });
+
+    it('applies the per-test timeout to queued microtasks', async () => {
+      const sandbox = loadSandbox({ SANDBOX_TIMEOUT_MS: '200' }, false);
+      const spinning = 'module.exports = (a, b) => { Promise.resolve().then(function spin() { for (;;) {} }); return a + b; };';
+
+      const run = await sandbox.run(spinning, 'javascript', TESTS);
+
+      expect(run.passed).toBe(0);
+      expect(run.results[0].error).toMatch(/timed out/);
+    });
+
+    it('reports errors thrown by the solution', async () => {
+      const sandbox = loadSandbox({}, false);
+      const run = await sandbox.run('module.exports = () => { throw new TypeError("bad input"); };', 'javascript', TESTS);
+
+      expect(run.results[0].error).toBe('bad input');
+    });
+
+    it.each([
+      ['a throwing message getter', '{ get message() { throw new Error("nope"); } }', /could not be read/],
+      ['a looping message getter', '{ get message() { for (;;) {} } }', /timed out/],
+      ['a proxy with looping traps', 'new Proxy({}, { get() { for (;;) {} }, getPrototypeOf() { for (;;) {} } })', /timed out/],
+      ['a value with a looping toString', '{ message: { toString() { for (;;) {} } } }', /timed out/]
+    ])('survives %s', async (_label: string, thrown: string, error: RegExp) => {
+      const sandbox = loadSandbox({ SANDBOX_TIMEOUT_MS: '200' }, false);
+      const run = await sandbox.run(`module.exports = () => { throw ${thrown}; };`, 'javascript', TESTS);
+
+      expect(run.passed).toBe(0);
+      expect(run.results[0].error).toMatch(error);
+    });
+
+    it('ignores captured output the solution tampered with', async () => {
+      const sandbox = loadSandbox({}, false);
+      const tampered = 'Array.prototype.join = () => ({ toString() { for (;;) {} } }); module.exports = (a, b) => a + b;';
+
+      const run = await sandbox.run(tampered, 'javascript', TESTS);
+
+      expect(run.results[0].stdout).toBe('');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import mongoose from 'mongoose';
+import Duel from '../src/models/Duel';
+import User from '../src/models/User';
+import Challenge from '../src/models/Challenge';
+import duelService from '../src/services/duelService';
+import pointsLedgerService from '../src/services/pointsLedgerService';
+
+jest.mock('../src/utils/logger');
+
+const MINUTE_MS = 60 * 1000;
+
+const activeDuel = (overrides: any = {}): any => {
+  const challengerId = new mongoose.Types.ObjectId();
+  const opponentId = new mongoose.Types.ObjectId();
+  return new Duel({
+    challengerId,
+    opponentId,
+    title: 'Duel',
+    status: 'active',
+    duration: 10 * MINUTE_MS,
+    participants: [{ userId: challengerId, progress: 80 }, { userId: opponentId, progress: 40 }],
+    inviteExpiresAt: new Date(),
+    startTime: new Date(Date.now() - MINUTE_MS),
+    endTime: new Date(Date.now() + 9 * MINUTE_MS),
+    updatedAt: new Date(Date.now() - 1000),
+    ...overrides
+  });
+};
+
+describe('duelService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('resolveProgress', () => {
+    it('refuses progress ahead of the fastest plausible pace', async () => {
+      const duel = activeDuel();
+      const userId = String(duel.challengerId);
+      const now = new Date(duel.startTime.getTime() + 30 * 1000);
+
+      // 10 minute duel: 100% takes at least a minute, so 50% after 30s.
+      await expect(duelService.resolveProgress(duel, userId, 50, now)).resolves.toBe(50);
+      await expect(duelService.resolveProgress(duel, userId, 100, now))
+        .rejects.toMatchObject({ statusCode: 400, details: { maxProgress: 50 } });
+    });
+
+    it('uses graded attempts on the participant\'s copy instead of the report', async () => {
+      const duel = activeDuel({ challengeId: new mongoose.Types.ObjectId() });
+      const copyId = new mongoose.Types.ObjectId();
+      duel.participants[1].challengeId = copyId;
+      const select = jest.fn().mockResolvedValue({
+        attemptHistory: [
+          { kind: 'quiz', submittedAt: new Date(duel.startTime.getTime() - 1000), accuracy: 100 },
+          { kind: 'complete', submittedAt: new Date(duel.startTime.getTime() + 500), accuracy: 100 },
+          { kind: 'quiz', submittedAt: new Date(duel.startTime.getTime() + 1000), accuracy: 60 },
+          { kind: 'solution', submittedAt: new Date(duel.startTime.getTime() + 2000), passed: false }
+        ]
+      });
+      const findOne = jest.spyOn(Challenge, 'findOne').mockReturnValue({ select } as any);
+
+      await expect(duelService.resolveProgress(duel, String(duel.opponentId), 100)).resolves.toBe(60);
+      expect(findOne).toHaveBeenCalledWith({ _id: copyId, userId: String(duel.opponentId) });
+    });
+
+    it('ignores reports from participants without a copy of the linked challenge', async () => {
+      const duel = activeDuel({ challengeId: new mongoose.Types.ObjectId() });
+      const findOne = jest.spyOn(Challenge, 'findOne');
+
+      await expect(duelService.resolveProgress(duel, String(duel.challengerId), 100)).resolves.toBe(0);
+      expect(findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('linked challenges', () => {
+    const challengerId = String(new mongoose.Types.ObjectId());
+    const opponentId = String(new mongoose.Types.ObjectId());
+
+    beforeEach(() => {
+      jest.spyOn(User, 'findById').mockReturnValue({ select: () => Promise.resolve({ _id: opponentId, isActive: true }) } as any);
+    });
+
+    it('rejects challenges the challenger does not own', async () => {
+      jest.spyOn(Challenge, 'findOne').mockResolvedValue(null as never);
+      const create = jest.spyOn(Duel, 'create');
+
+      await expect(duelService.createDuel(challengerId, opponentId, { challengeId: String(new mongoose.Types.ObjectId()) }))
+        .rejects.toMatchObject({ statusCode: 404 });
+      await expect(duelService.createDuel(challengerId, opponentId, { challengeId: 'not-an-id' }))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('rejects challenges the server does not grade', async () => {
+      jest.spyOn(Challenge, 'findOne').mockResolvedValue(new Challenge({ userId: challengerId, type: 'timed_completion', title: 'Sprint' }) as never);
+
+      await expect(duelService.createDuel(challengerId, opponentId, { challengeId: String(new mongoose.Types.ObjectId()) }))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('gives every participant a fresh copy when the duel starts', async () => {
+      const duel = activeDuel({ challengeId: new mongoose.Types.ObjectId() });
+      const source = new Challenge({
+        userId: duel.challengerId,
+        taskId: new mongoose.Types.ObjectId(),
+        type: 'quiz',
+        title: 'Quiz',
+        status: 'completed',
+        pointsReward: 120,
+        configuration: { questions: [{ question: 'Q', options: ['a', 'b'], correctAnswer: 1, points: 10 }] }
+      });
+      const insertMany = jest.spyOn(Challenge, 'insertMany').mockImplementation(((docs: any[]) =>
+        Promise.resolve(docs.map((doc: any) => new Challenge(doc)))) as any);
+      const update = jest.spyOn(Duel, 'findOneAndUpdate').mockResolvedValue(duel as never);
+
+      await duelService.assignChallenge(duel, source);
+
+      const copies = (insertMany.mock.calls[0] as any[])[0];
+      expect(copies.map((copy: any) => String(copy.userId))).toEqual([String(duel.challengerId), String(duel.opponentId)]);
+      expect(copies[0]).toMatchObject({ status: 'active', pointsReward: 0, startedAt: duel.startTime, expiresAt: duel.endTime });
+      const assigned = (update.mock.calls[0] as any[])[1].$set;
+      expect(Object.keys(assigned)).toEqual(['participants.0.challengeId', 'participants.1.challengeId']);
+    });
+  });
+
+  describe('finishDuel', () => {
+    it('writes the result in the update that completes the duel', async () => {
+      const duel = activeDuel();
+      jest.spyOn(Duel, 'findOne').mockResolvedValue(duel as never);
+      const findOneAndUpdate = jest.spyOn(Duel, 'findOneAndUpdate').mockImplementation(((_filter: any, update: any) =>
+        Promise.resolve(new Duel({ ...duel.toObject(), ...update.$set }))) as any);
+      const postAwards = jest.spyOn(duelService, 'postAwards').mockResolvedValue(undefined);
+
+      const finished = await duelService.finishDuel(String(duel._id));
+
+      const [filter, update] = findOneAndUpdate.mock.calls[0] as any[];
+      expect(filter).toEqual({ _id: String(duel._id), status: 'active', updatedAt: duel.updatedAt });
+      expect(update.$set).toMatchObject({ status: 'completed', isDraw: false, winnerId: duel.challengerId });
+      expect(update.$set.participants.map((participant: any) => participant.pointsAwarded)).toEqual([50, 10]);
+      expect(postAwards).toHaveBeenCalledWith(finished);
+    });
+
+    it('re-reads the duel when progress changed in between', async () => {
+      const stale = activeDuel();
+      const fresh = activeDuel({ _id: stale._id, updatedAt: new Date() });
+      jest.spyOn(Duel, 'findOne')
+        .mockResolvedValueOnce(stale as never)
+        .mockResolvedValueOnce(fresh as never);
+      const findOneAndUpdate = jest.spyOn(Duel, 'findOneAndUpdate')
+        .mockResolvedValueOnce(null as never)
+        .mockResolvedValueOnce(fresh as never);
+      jest.spyOn(duelService, 'postAwards').mockResolvedValue(undefined);
+
+      await expect(duelService.finishDuel(String(stale._id))).resolves.toBe(fresh);
+      expect((findOneAndUpdate.mock.calls[1] as any[])[0].updatedAt).toBe(fresh.updatedAt);
+    });
+  });
+
+  it('leaves a duel for the sweep when an award fails', async () => {
+    const duel = activeDuel({ status: 'completed' });
+    jest.spyOn(pointsLedgerService, 'award').mockRejectedValue(new Error('ledger down'));
+    const updateOne = jest.spyOn(Duel, 'updateOne');
+
+    await expect(duelService.postAwards(duel)).rejects.toThrow('ledger down');
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
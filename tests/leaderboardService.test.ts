@@ -0,0 +1,206 @@
+import mongoose from 'mongoose';
+import User from '../src/models/User';
+import Team from '../src/models/Team';
+import Gamification from '../src/models/Gamification';
+import cacheService from '../src/services/cacheService';
+import leaderboardService, { getWindow } from '../src/services/leaderboardService';
+
+jest.mock('../src/utils/logger');
+
+describe('leaderboardService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getWindow', () => {
+    it('uses UTC days', () => {
+      const window = getWindow('day', new Date('2026-03-01T23:30:00-05:00'));
+      expect(window.key).toBe('leaderboard:day:2026-03-02');
+      expect(window.start.toISOString()).toBe('2026-03-02T00:00:00.000Z');
+      expect(window.end.toISOString()).toBe('2026-03-03T00:00:00.000Z');
+    });
+
+    it('numbers weeks by ISO-8601, starting on Monday', () => {
+      const window = getWindow('week', new Date('2026-10-18T12:00:00Z'));
+      expect(window.key).toBe('leaderboard:week:2026-W42');
+      expect(window.start.toISOString()).toBe('2026-10-12T00:00:00.000Z');
+      expect(window.end.toISOString()).toBe('2026-10-19T00:00:00.000Z');
+    });
+
+    it('assigns weeks that straddle New Year to the ISO year', () => {
+      expect(getWindow('week', new Date('2027-01-01T00:00:00Z')).key).toBe('leaderboard:week:2026-W53');
+      expect(getWindow('week', new Date('2025-12-29T00:00:00Z')).key).toBe('leaderboard:week:2026-W01');
+      expect(getWindow('week', new Date('2021-01-03T00:00:00Z')).key).toBe('leaderboard:week:2020-W53');
+    });
+
+    it('uses calendar months and quarters', () => {
+      const month = getWindow('month', new Date('2026-12-31T23:59:59Z'));
+      expect(month.key).toBe('leaderboard:month:2026-12');
+      expect(month.end.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+
+      const season = getWindow('season', new Date('2026-05-15T00:00:00Z'));
+      expect(season.key).toBe('leaderboard:season:2026-Q2');
+      expect(season.start.toISOString()).toBe('2026-04-01T00:00:00.000Z');
+      expect(season.end.toISOString()).toBe('2026-07-01T00:00:00.000Z');
+    });
+  });
+
+  describe('cohort boards', () => {
+    const me = String(new mongoose.Types.ObjectId());
+    const friend = String(new mongoose.Types.ObjectId());
+    const teammate = String(new mongoose.Types.ObjectId());
+    const stranger = String(new mongoose.Types.ObjectId());
+
+    beforeEach(() => {
+      jest.spyOn(User, 'findById').mockReturnValue({ select: () => Promise.resolve({ friends: [friend] }) } as any);
+      jest.spyOn(Team, 'find').mockReturnValue({ select: () => Promise.resolve([{ memberIds: [me, teammate] }]) } as any);
+    });
+
+    it('accepts friends and teammates', async () => {
+      await expect(leaderboardService.resolveScopeMembers(me, { scope: 'cohort', userIds: [friend, teammate] }))
+        .resolves.toEqual([me, friend, teammate]);
+    });
+
+    it('refuses users the requester has no relationship with', async () => {
+      await expect(leaderboardService.resolveScopeMembers(me, { scope: 'cohort', userIds: [friend, stranger] }))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('does not expose email addresses', async () => {
+      jest.spyOn(leaderboardService, 'getHiddenUserIds').mockResolvedValue(new Set());
+      jest.spyOn(Gamification, 'find').mockReturnValue({ select: () => Promise.resolve([]) } as any);
+      const select = jest.fn().mockResolvedValue([]);
+      jest.spyOn(User, 'find').mockReturnValue({ select } as any);
+
+      await leaderboardService.getScopedLeaderboard(me, { scope: 'cohort', userIds: [friend] }, 'all');
+
+      expect(select).toHaveBeenCalledWith('name');
+    });
+  });
+
+  describe('cached windows', () => {
+    it('only increments windows that are already loaded', async () => {
+      jest.spyOn(cacheService, 'getConnectionStatus').mockReturnValue(true);
+      const increment = jest.spyOn(cacheService, 'zIncrByLive').mockResolvedValue(true);
+      const at = new Date('2026-10-18T12:00:00Z');
+
+      await leaderboardService.recordPoints('u1', 20, at);
+
+      expect(increment.mock.calls).toEqual([
+        ['leaderboard:day:2026-10-18', 20, 'u1', at],
+        ['leaderboard:week:2026-W42', 20, 'u1', at],
+        ['leaderboard:month:2026-10', 20, 'u1', at],
+        ['leaderboard:season:2026-Q4', 20, 'u1', at]
+      ]);
+    });
+
+    it('rebuilds a missing window from the ledger up to the snapshot', async () => {
+      jest.spyOn(cacheService, 'getConnectionStatus').mockReturnValue(true);
+      jest.spyOn(cacheService, 'exists').mockResolvedValue(false);
+      const aggregate = jest.spyOn(leaderboardService, 'aggregateWindow')
+        .mockResolvedValue([{ rank: 1, userId: 'u1', points: 30 }]);
+      let loaded: any;
+      jest.spyOn(cacheService, 'zRebuild').mockImplementation(async (_key: string, load: any) => {
+        loaded = await load(new Date('2026-10-18T12:00:00Z'));
+        return true;
+      });
+      jest.spyOn(cacheService, 'zTop').mockResolvedValue([{ member: 'u1', score: 30 }]);
+      const window = getWindow('day', new Date('2026-10-18T12:00:00Z'));
+
+      await expect(leaderboardService.getWindowTop(window, 10)).resolves.toEqual([{ rank: 1, userId: 'u1', points: 30 }]);
+
+      expect(aggregate).toHaveBeenCalledWith(window, undefined, new Date('2026-10-18T12:00:00Z'));
+      expect(loaded).toEqual([{ member: 'u1', score: 30 }]);
+    });
+
+    it('reads the ledger while another instance rebuilds the window', async () => {
+      jest.spyOn(cacheService, 'getConnectionStatus').mockReturnValue(true);
+      jest.spyOn(cacheService, 'exists').mockResolvedValue(false);
+      jest.spyOn(cacheService, 'zRebuild').mockResolvedValue(false);
+      const top = jest.spyOn(cacheService, 'zTop');
+      jest.spyOn(leaderboardService, 'aggregateWindow').mockResolvedValue([{ rank: 1, userId: 'u2', points: 5 }]);
+
+      await expect(leaderboardService.getWindowTop(getWindow('day'), 10)).resolves.toEqual([{ rank: 1, userId: 'u2', points: 5 }]);
+      expect(top).not.toHaveBeenCalled();
+    });
+
+    it('removes deleted users from every window', async () => {
+      const remove = jest.spyOn(cacheService, 'zRemFromAll').mockResolvedValue(3);
+
+      await leaderboardService.removeUser('u1');
+
+      expect(remove).toHaveBeenCalledWith('leaderboard:*', 'u1');
+    });
+  });
+});
+
+describe('cacheService.zRebuild', () => {
+  const service: any = cacheService;
+  const key = 'leaderboard:day:2026-10-18';
+  const entries = [{ member: 'u1', score: 5 }];
+
+  const fakeClient = (locked: string | null, swapped: boolean = true): any => {
+    const calls: any[] = [];
+    const multi: any = {
+      zAdd: (...args: any[]) => { calls.push(['zAdd', ...args]); return multi; },
+      expire: (...args: any[]) => { calls.push(['expire', ...args]); return multi; },
+      exec: jest.fn().mockResolvedValue([])
+    };
+    return {
+      calls,
+      set: jest.fn().mockResolvedValue(locked),
+      multi: () => multi,
+      eval: jest.fn().mockResolvedValue(swapped),
+      del: jest.fn().mockResolvedValue(1)
+    };
+  };
+
+  afterEach(() => {
+    service.client = null;
+    service.isConnected = false;
+  });
+
+  it('builds the set under a temporary key and swaps it in under the lock', async () => {
+    const client = fakeClient('OK');
+    service.client = client;
+    service.isConnected = true;
+    const load = jest.fn().mockResolvedValue(entries);
+
+    await expect(cacheService.zRebuild(key, load, 60)).resolves.toBe(true);
+
+    const [lockKey, snapshot, lockOptions] = client.set.mock.calls[0];
+    expect(lockKey).toBe(`${key}:rebuilding`);
+    expect(lockOptions).toMatchObject({ NX: true });
+    expect(load).toHaveBeenCalledWith(new Date(Number(snapshot)));
+
+    const temporary = client.calls[0][1];
+    expect(temporary).toMatch(/^leaderboard:day:2026-10-18:rebuild:/);
+    expect(client.calls).toEqual([
+      ['zAdd', temporary, [{ value: 'u1', score: 5 }]],
+      ['expire', temporary, 60]
+    ]);
+    expect(client.eval.mock.calls[0][1]).toEqual({
+      keys: [key, `${key}:asof`, `${key}:rebuilding`, `${key}:pending`, temporary],
+      arguments: [snapshot, '60']
+    });
+  });
+
+  it('leaves the set to the rebuild that holds the lock', async () => {
+    const client = fakeClient(null);
+    service.client = client;
+    service.isConnected = true;
+    const load = jest.fn();
+
+    await expect(cacheService.zRebuild(key, load, 60)).resolves.toBe(false);
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('releases the lock when loading fails', async () => {
+    const client = fakeClient('OK');
+    service.client = client;
+    service.isConnected = true;
+
+    await expect(cacheService.zRebuild(key, jest.fn().mockRejectedValue(new Error('mongo down')), 60)).resolves.toBe(false);
+    expect(client.eval.mock.calls[0][1].keys).toEqual([key, `${key}:asof`, `${key}:rebuilding`, `${key}:pending`]);
+  });
+});
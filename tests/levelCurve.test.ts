@@ -0,0 +1,95 @@
+import { createLevelCurve, parseLevelCurveConfig } from '../src/utils/levelCurve';
+
+const curve = (env: any = {}) => createLevelCurve(parseLevelCurveConfig(env));
+
+describe('levelCurve', () => {
+  describe('parseLevelCurveConfig', () => {
+    it('defaults to the original exponential progression', () => {
+      expect(parseLevelCurveConfig({})).toEqual({
+        type: 'exponential',
+        base: 1000,
+        growth: 1.5,
+        step: 500,
+        table: [],
+        maxLevel: 100
+      });
+    });
+
+    it('reads table curves', () => {
+      const config = parseLevelCurveConfig({ LEVEL_CURVE: 'table', LEVEL_CURVE_TABLE: '100, 200,300' });
+      expect(config.table).toEqual([100, 200, 300]);
+    });
+
+    it.each([
+      [{ LEVEL_CURVE: 'cubic' }, /LEVEL_CURVE must be/],
+      [{ LEVEL_CURVE: 'table' }, /LEVEL_CURVE_TABLE is required/],
+      [{ LEVEL_CURVE_TABLE: '100,0' }, /LEVEL_CURVE_TABLE must be a positive number/],
+      [{ LEVEL_CURVE_BASE: 'abc' }, /LEVEL_CURVE_BASE must be a positive number/],
+      [{ LEVEL_CURVE_BASE: '-5' }, /LEVEL_CURVE_BASE must be a positive number/],
+      [{ LEVEL_CURVE_STEP: '-1' }, /LEVEL_CURVE_STEP must be a non-negative number/],
+      [{ LEVEL_CURVE_GROWTH: '0.9' }, /LEVEL_CURVE_GROWTH must be at least 1/]
+    ])('rejects %p', (env: any, message: RegExp) => {
+      expect(() => parseLevelCurveConfig(env)).toThrow(message);
+    });
+
+    it('accepts a flat exponential curve', () => {
+      expect(parseLevelCurveConfig({ LEVEL_CURVE_GROWTH: '1' }).growth).toBe(1);
+    });
+  });
+
+  describe('createLevelCurve', () => {
+    it('floors exponential steps one level at a time', () => {
+      const levels = curve({ LEVEL_CURVE_MAX_LEVEL: '5' });
+      expect([1, 2, 3, 4, 5].map(levels.xpForLevel)).toEqual([1000, 1500, 2250, 3375, 0]);
+    });
+
+    it('adds the step per level on linear curves', () => {
+      const levels = curve({ LEVEL_CURVE: 'linear', LEVEL_CURVE_BASE: '100', LEVEL_CURVE_STEP: '50' });
+      expect([1, 2, 3].map(levels.xpForLevel)).toEqual([100, 150, 200]);
+    });
+
+    it('repeats the last table entry', () => {
+      const levels = curve({ LEVEL_CURVE: 'table', LEVEL_CURVE_TABLE: '100,200' });
+      expect([1, 2, 3, 10].map(levels.xpForLevel)).toEqual([100, 200, 200, 200]);
+    });
+
+    it.each([
+      [{ LEVEL_CURVE_BASE: '0.5' }],
+      [{ LEVEL_CURVE: 'linear', LEVEL_CURVE_BASE: '0.9', LEVEL_CURVE_STEP: '0' }],
+      [{ LEVEL_CURVE: 'table', LEVEL_CURVE_TABLE: '100,0.5' }]
+    ])('rejects levels that require no XP: %p', (env: any) => {
+      expect(() => curve(env)).toThrow(/must require XP for every level/);
+    });
+  });
+
+  describe('progression', () => {
+    const levels = curve({ LEVEL_CURVE_MAX_LEVEL: '5' });
+
+    it('crosses several levels at once', () => {
+      expect(levels.progressFor(1000 + 1500 + 100)).toEqual({ level: 3, xp: 100, xpToNextLevel: 2250 });
+    });
+
+    it('stops at the maximum level', () => {
+      expect(levels.progressFor(1e9)).toEqual({ level: 5, xp: 1e9 - 8125, xpToNextLevel: 0 });
+    });
+
+    it('never goes below level 1', () => {
+      expect(levels.progressFor(-50)).toEqual({ level: 1, xp: 0, xpToNextLevel: 1000 });
+    });
+
+    it('round-trips between totals and level progress', () => {
+      [0, 999, 1000, 2600, 8124, 8125].forEach((total: number) => {
+        const progress = levels.progressFor(total);
+        expect(levels.totalXpFor(progress.level, progress.xp)).toBe(total);
+      });
+    });
+
+    it('describes cumulative thresholds', () => {
+      expect(levels.describe(3)).toEqual([
+        { level: 1, xpRequired: 1000, totalXp: 0 },
+        { level: 2, xpRequired: 1500, totalXp: 1000 },
+        { level: 3, xpRequired: 2250, totalXp: 2500 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import levelService from '../src/services/levelService';
+import notificationService from '../src/services/notificationService';
+
+jest.mock('../src/utils/logger');
+
+describe('levelService', () => {
+  const emit = jest.fn();
+
+  beforeEach(() => {
+    (global as any).io = { to: jest.fn(() => ({ emit })) };
+  });
+
+  afterEach(() => {
+    delete (global as any).io;
+    emit.mockReset();
+    jest.restoreAllMocks();
+  });
+
+  it('emits level:up and notifies when the user went up', async () => {
+    const notify = jest.spyOn(notificationService, 'sendLevelUpNotification').mockResolvedValue(undefined);
+
+    await levelService.announce('user-1', { level: 4, previousLevel: 2, xp: 10, xpToNextLevel: 3375 });
+
+    expect((global as any).io.to).toHaveBeenCalledWith('user_user-1');
+    expect(emit).toHaveBeenCalledWith('level:up', { level: 4, previousLevel: 2, xp: 10, xpToNextLevel: 3375 });
+    expect(notify).toHaveBeenCalledWith('user-1', 4, 2);
+  });
+
+  it('emits level:down without a notification', async () => {
+    const notify = jest.spyOn(notificationService, 'sendLevelUpNotification').mockResolvedValue(undefined);
+
+    await levelService.announce('user-1', { level: 1, previousLevel: 2, xp: 0, xpToNextLevel: 1000 });
+
+    expect(emit).toHaveBeenCalledWith('level:down', expect.objectContaining({ level: 1, previousLevel: 2 }));
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('stays quiet when the level did not change', async () => {
+    await levelService.announce('user-1', { level: 2, previousLevel: 2, xp: 5, xpToNextLevel: 1500 });
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('describes 50 levels by default, capped at the maximum level', () => {
+    const curve = levelService.getCurve(1e6);
+    expect(curve.levels).toHaveLength(curve.maxLevel);
+    expect(levelService.getCurve().levels).toHaveLength(50);
+    expect(levelService.getCurve(1).levels).toEqual([{ level: 1, xpRequired: 1000, totalXp: 0 }]);
+  });
+});
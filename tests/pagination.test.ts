@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import {
+  cursorFilter,
+  decodeCursor,
+  decodeOffsetCursor,
+  encodeCursor,
+  encodeOffsetCursor,
+  paginate,
+  parsePageRequest
+} from '../src/utils/pagination';
+
+const byCreatedAt = { field: 'createdAt', direction: -1 as const };
+
+describe('pagination', () => {
+  const id = new mongoose.Types.ObjectId();
+  const createdAt = new Date('2026-03-01T10:00:00.000Z');
+
+  describe('keyset cursors', () => {
+    it('round-trips dates and ids', () => {
+      const cursor = encodeCursor({ _id: id, createdAt }, byCreatedAt);
+      const decoded = decodeCursor(cursor, byCreatedAt);
+      expect(decoded.value).toEqual(createdAt);
+      expect(decoded.id.equals(id)).toBe(true);
+    });
+
+    it('reads nested fields from plain objects', () => {
+      const sort = { field: 'stats.points', direction: 1 as const };
+      expect(decodeCursor(encodeCursor({ _id: id, stats: { points: 42 } }, sort), sort).value).toBe(42);
+    });
+
+    it('rejects cursors issued for another sort or tampered with', () => {
+      const cursor = encodeCursor({ _id: id, createdAt }, byCreatedAt);
+      expect(() => decodeCursor(cursor, { field: 'createdAt', direction: 1 })).toThrow('Invalid pagination cursor');
+      expect(() => decodeCursor('not-a-cursor', byCreatedAt)).toThrow('Invalid pagination cursor');
+      const forged = Buffer.from(JSON.stringify({ f: 'createdAt', d: -1, v: null, id: '$ne' })).toString('base64url');
+      expect(() => decodeCursor(forged, byCreatedAt)).toThrow('Invalid pagination cursor');
+    });
+
+    it('selects rows strictly after the cursor with _id as tiebreaker', () => {
+      const cursor = encodeCursor({ _id: id, createdAt }, byCreatedAt);
+      expect(cursorFilter(byCreatedAt, cursor)).toEqual({
+        $or: [
+          { createdAt: { $lt: createdAt } },
+          { createdAt, _id: { $lt: id } },
+          { createdAt: null }
+        ]
+      });
+    });
+
+    it('carries a 400 status on bad cursors', () => {
+      try {
+        decodeCursor('x', byCreatedAt);
+      } catch (error: any) {
+        expect(error.statusCode).toBe(400);
+      }
+      expect.assertions(1);
+    });
+  });
+
+  describe('offset cursors', () => {
+    it('round-trips offsets', () => {
+      expect(decodeOffsetCursor(encodeOffsetCursor(150))).toBe(150);
+    });
+
+    it('rejects keyset cursors and negative offsets', () => {
+      expect(() => decodeOffsetCursor(encodeCursor({ _id: id, createdAt }, byCreatedAt))).toThrow('Invalid pagination cursor');
+      expect(() => decodeOffsetCursor(encodeOffsetCursor(-1))).toThrow('Invalid pagination cursor');
+    });
+  });
+
+  it('parses page requests from query strings', () => {
+    expect(parsePageRequest({ cursor: 'abc', limit: '20' })).toEqual({ cursor: 'abc', limit: 20, skip: undefined });
+    expect(parsePageRequest({ offset: '40' }, 10)).toEqual({ cursor: undefined, limit: 10, skip: 40 });
+  });
+
+  describe('paginate', () => {
+    const model = (docs: any[]): any => {
+      const query: any = {
+        sort: jest.fn(() => query),
+        limit: jest.fn(() => query),
+        skip: jest.fn(() => query),
+        then: (resolve: any, reject: any) => Promise.resolve(docs).then(resolve, reject)
+      };
+      return { find: jest.fn(() => query), query };
+    };
+
+    it('fetches one extra row and returns a cursor to the last item', async () => {
+      const docs = [0, 1, 2].map((n: number) => ({ _id: new mongoose.Types.ObjectId(), createdAt: new Date(2026, 0, 3 - n) }));
+      const { find, query } = model(docs);
+
+      const page = await paginate({ find } as any, { userId: 'u' }, byCreatedAt, { limit: 2 });
+
+      expect(query.limit).toHaveBeenCalledWith(3);
+      expect(query.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+      expect(page.items).toHaveLength(2);
+      expect(page.hasMore).toBe(true);
+      expect(decodeCursor(page.nextCursor!, byCreatedAt).id.equals(docs[1]._id)).toBe(true);
+    });
+
+    it('ignores skip when a cursor is given', async () => {
+      const { find, query } = model([]);
+      const cursor = encodeCursor({ _id: id, createdAt }, byCreatedAt);
+
+      const page = await paginate({ find } as any, { userId: 'u' }, byCreatedAt, { cursor, skip: 10 });
+
+      expect(query.skip).not.toHaveBeenCalled();
+      expect((find.mock.calls[0] as any[])[0].$and).toHaveLength(2);
+      expect(page).toEqual({ items: [], hasMore: false, nextCursor: null });
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import mongoose from 'mongoose';
+import axios from 'axios';
+import Gamification from '../src/models/Gamification';
+import PointsLedger from '../src/models/PointsLedger';
+import leaderboardService from '../src/services/leaderboardService';
+import levelService from '../src/services/levelService';
+import pointsLedgerService from '../src/services/pointsLedgerService';
+import gamificationIntegrationService from '../src/services/gamificationIntegrationService';
+import { levelCurve } from '../src/utils/levelCurve';
+
+jest.mock('../src/utils/logger');
+
+const batch = (docs: any[]): any => ({ sort: () => ({ limit: () => Promise.resolve(docs) }) });
+
+// Reconcile reads POINTS_LEDGER_CUTOVER when the module loads.
+const loadLedger = (cutover?: string): any => {
+  let loaded: any;
+  jest.isolateModules(() => {
+    if (cutover) {
+      process.env.POINTS_LEDGER_CUTOVER = cutover;
+    } else {
+      delete process.env.POINTS_LEDGER_CUTOVER;
+    }
+    loaded = {
+      service: require('../src/services/pointsLedgerService').default,
+      Gamification: require('../src/models/Gamification').default,
+      PointsLedger: require('../src/models/PointsLedger').default,
+      User: require('../src/models/User').default
+    };
+  });
+  delete process.env.POINTS_LEDGER_CUTOVER;
+  return loaded;
+};
+
+describe('pointsLedgerService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('applyToProfile', () => {
+    const userId = String(new mongoose.Types.ObjectId());
+
+    it('adds to the stored total atomically and derives the level from it', async () => {
+      const profile = new Gamification({ userId, points: 100, level: 1, xp: 900, totalXp: 900 });
+      jest.spyOn(Gamification, 'findOne').mockResolvedValue(profile);
+      const levelWrite = jest.spyOn(Gamification, 'updateOne').mockResolvedValue({} as any);
+      const increment = jest.spyOn(Gamification, 'findOneAndUpdate')
+        .mockResolvedValue(new Gamification({ _id: profile._id, userId, points: 100, totalXp: 900 }) as any);
+
+      const change = await pointsLedgerService.applyToProfile(userId, 200, 200);
+
+      const [filter, pipeline, options] = increment.mock.calls[0] as any[];
+      expect(filter).toEqual({ _id: profile._id });
+      expect(pipeline[0].$set.points).toEqual({ $max: [0, { $add: ['$points', 200] }] });
+      expect(pipeline[0].$set.totalXp).toEqual({ $max: [0, { $add: ['$totalXp', 200] }] });
+      expect(options).toEqual({ new: false });
+
+      const progress = levelCurve.progressFor(1100);
+      expect(levelWrite).toHaveBeenCalledTimes(1);
+      expect(levelWrite).toHaveBeenCalledWith(
+        { _id: profile._id, totalXp: 1100 },
+        { $set: { level: progress.level, xp: progress.xp, xpToNextLevel: progress.xpToNextLevel } }
+      );
+      expect(change).toEqual({ ...progress, previousLevel: 1 });
+    });
+
+    it('takes the previous level from the total the increment applied to', async () => {
+      // Read at level 1, but another award reached level 2 before this one.
+      const profile = new Gamification({ userId, level: 1, xp: 900, totalXp: 900 });
+      jest.spyOn(Gamification, 'findOne').mockResolvedValue(profile);
+      const levelWrite = jest.spyOn(Gamification, 'updateOne').mockResolvedValue({} as any);
+      jest.spyOn(Gamification, 'findOneAndUpdate')
+        .mockResolvedValue(new Gamification({ _id: profile._id, userId, totalXp: 1200 }) as any);
+
+      const change = await pointsLedgerService.applyToProfile(userId, -500, -500);
+
+      expect(change).toMatchObject({ level: 1, xp: 700, previousLevel: 2 });
+      expect((levelWrite.mock.calls[0] as any[])[0]).toEqual({ _id: profile._id, totalXp: 700 });
+    });
+
+    it('floors the new total at zero', async () => {
+      const profile = new Gamification({ userId, totalXp: 100 });
+      jest.spyOn(Gamification, 'findOne').mockResolvedValue(profile);
+      jest.spyOn(Gamification, 'updateOne').mockResolvedValue({} as any);
+      jest.spyOn(Gamification, 'findOneAndUpdate').mockResolvedValue(profile as any);
+
+      await expect(pointsLedgerService.applyToProfile(userId, -500, -500)).resolves.toMatchObject({ level: 1, xp: 0, previousLevel: 1 });
+    });
+
+    it('backfills the total for profiles that predate it', async () => {
+      const profile = new Gamification({ userId, level: 3, xp: 50 });
+      expect(profile.totalXp).toBeUndefined();
+      jest.spyOn(Gamification, 'findOne').mockResolvedValue(profile);
+      const updateOne = jest.spyOn(Gamification, 'updateOne').mockResolvedValue({} as any);
+      jest.spyOn(Gamification, 'findOneAndUpdate')
+        .mockResolvedValue(new Gamification({ _id: profile._id, userId, totalXp: levelCurve.totalXpFor(3, 60) }) as any);
+
+      await pointsLedgerService.applyToProfile(userId, 10, 10);
+
+      expect(updateOne.mock.calls[0]).toEqual([
+        { _id: profile._id, totalXp: { $exists: false } },
+        { $set: { totalXp: levelCurve.totalXpFor(3, 50) } }
+      ]);
+    });
+
+    it('reads the profile back when another award created it first', async () => {
+      const profile = new Gamification({ userId, totalXp: 0 });
+      jest.spyOn(Gamification, 'findOne').mockResolvedValueOnce(null).mockResolvedValueOnce(profile);
+      jest.spyOn(Gamification, 'create').mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+      jest.spyOn(Gamification, 'updateOne').mockResolvedValue({} as any);
+      const increment = jest.spyOn(Gamification, 'findOneAndUpdate')
+        .mockResolvedValue(new Gamification({ _id: profile._id, userId, totalXp: 10 }) as any);
+
+      await pointsLedgerService.applyToProfile(userId, 10, 10);
+
+      expect((increment.mock.calls[0] as any[])[0]).toEqual({ _id: profile._id });
+    });
+  });
+
+  it('announces the level change after applying a gamification entry', async () => {
+    const entry = new PointsLedger({ userId: new mongoose.Types.ObjectId(), account: 'gamification', points: 5, xp: 5, reason: 'task_completion', source: 'task', idempotencyKey: 'k' });
+    const change = { level: 2, previousLevel: 1, xp: 0, xpToNextLevel: 1000 } as any;
+    jest.spyOn(pointsLedgerService, 'applyToProfile').mockResolvedValue(change);
+    jest.spyOn(leaderboardService, 'recordPoints').mockResolvedValue(undefined);
+    const announce = jest.spyOn(levelService, 'announce').mockResolvedValue(undefined);
+
+    await pointsLedgerService.applyToBalance(entry);
+
+    expect(announce).toHaveBeenCalledWith(String(entry.userId), change);
+  });
+
+  describe('reconcile', () => {
+    const cutover = '2026-06-01T00:00:00Z';
+
+    const stubReconcile = (ledger: any, profile: any, sums: any[] = []): any => {
+      jest.spyOn(ledger.Gamification, 'find').mockReturnValueOnce(batch([profile])).mockReturnValueOnce(batch([]));
+      jest.spyOn(ledger.User, 'find').mockReturnValue({ sort: () => ({ limit: () => ({ select: () => Promise.resolve([]) }) }) });
+      jest.spyOn(ledger.PointsLedger, 'aggregate').mockResolvedValue(sums);
+      return {
+        opening: jest.spyOn(ledger.service, 'postOpeningBalance').mockResolvedValue(undefined),
+        update: jest.spyOn(ledger.Gamification, 'updateOne').mockResolvedValue({})
+      };
+    };
+
+    it('books an opening balance for profiles created before the cutover', async () => {
+      const ledger = loadLedger(cutover);
+      const profile = new ledger.Gamification({ userId: new mongoose.Types.ObjectId(), points: 500, level: 1, xp: 400, createdAt: new Date('2026-01-01') });
+      const { opening, update } = stubReconcile(ledger, profile);
+
+      const report = await ledger.service.reconcile();
+
+      expect(opening).toHaveBeenCalledWith(String(profile.userId), 'gamification', 500, 400);
+      expect(report.openingBalances).toBe(1);
+      expect(update.mock.calls[0][1].$set).toMatchObject({ points: 500, totalXp: 400, level: 1, xp: 400 });
+    });
+
+    it('holds newer profiles to the ledger sum', async () => {
+      const ledger = loadLedger(cutover);
+      const profile = new ledger.Gamification({ userId: new mongoose.Types.ObjectId(), points: 500, level: 1, xp: 400, createdAt: new Date('2026-07-01') });
+      const { opening, update } = stubReconcile(ledger, profile, [{ _id: profile.userId, points: 50, xp: 50, opened: 0 }]);
+
+      const report = await ledger.service.reconcile();
+
+      expect(opening).not.toHaveBeenCalled();
+      expect(report.profilesFixed).toBe(1);
+      expect(update.mock.calls[0][1].$set).toMatchObject({ points: 50, totalXp: 50, level: 1, xp: 50 });
+    });
+
+    it('leaves unopened accounts alone without a cutover', async () => {
+      const ledger = loadLedger();
+      const profile = new ledger.Gamification({ userId: new mongoose.Types.ObjectId(), points: 500, createdAt: new Date('2026-01-01') });
+      const { opening, update } = stubReconcile(ledger, profile);
+
+      const report = await ledger.service.reconcile();
+
+      expect(report.skipped).toBe(1);
+      expect(opening).not.toHaveBeenCalled();
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('momentum', () => {
+    const award = {
+      userId: String(new mongoose.Types.ObjectId()),
+      amount: 5,
+      source: 'tasks',
+      ledgerSource: 'task',
+      sourceId: 'task-1',
+      description: 'Completed task',
+      idempotencyKey: 'momentum:task:task-1'
+    };
+    const postMomentum = (input: any): Promise<boolean> => (gamificationIntegrationService as any).postMomentum(input);
+
+    it('reserves the key before calling the engagement service', async () => {
+      const entry = new PointsLedger({ account: 'momentum' });
+      const reserve = jest.spyOn(pointsLedgerService, 'award').mockResolvedValue({ entry, applied: true });
+      const post = jest.spyOn(axios, 'post').mockResolvedValue({ data: {} });
+
+      await expect(postMomentum(award)).resolves.toBe(true);
+
+      expect(reserve.mock.invocationCallOrder[0]).toBeLessThan(post.mock.invocationCallOrder[0]);
+      expect(reserve).toHaveBeenCalledWith(expect.objectContaining({ account: 'momentum', idempotencyKey: award.idempotencyKey }));
+    });
+
+    it('does not call the engagement service for a key already reserved', async () => {
+      jest.spyOn(pointsLedgerService, 'award').mockResolvedValue({ entry: new PointsLedger({ account: 'momentum' }), applied: false });
+      const post = jest.spyOn(axios, 'post');
+
+      await expect(postMomentum(award)).resolves.toBe(false);
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('frees the key when the engagement service fails', async () => {
+      const entry = new PointsLedger({ account: 'momentum' });
+      jest.spyOn(pointsLedgerService, 'award').mockResolvedValue({ entry, applied: true });
+      jest.spyOn(axios, 'post').mockRejectedValue(new Error('unavailable'));
+      const remove = jest.spyOn(PointsLedger, 'deleteOne').mockResolvedValue({} as any);
+
+      await expect(postMomentum(award)).rejects.toThrow('unavailable');
+      expect(remove).toHaveBeenCalledWith({ _id: entry._id });
+    });
+
+    it('skips document activity that has no activityId', async () => {
+      const reserve = jest.spyOn(pointsLedgerService, 'award');
+
+      await gamificationIntegrationService.awardDocumentActivity(award.userId, { action: 'edit' });
+
+      expect(reserve).not.toHaveBeenCalled();
+    });
+
+    it('refuses to discard entries that moved a local balance', async () => {
+      await expect(pointsLedgerService.discard(new PointsLedger({ account: 'gamification' }))).rejects.toThrow();
+    });
+  });
+});
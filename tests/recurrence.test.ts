@@ -0,0 +1,57 @@
+import { getNextOccurrence, validateRecurrenceRule } from '../src/utils/recurrence';
+
+// Local dates: the recurrence helpers work in server time.
+const day = (year: number, month: number, date: number): Date => new Date(year, month - 1, date, 9, 0, 0);
+
+describe('recurrence', () => {
+  describe('getNextOccurrence', () => {
+    it('steps daily rules by their interval', () => {
+      const start = day(2026, 3, 1);
+      expect(getNextOccurrence({ frequency: 'daily', interval: 2 }, start, start, 1)).toEqual(day(2026, 3, 3));
+    });
+
+    it('walks weekly rules through the listed weekdays', () => {
+      // 2026-03-02 is a Monday; Mondays and Thursdays every other week.
+      const rule: any = { frequency: 'weekly', interval: 2, byWeekday: [1, 4] };
+      const start = day(2026, 3, 2);
+      const thursday = getNextOccurrence(rule, start, start, 1)!;
+      expect(thursday).toEqual(day(2026, 3, 5));
+      expect(getNextOccurrence(rule, start, thursday, 2)).toEqual(day(2026, 3, 16));
+    });
+
+    it('clamps monthly rules to the end of short months', () => {
+      const start = day(2026, 1, 31);
+      const february = getNextOccurrence({ frequency: 'monthly' }, start, start, 1)!;
+      expect(february).toEqual(day(2026, 2, 28));
+      expect(getNextOccurrence({ frequency: 'monthly' }, start, february, 2)).toEqual(day(2026, 3, 31));
+    });
+
+    it('skips exception dates', () => {
+      const start = day(2026, 3, 1);
+      const rule: any = { frequency: 'daily', exceptions: [day(2026, 3, 2), day(2026, 3, 3)] };
+      expect(getNextOccurrence(rule, start, start, 1)).toEqual(day(2026, 3, 4));
+    });
+
+    it('ends the series at count or until', () => {
+      const start = day(2026, 3, 1);
+      expect(getNextOccurrence({ frequency: 'daily', count: 3 }, start, day(2026, 3, 3), 3)).toBeNull();
+      expect(getNextOccurrence({ frequency: 'daily', count: 3 }, start, day(2026, 3, 2), 2)).toEqual(day(2026, 3, 3));
+      expect(getNextOccurrence({ frequency: 'weekly', until: day(2026, 3, 10) }, start, start, 1)).toEqual(day(2026, 3, 8));
+      expect(getNextOccurrence({ frequency: 'weekly', until: day(2026, 3, 10) }, start, day(2026, 3, 8), 2)).toBeNull();
+    });
+  });
+
+  describe('validateRecurrenceRule', () => {
+    it('rejects malformed rules', () => {
+      expect(() => validateRecurrenceRule({ frequency: 'hourly' } as any)).toThrow('Invalid recurrence frequency: hourly');
+      expect(() => validateRecurrenceRule({ frequency: 'daily', interval: 0 })).toThrow('positive integer');
+      expect(() => validateRecurrenceRule({ frequency: 'weekly', byWeekday: [7] })).toThrow('between 0 (Sunday) and 6');
+      expect(() => validateRecurrenceRule({ frequency: 'monthly', byMonthDay: 32 })).toThrow('between 1 and 31');
+      expect(() => validateRecurrenceRule({ frequency: 'daily', count: 0 })).toThrow('at least 1');
+    });
+
+    it('accepts valid rules', () => {
+      expect(() => validateRecurrenceRule({ frequency: 'weekly', interval: 2, byWeekday: [0, 6], count: 10 })).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import mongoose from 'mongoose';
+import SkillRating from '../src/models/SkillRating';
+import Gamification from '../src/models/Gamification';
+import skillRatingService from '../src/services/skillRatingService';
+
+jest.mock('../src/utils/logger');
+
+const completed = (overrides: any = {}): any => ({
+  _id: new mongoose.Types.ObjectId(),
+  status: 'completed',
+  difficultyScore: 5,
+  configuration: {},
+  completionData: { accuracy: 100, graded: true },
+  ...overrides
+});
+
+const preference = (challengeDifficulty?: string): any => ({
+  select: () => ({ lean: () => Promise.resolve(challengeDifficulty ? { preferences: { challengeDifficulty } } : null) })
+});
+
+describe('skillRatingService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('outcomeOf', () => {
+    it('rates graded completions by accuracy', () => {
+      expect(skillRatingService.outcomeOf(completed({ completionData: { accuracy: 80, graded: true } }))).toBe(0.8);
+    });
+
+    it('skips self-reported completions', () => {
+      expect(skillRatingService.outcomeOf(completed({ completionData: { accuracy: 100 } }))).toBeNull();
+      expect(skillRatingService.outcomeOf(completed({ completionData: { accuracy: 100, graded: false } }))).toBeNull();
+    });
+
+    it('scores failures and started expiries as losses and skips unstarted ones', () => {
+      expect(skillRatingService.outcomeOf(completed({ status: 'failed' }))).toBe(0);
+      expect(skillRatingService.outcomeOf(completed({ status: 'expired', startedAt: new Date() }))).toBe(0);
+      expect(skillRatingService.outcomeOf(completed({ status: 'expired' }))).toBeNull();
+    });
+
+    it('discounts hints and slow finishes', () => {
+      const startedAt = new Date('2026-01-01T00:00:00Z');
+      const challenge = completed({
+        startedAt,
+        hintsRevealed: 1,
+        configuration: { timeLimit: 10, hints: ['a', 'b'] },
+        completionData: { accuracy: 100, graded: true, completedAt: new Date(startedAt.getTime() + 10 * 60 * 1000) }
+      });
+
+      // Whole time limit used: x0.7; one of two hints: x0.85.
+      expect(skillRatingService.outcomeOf(challenge)).toBeCloseTo(0.7 * 0.85);
+    });
+  });
+
+  describe('recordOutcome', () => {
+    const userId = String(new mongoose.Types.ObjectId());
+
+    const rate = async (challenge: any): Promise<any> => {
+      jest.spyOn(SkillRating, 'findOne').mockResolvedValue(null);
+      const save = jest.spyOn(SkillRating.prototype, 'save').mockImplementation(function (this: any) {
+        return Promise.resolve(this);
+      });
+      await skillRatingService.recordOutcome(userId, challenge);
+      return save.mock.contexts[0];
+    };
+
+    it('applies one Glicko period for a win against a mid-level challenge', async () => {
+      const skill = await rate(completed());
+
+      expect(skill.rating).toBe(1650.06);
+      expect(skill.deviation).toBe(253.86);
+      expect(skill.challengesRated).toBe(1);
+      expect(skill.history[0]).toMatchObject({ difficultyScore: 5, outcome: 1, ratingBefore: 1500, ratingAfter: 1650.06 });
+    });
+
+    it('lowers the rating for a loss by the same certainty', async () => {
+      const skill = await rate(completed({ status: 'failed' }));
+
+      expect(skill.rating).toBe(1296.47);
+      expect(skill.deviation).toBe(253.86);
+    });
+
+    it('rates each challenge once', async () => {
+      const challenge = completed();
+      const existing = new SkillRating({ userId, rating: 1500, deviation: 350, history: [{ challengeId: challenge._id }] });
+      jest.spyOn(SkillRating, 'findOne').mockResolvedValue(existing);
+      const save = jest.spyOn(SkillRating.prototype, 'save');
+
+      await skillRatingService.recordOutcome(userId, challenge);
+
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    it('leaves the rating alone for self-reported completions', async () => {
+      const find = jest.spyOn(SkillRating, 'findOne');
+
+      await skillRatingService.recordOutcome(userId, completed({ completionData: { accuracy: 100 } }));
+
+      expect(find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recommendDifficulty', () => {
+    const userId = String(new mongoose.Types.ObjectId());
+
+    it('aims below the rating for a 70% expected success rate', async () => {
+      jest.spyOn(SkillRating, 'findOne').mockResolvedValue(null);
+      jest.spyOn(Gamification, 'findOne').mockReturnValue(preference());
+
+      await expect(skillRatingService.recommendDifficulty(userId)).resolves.toEqual({
+        difficulty: 'medium',
+        difficultyScore: 4,
+        adaptive: true,
+        rating: 1500,
+        deviation: 350
+      });
+    });
+
+    it('caps the score at 10 for strong players', async () => {
+      jest.spyOn(SkillRating, 'findOne').mockResolvedValue(new SkillRating({ userId, rating: 2200, deviation: 80 }));
+      jest.spyOn(Gamification, 'findOne').mockReturnValue(preference('adaptive'));
+
+      await expect(skillRatingService.recommendDifficulty(userId)).resolves.toMatchObject({ difficulty: 'hard', difficultyScore: 10 });
+    });
+
+    it('follows a fixed preference', async () => {
+      jest.spyOn(SkillRating, 'findOne').mockResolvedValue(null);
+      jest.spyOn(Gamification, 'findOne').mockReturnValue(preference('easy'));
+
+      await expect(skillRatingService.recommendDifficulty(userId)).resolves.toMatchObject({ difficulty: 'easy', difficultyScore: 3, adaptive: false });
+    });
+  });
+});
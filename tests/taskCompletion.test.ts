@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+import Task from '../src/models/Task';
+import taskService from '../src/services/taskService';
+
+jest.mock('../src/utils/logger');
+
+const MINUTE_MS = 60 * 1000;
+
+const taskCreated = (minutesAgo: number, estimatedDuration: number = 30): any => new Task({
+  userId: new mongoose.Types.ObjectId(),
+  title: 'Write report',
+  estimatedDuration,
+  createdAt: new Date(Date.now() - minutesAgo * MINUTE_MS)
+});
+
+describe('taskService.applyCompletion', () => {
+  it('caps reported durations at the time the task has existed', () => {
+    const task = taskCreated(10);
+
+    taskService.applyCompletion(task, { actualDuration: 600 });
+
+    expect(task.completionData.durationSource).toBe('reported');
+    expect(task.completionData.actualDuration).toBeGreaterThan(9.9);
+    expect(task.completionData.actualDuration).toBeLessThanOrEqual(10.01);
+  });
+
+  it('keeps plausible reported durations without crediting efficiency', () => {
+    const task = taskCreated(120);
+
+    taskService.applyCompletion(task, { actualDuration: 1 });
+
+    expect(task.completionData.actualDuration).toBe(1);
+    expect(task.completionData.efficiency).toBe(0);
+  });
+
+  it('measures efficiency against tracked time', () => {
+    const task = taskCreated(120);
+    task.timeTracking = {
+      state: 'paused',
+      intervals: [{ startedAt: new Date(Date.now() - 100 * MINUTE_MS), endedAt: new Date(Date.now() - 40 * MINUTE_MS) }]
+    };
+
+    taskService.applyCompletion(task, {});
+
+    expect(task.completionData.efficiency).toBe(50);
+  });
+
+  it('gives no efficiency credit without a duration', () => {
+    const task = taskCreated(120);
+
+    taskService.applyCompletion(task, { actualDuration: -5 });
+
+    expect(task.completionData.actualDuration).toBe(0);
+    expect(task.completionData.efficiency).toBe(0);
+  });
+
+  it('uses tracked intervals over the reported value', () => {
+    const task = taskCreated(120);
+    task.timeTracking = {
+      state: 'paused',
+      intervals: [{ startedAt: new Date(Date.now() - 50 * MINUTE_MS), endedAt: new Date(Date.now() - 35 * MINUTE_MS) }]
+    };
+
+    taskService.applyCompletion(task, { actualDuration: 1 });
+
+    expect(task.completionData.durationSource).toBe('tracked');
+    expect(task.completionData.actualDuration).toBe(15);
+    expect(task.completionData.efficiency).toBe(100);
+    expect(task.status).toBe('completed');
+  });
+});
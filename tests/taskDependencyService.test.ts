@@ -0,0 +1,76 @@
+import Task from '../src/models/Task';
+import taskDependencyService from '../src/services/taskDependencyService';
+
+jest.mock('../src/utils/logger');
+
+// a is blocked by b, b by c; d is a subtask of e, e of f.
+const graph = (): Map<string, any> => new Map([
+  ['a', { _id: 'a', blockedBy: ['b'] }],
+  ['b', { _id: 'b', blockedBy: ['c'] }],
+  ['c', { _id: 'c', blockedBy: [] }],
+  ['d', { _id: 'd', parentTaskId: 'e' }],
+  ['e', { _id: 'e', parentTaskId: 'f' }],
+  ['f', { _id: 'f', parentTaskId: null }]
+]);
+
+describe('taskDependencyService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('reachesThroughBlockers', () => {
+    it('follows blockedBy edges transitively', () => {
+      expect(taskDependencyService.reachesThroughBlockers(graph(), 'a', 'c')).toBe(true);
+      expect(taskDependencyService.reachesThroughBlockers(graph(), 'c', 'a')).toBe(false);
+    });
+
+    it('terminates on graphs that already contain a cycle', () => {
+      const cyclic = new Map([['x', { blockedBy: ['y'] }], ['y', { blockedBy: ['x'] }]]);
+      expect(taskDependencyService.reachesThroughBlockers(cyclic, 'x', 'z')).toBe(false);
+    });
+  });
+
+  describe('validateBlockers', () => {
+    beforeEach(() => {
+      jest.spyOn(taskDependencyService, 'loadUserGraph').mockResolvedValue(graph());
+    });
+
+    it('accepts blockers that do not lead back to the task', async () => {
+      await expect(taskDependencyService.validateBlockers('c', ['f'], 'u')).resolves.toBeUndefined();
+    });
+
+    it('rejects a dependency that closes a cycle', async () => {
+      await expect(taskDependencyService.validateBlockers('c', ['a'], 'u'))
+        .rejects.toMatchObject({ statusCode: 409, details: { taskId: 'c', blockerId: 'a' } });
+    });
+
+    it('rejects self-blocking and unknown blockers', async () => {
+      await expect(taskDependencyService.validateBlockers('a', ['a'], 'u')).rejects.toMatchObject({ statusCode: 400 });
+      await expect(taskDependencyService.validateBlockers('a', ['zz'], 'u')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('validateParent', () => {
+    beforeEach(() => {
+      jest.spyOn(taskDependencyService, 'loadUserGraph').mockResolvedValue(graph());
+    });
+
+    it('rejects making a task the subtask of its own descendant', async () => {
+      await expect(taskDependencyService.validateParent('f', 'd', 'u')).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('accepts parents outside the subtree', async () => {
+      await expect(taskDependencyService.validateParent('d', 'c', 'u')).resolves.toBeUndefined();
+    });
+  });
+
+  it.each([
+    ['addDependency', (id: string) => taskDependencyService.addDependency('a', id, 'u')],
+    ['removeDependency', (id: string) => taskDependencyService.removeDependency('a', id, 'u')]
+  ])('%s rejects malformed blocker ids with a 400', async (_name: string, call: (id: string) => Promise<any>) => {
+    const update = jest.spyOn(Task, 'findOneAndUpdate');
+
+    await expect(call('not-an-id')).rejects.toMatchObject({ statusCode: 400 });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
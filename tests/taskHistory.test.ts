@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+import Task from '../src/models/Task';
+import TaskChange from '../src/models/TaskChange';
+import taskHistoryService from '../src/services/taskHistoryService';
+
+jest.mock('../src/utils/logger');
+
+describe('taskHistoryService.updateMany', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('logs an update for each task the write changed', async () => {
+    const userId = new mongoose.Types.ObjectId();
+    const blocker = new mongoose.Types.ObjectId();
+    const before = [
+      new Task({ userId, title: 'a', blockedBy: [blocker] }),
+      new Task({ userId, title: 'b', blockedBy: [blocker] })
+    ];
+    const after = before.map((task: any) => new Task({ _id: task._id, userId, title: task.title, blockedBy: [] }));
+
+    jest.spyOn(Task, 'find')
+      .mockResolvedValueOnce(before as never)
+      .mockResolvedValueOnce(after as never);
+    const updateMany = jest.spyOn(Task, 'updateMany').mockResolvedValue({} as any);
+    const create = jest.spyOn(TaskChange, 'create').mockResolvedValue({} as never);
+
+    const filter = { userId, blockedBy: blocker };
+    await expect(taskHistoryService.updateMany(filter, { $pull: { blockedBy: blocker } }, { actorId: String(userId) }))
+      .resolves.toBe(2);
+
+    expect(updateMany).toHaveBeenCalledWith(
+      { _id: { $in: before.map((task: any) => task._id) } },
+      { $pull: { blockedBy: blocker } },
+      { runValidators: true }
+    );
+    expect(create).toHaveBeenCalledTimes(2);
+    expect((create.mock.calls[0][0] as any)).toMatchObject({
+      taskId: before[0]._id,
+      action: 'update',
+      changes: [{ field: 'blockedBy', newValue: [] }]
+    });
+  });
+
+  it('skips the write when nothing matches', async () => {
+    jest.spyOn(Task, 'find').mockResolvedValue([] as never);
+    const updateMany = jest.spyOn(Task, 'updateMany');
+
+    await expect(taskHistoryService.updateMany({}, { $set: { title: 'x' } })).resolves.toBe(0);
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,48 @@
+import Task from '../src/models/Task';
+import taskService from '../src/services/taskService';
+import { decodeOffsetCursor, encodeOffsetCursor } from '../src/utils/pagination';
+
+jest.mock('../src/utils/logger');
+
+describe('taskService.getUserTasks ranked search', () => {
+  const userId = '507f1f77bcf86cd799439011';
+
+  const mockFind = (count: number): any => {
+    const query: any = {
+      sort: jest.fn(() => query),
+      skip: jest.fn(() => query),
+      limit: jest.fn(() => Promise.resolve(Array.from({ length: count }, (_, n: number) => ({ _id: n }))))
+    };
+    jest.spyOn(Task, 'find').mockReturnValue(query);
+    return query;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns an offset cursor to the next ranked page', async () => {
+    const query = mockFind(11);
+
+    const page = await taskService.getUserTasks(userId, { search: 'report', limit: 10 });
+
+    expect(query.skip).toHaveBeenCalledWith(0);
+    expect(page.items).toHaveLength(10);
+    expect(page.hasMore).toBe(true);
+    expect(decodeOffsetCursor(page.nextCursor!)).toBe(10);
+  });
+
+  it('continues from the cursor', async () => {
+    const query = mockFind(3);
+
+    const page = await taskService.getUserTasks(userId, { search: 'report', limit: 10, cursor: encodeOffsetCursor(20) });
+
+    expect(query.skip).toHaveBeenCalledWith(20);
+    expect(page).toMatchObject({ hasMore: false, nextCursor: null });
+  });
+
+  it('rejects keyset cursors from unranked listings', async () => {
+    mockFind(0);
+    await expect(taskService.getUserTasks(userId, { search: 'report', cursor: 'bogus' })).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+import Task from '../src/models/Task';
+import taskService from '../src/services/taskService';
+
+jest.mock('../src/utils/logger');
+
+const occurrence = (overrides: any = {}): any => new Task({
+  userId: new mongoose.Types.ObjectId(),
+  title: 'Standup',
+  recurrence: { frequency: 'daily', count: 2 },
+  seriesId: new mongoose.Types.ObjectId(),
+  seriesStart: new Date(2026, 2, 1, 9),
+  occurrenceIndex: 2,
+  dueDate: new Date(2026, 2, 2, 9),
+  ...overrides
+});
+
+const mockQuery = (result: any): any => ({ sort: () => ({ limit: () => Promise.resolve(result) }) });
+
+describe('taskService recurring series', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('marks a series as ended when it has no next occurrence', async () => {
+    const task = occurrence();
+    const updateOne = jest.spyOn(Task, 'updateOne').mockResolvedValue({} as any);
+
+    await expect(taskService.generateNextOccurrence(task)).resolves.toBeNull();
+
+    expect(task.seriesEndedAt).toBeInstanceOf(Date);
+    expect(updateOne).toHaveBeenCalledWith({ _id: task._id }, { $set: { seriesEndedAt: task.seriesEndedAt } });
+  });
+
+  it('leaves ended series out and pages through due occurrences in order', async () => {
+    const first = Array.from({ length: 500 }, () => occurrence());
+    const second = [occurrence()];
+    const find = jest.spyOn(Task, 'find')
+      .mockReturnValueOnce(mockQuery(first))
+      .mockReturnValueOnce(mockQuery(second));
+    const generate = jest.spyOn(taskService, 'generateNextOccurrence').mockResolvedValue(null);
+
+    await taskService.advanceRecurringSeries(new Date(2026, 2, 10));
+
+    expect(find).toHaveBeenCalledTimes(2);
+    expect(find.mock.calls[0][0]).toMatchObject({ seriesEndedAt: { $exists: false }, nextOccurrenceId: { $exists: false } });
+    const last = first[first.length - 1];
+    expect((find.mock.calls[1][0] as any).$or).toEqual([
+      { dueDate: { $gt: last.dueDate } },
+      { dueDate: last.dueDate, _id: { $gt: last._id } }
+    ]);
+    expect(generate).toHaveBeenCalledTimes(501);
+  });
+
+  it('keeps going past occurrences that fail', async () => {
+    jest.spyOn(Task, 'find').mockReturnValueOnce(mockQuery([occurrence(), occurrence()]));
+    jest.spyOn(taskService, 'generateNextOccurrence')
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce(occurrence());
+
+    await expect(taskService.advanceRecurringSeries()).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import Task from '../src/models/Task';
+import taskService from '../src/services/taskService';
+import taskTransferService from '../src/services/taskTransferService';
+
+jest.mock('../src/utils/logger');
+
+const mockExisting = (tasks: any[]): jest.SpyInstance => jest.spyOn(Task, 'find').mockReturnValue({
+  select: () => ({ lean: () => Promise.resolve(tasks) })
+} as any);
+
+describe('taskTransferService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('CSV', () => {
+    it('round-trips quoted fields with commas, quotes and newlines', () => {
+      const task = {
+        _id: new mongoose.Types.ObjectId(),
+        title: 'Review "Q3", then ship',
+        description: 'line one\nline two',
+        type: 'code',
+        status: 'pending',
+        priority: 'high',
+        dueDate: new Date('2026-03-01T09:00:00.000Z'),
+        estimatedDuration: 45,
+        tags: ['work', 'release']
+      };
+
+      const [row] = taskTransferService.parseCSV(taskTransferService.toCSV([task]));
+
+      expect(row).toEqual({
+        sourceId: String(task._id),
+        title: task.title,
+        description: task.description,
+        type: 'code',
+        status: 'pending',
+        priority: 'high',
+        dueDate: '2026-03-01T09:00:00.000Z',
+        estimatedDuration: '45',
+        tags: 'work;release'
+      });
+    });
+
+    it('skips blank lines and leaves empty cells out', () => {
+      const rows = taskTransferService.parseCSV('title,priority\r\n\r\nFirst,\r\n"Second",low');
+      expect(rows).toEqual([{ title: 'First' }, { title: 'Second', priority: 'low' }]);
+    });
+  });
+
+  describe('ICS', () => {
+    it('round-trips escaped text, folded lines and priorities', () => {
+      const task = {
+        metadata: { sourceId: 'uid-1' },
+        title: `Plan; review, and ${'x'.repeat(80)}`,
+        description: 'a\\b\nc',
+        status: 'in_progress',
+        priority: 'urgent',
+        dueDate: new Date('2026-03-01T09:30:00.000Z'),
+        tags: ['a,b', 'c']
+      };
+
+      const ics = taskTransferService.toICS([task]);
+      expect(ics.split('\r\n').every((line: string) => Buffer.byteLength(line) <= 75)).toBe(true);
+
+      expect(taskTransferService.parseICS(ics)).toEqual([{
+        sourceId: 'uid-1',
+        title: task.title,
+        description: task.description,
+        dueDate: task.dueDate,
+        priority: 'urgent',
+        status: 'in_progress',
+        tags: ['a,b', 'c']
+      }]);
+    });
+
+    it('reads floating and date-only due dates as local time', () => {
+      const [todo] = taskTransferService.parseICS('BEGIN:VTODO\nSUMMARY:A\nDUE;VALUE=DATE:20260301\nPRIORITY:8\nEND:VTODO');
+      expect(todo.dueDate).toEqual(new Date(2026, 2, 1));
+      expect(todo.priority).toBe('low');
+    });
+  });
+
+  describe('normalizeRow', () => {
+    it('collects every problem in a row', () => {
+      const { errors } = taskTransferService.normalizeRow({ title: '', type: 'film', dueDate: 'soon', estimatedDuration: 0 });
+      expect(errors).toEqual([
+        'title is required',
+        'type must be one of: manual, notion, trello, github, google_docs, pdf, code, study, creative',
+        'dueDate is not a valid date',
+        'estimatedDuration must be a positive number'
+      ]);
+    });
+  });
+
+  describe('importTasks', () => {
+    const userId = '507f1f77bcf86cd799439011';
+
+    it('treats exported task IDs as duplicates on re-import', async () => {
+      const taskId = new mongoose.Types.ObjectId();
+      const find = mockExisting([{ _id: taskId }]);
+      const create = jest.spyOn(taskService, 'createTask');
+
+      const report = await taskTransferService.importTasks(userId, 'json', [
+        { sourceId: String(taskId), title: 'Exported without a sourceId' }
+      ]);
+
+      expect((find.mock.calls[0] as any[])[0].$or[1]._id.$in).toEqual([String(taskId)]);
+      expect(report).toMatchObject({ duplicates: 1, created: 0 });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('skips duplicates within the same file and reports invalid rows', async () => {
+      mockExisting([{ _id: new mongoose.Types.ObjectId(), metadata: { sourceId: 'trello-1' } }]);
+
+      const report = await taskTransferService.importTasks(userId, 'json', [
+        { sourceId: 'trello-1', title: 'Already imported' },
+        { sourceId: 'trello-2', title: 'New' },
+        { sourceId: 'trello-2', title: 'New again' },
+        { title: '' }
+      ], { dryRun: true });
+
+      expect(report.rows.map((row: any) => row.status)).toEqual(['duplicate', 'valid', 'duplicate', 'error']);
+    });
+
+    it('rejects files over the row limit', async () => {
+      const rows = Array.from({ length: 1001 }, (_, n: number) => ({ title: `Task ${n}` }));
+      await expect(taskTransferService.importTasks(userId, 'json', rows)).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { VALIDATION_OPTIONS } from '../src/middleware/validate';
+import { completeChallengeSchema } from '../src/validators/challengeValidators';
+import {
+  createTaskTemplateSchema,
+  instantiateTemplateSchema,
+  updateTaskTemplateSchema
+} from '../src/validators/taskValidators';
+import taskBulkService from '../src/services/taskBulkService';
+
+jest.mock('../src/utils/logger');
+
+const errorPaths = (schema: any, body: any): string[] =>
+  (schema.validate(body, VALIDATION_OPTIONS).error?.details || []).map((detail: any) => detail.path.join('.'));
+
+describe('request validators', () => {
+  it('does not accept client-reported challenge scores', () => {
+    expect(errorPaths(completeChallengeSchema, { completionTime: 30, score: 100, accuracy: 100 })).toEqual(['score', 'accuracy']);
+  });
+
+  it('validates task templates and rejects server-owned fields', () => {
+    expect(errorPaths(createTaskTemplateSchema, { name: 'Sprint', title: 'Plan {{sprint}}', variables: [{ key: 'sprint', required: true }] })).toEqual([]);
+    expect(errorPaths(createTaskTemplateSchema, { title: 'x', usageCount: 99, userId: 'u', variables: [{ key: '1bad' }] }))
+      .toEqual(['name', 'variables.0.key', 'usageCount', 'userId']);
+    expect(errorPaths(updateTaskTemplateSchema, {})).toEqual(['']);
+  });
+
+  it('validates the from-template body', () => {
+    expect(errorPaths(instantiateTemplateSchema, { variables: { sprint: 12 }, overrides: { priority: 'high' } })).toEqual([]);
+    expect(errorPaths(instantiateTemplateSchema, { variables: { sprint: { $gt: '' } }, overrides: { status: 'completed' } }))
+      .toEqual(['variables.sprint', 'overrides.status']);
+  });
+
+  it('validates bulk retag tags', () => {
+    const invalid = (tags: any) => () => taskBulkService.validateOperations([{ op: 'retag', id: 'a', tags }]);
+    expect(invalid({ add: [' urgent '] })).not.toThrow();
+    expect(invalid({})).toThrow('Invalid bulk operations');
+    expect(invalid({ add: [{ $ne: null }] })).toThrow('Invalid bulk operations');
+    expect(invalid({ add: ['x'.repeat(51)] })).toThrow('Invalid bulk operations');
+  });
+});